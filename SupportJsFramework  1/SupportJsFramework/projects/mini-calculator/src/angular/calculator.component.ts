@@ -24,7 +24,18 @@ import {
   roundTo
 } from 'support-js-framework/core';
 
-import { Calculator, CalculatorHistoryEntry, CalculatorOperation } from '../core/calculator';
+import {
+  Calculator,
+  CalculatorHistoryEntry,
+  CalculatorOperation,
+  StoredCalculatorSettings,
+  StoredHistoryEntry,
+  HISTORY_STORAGE_KEY,
+  SETTINGS_STORAGE_KEY,
+  DEFAULT_STORED_SETTINGS,
+  toStoredHistory,
+  fromStoredHistory
+} from '../core/calculator';
 
 // Angular calculator state interface
 interface AngularCalculatorState {
@@ -802,17 +813,19 @@ export class AngularCalculatorComponent implements OnInit, OnDestroy {
    */
   saveSetting(key: string, value: any): void {
     (this.state.settings as any)[key] = value;
-    this.storage.setLocal('calculator-settings', this.state.settings);
+    this.storage.setLocal(SETTINGS_STORAGE_KEY, { ...this.state.settings, theme: this.selectedTheme });
     this.logger.debug('Setting saved', { key, value });
   }
 
   /**
-   * Load settings from storage
+   * Load settings from storage; older versions are migrated and invalid
+   * values fall back to the defaults
    */
   private loadSettings(): void {
-    const savedSettings = this.storage.getLocal('calculator-settings', {});
+    const { theme, ...savedSettings } =
+      this.storage.getLocal<StoredCalculatorSettings>(SETTINGS_STORAGE_KEY) || DEFAULT_STORED_SETTINGS;
     this.state.settings = { ...this.state.settings, ...savedSettings };
-    this.selectedTheme = savedSettings.theme || '#3498db';
+    this.selectedTheme = theme || '#3498db';
     this.applyTheme();
   }
 
@@ -820,18 +833,16 @@ export class AngularCalculatorComponent implements OnInit, OnDestroy {
    * Load calculation history
    */
   private loadHistory(): void {
-    const savedHistory = this.storage.getLocal('calculator-history', []);
-    // Restore history to calculator
-    savedHistory.forEach((entry: CalculatorHistoryEntry) => {
-      // Note: In a real implementation, you'd restore the calculator state
-    });
+    const savedHistory = this.storage.getLocal<StoredHistoryEntry[]>(HISTORY_STORAGE_KEY) || [];
+    this.calculator.restoreHistory(fromStoredHistory(savedHistory));
+    this.state.history = this.calculator.getHistory();
   }
 
   /**
    * Save calculation history
    */
   private saveHistory(): void {
-    this.storage.setLocal('calculator-history', this.state.history);
+    this.storage.setLocal(HISTORY_STORAGE_KEY, toStoredHistory(this.state.history));
   }
 
   /**
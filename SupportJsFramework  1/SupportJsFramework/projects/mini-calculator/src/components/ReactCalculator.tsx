@@ -15,9 +15,19 @@ import {
   formatCurrency,
   hexToRgb,
   lighten,
-  darken 
+  darken,
+  schema,
+  type Infer
 } from 'support-js-framework/core';
-import { Calculator, CalculatorOperation, CalculatorHistoryEntry } from '../core/calculator';
+import {
+  Calculator,
+  CalculatorOperation,
+  CalculatorHistoryEntry,
+  StoredHistoryEntry,
+  HISTORY_STORAGE_KEY,
+  toStoredHistory,
+  fromStoredHistory
+} from '../core/calculator';
 
 // Calculator button interface
 interface CalculatorButton {
@@ -54,15 +64,21 @@ const CALCULATOR_BUTTONS: CalculatorButton[] = [
   { label: '=', value: '=', type: 'operation', className: 'equals' },
 ];
 
-// Theme configuration
-interface CalculatorTheme {
-  primary: string;
-  secondary: string;
-  background: string;
-  text: string;
-  buttonBg: string;
-  operationBg: string;
-}
+// Theme configuration, validated when read back from storage
+const hexColor = () => schema.string().pattern(/^#[0-9a-f]{6}$/i);
+
+const themeSchema = schema.object({
+  primary: hexColor(),
+  secondary: hexColor(),
+  background: hexColor(),
+  text: hexColor(),
+  buttonBg: hexColor(),
+  operationBg: hexColor()
+});
+
+type CalculatorTheme = Infer<typeof themeSchema>;
+
+const currencySchema = schema.enum(['USD', 'EUR', 'GBP', 'JPY']);
 
 const DEFAULT_THEME: CalculatorTheme = {
   primary: '#3498db',
@@ -203,9 +219,14 @@ const SettingsPanel: React.FC<{
  */
 export const ReactCalculator: React.FC = () => {
   // Calculator instance and display state
-  const [calculator] = useState(() => new Calculator());
+  const [storedHistory, setStoredHistory] = useLocalStorage<StoredHistoryEntry[]>(HISTORY_STORAGE_KEY, []);
+  const [calculator] = useState(() => {
+    const instance = new Calculator();
+    instance.restoreHistory(fromStoredHistory(storedHistory));
+    return instance;
+  });
   const [display, setDisplay] = useState('0');
-  const [history, setHistory] = useState<CalculatorHistoryEntry[]>([]);
+  const [history, setHistory] = useState<CalculatorHistoryEntry[]>(() => calculator.getHistory());
   
   // UI state
   const [showHistory, setShowHistory] = useState(false);
@@ -213,8 +234,8 @@ export const ReactCalculator: React.FC = () => {
   const [showCurrency, setShowCurrency] = useState(false);
   
   // Theme and settings
-  const [theme, setTheme] = useLocalStorage<CalculatorTheme>('calc-theme', DEFAULT_THEME);
-  const [currency, setCurrency] = useLocalStorage('calc-currency', 'USD');
+  const [theme, setTheme] = useLocalStorage<CalculatorTheme>('calc-theme', DEFAULT_THEME, { schema: themeSchema });
+  const [currency, setCurrency] = useLocalStorage<string>('calc-currency', 'USD', { schema: currencySchema });
   
   // Performance optimizations
   const windowSize = useWindowSize();
@@ -224,7 +245,8 @@ export const ReactCalculator: React.FC = () => {
   const updateDisplay = useCallback(() => {
     setDisplay(calculator.getDisplay());
     setHistory(calculator.getHistory());
-  }, [calculator]);
+    setStoredHistory(toStoredHistory(calculator.getHistory()));
+  }, [calculator, setStoredHistory]);
 
   // Handle button clicks
   const handleButtonClick = useCallback((button: CalculatorButton) => {
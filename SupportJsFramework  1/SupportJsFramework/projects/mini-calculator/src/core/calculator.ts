@@ -9,7 +9,10 @@ import {
   clamp,
   createLogger,
   debounce,
-  memoize
+  memoize,
+  schema,
+  defineStorageVersion,
+  type Infer
 } from '../../../src/core';
 
 // Calculator operation types
@@ -39,6 +42,69 @@ export interface CalculatorConfig {
   enableLogging: boolean;
 }
 
+// Storage keys shared by the React and Angular calculators
+export const HISTORY_STORAGE_KEY = 'calculator-history';
+export const SETTINGS_STORAGE_KEY = 'calculator-settings';
+
+// Persisted history: v1 stored Date timestamps as ISO strings, v2 stores epoch milliseconds
+const storedHistorySchema = schema.array(
+  schema.object({
+    expression: schema.string(),
+    result: schema.number(),
+    timestamp: schema.number()
+  })
+).max(50);
+
+export type StoredHistoryEntry = Infer<typeof storedHistorySchema>[number];
+
+defineStorageVersion(HISTORY_STORAGE_KEY, {
+  version: 2,
+  migrations: {
+    1: (entries: Array<{ expression: string; result: number; timestamp: string }>) =>
+      entries.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp).getTime() }))
+  },
+  schema: storedHistorySchema,
+  defaultValue: []
+});
+
+// Persisted settings; stored values that no longer match read as the defaults
+const storedSettingsSchema = schema.object({
+  soundEnabled: schema.boolean(),
+  animationsEnabled: schema.boolean(),
+  currency: schema.string(),
+  decimalPlaces: schema.number().min(0).max(10),
+  theme: schema.optional(schema.string())
+});
+
+export type StoredCalculatorSettings = Infer<typeof storedSettingsSchema>;
+
+export const DEFAULT_STORED_SETTINGS: StoredCalculatorSettings = {
+  soundEnabled: true,
+  animationsEnabled: true,
+  currency: 'USD',
+  decimalPlaces: 2
+};
+
+defineStorageVersion(SETTINGS_STORAGE_KEY, {
+  version: 1,
+  schema: storedSettingsSchema,
+  defaultValue: DEFAULT_STORED_SETTINGS
+});
+
+/**
+ * Convert history entries to their persisted form
+ */
+export function toStoredHistory(history: CalculatorHistoryEntry[]): StoredHistoryEntry[] {
+  return history.map(entry => ({ ...entry, timestamp: entry.timestamp.getTime() }));
+}
+
+/**
+ * Convert persisted history entries back to history entries
+ */
+export function fromStoredHistory(entries: StoredHistoryEntry[]): CalculatorHistoryEntry[] {
+  return entries.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) }));
+}
+
 // Default configuration
 const DEFAULT_CONFIG: CalculatorConfig = {
   maxDigits: 12,
@@ -290,6 +356,14 @@ export class Calculator {
     return [...this.state.history];
   }
 
+  /**
+   * Replace the history, e.g. with entries restored from storage
+   */
+  restoreHistory(history: CalculatorHistoryEntry[]): void {
+    this.state.history = history.slice(0, 50);
+    this.logger.info('History restored', { entries: this.state.history.length });
+  }
+
   /**
    * Get current state (for debugging/testing)
    */
@@ -0,0 +1,326 @@
+/**
+ * Payment card brand detection, validation, formatting and masking
+ */
+
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'discover' | 'jcb' | 'unionpay' | 'diners' | 'maestro';
+
+export interface CardBrandInfo {
+  brand: CardBrand;
+  name: string;
+  /**
+   * IIN prefixes, as single prefixes or inclusive ranges of equal length
+   */
+  prefixes: Array<number | [number, number]>;
+  lengths: number[];
+  cvcLength: number;
+  /**
+   * Positions after which a space is inserted when formatting
+   */
+  gaps: number[];
+  /**
+   * Whether numbers must pass the Luhn checksum
+   */
+  luhn: boolean;
+}
+
+export type CardNumberErrorReason =
+  | 'EMPTY'
+  | 'INVALID_CHARACTERS'
+  | 'UNKNOWN_BRAND'
+  | 'INVALID_LENGTH'
+  | 'CHECKSUM_FAILED';
+
+export interface CardNumberValidation {
+  isValid: boolean;
+  brand: CardBrand | null;
+  reason?: CardNumberErrorReason;
+}
+
+export type CardExpiryErrorReason = 'INVALID_FORMAT' | 'EXPIRED' | 'TOO_FAR_IN_FUTURE';
+
+export interface CardExpiry {
+  month: number; // 1-12
+  year: number; // four digits
+}
+
+export interface CardExpiryValidation {
+  isValid: boolean;
+  reason?: CardExpiryErrorReason;
+}
+
+export interface MaskCardOptions {
+  maskChar?: string;
+  /**
+   * Number of trailing digits left visible
+   */
+  visibleDigits?: number;
+  /**
+   * Group the masked number like formatCardNumber
+   */
+  format?: boolean;
+}
+
+const DEFAULT_GAPS = [4, 8, 12, 16];
+const MAX_CARD_LENGTH = 19;
+
+/**
+ * Card brands, with more specific prefixes winning over shorter ones
+ */
+const CARD_BRANDS: CardBrandInfo[] = [
+  {
+    brand: 'visa',
+    name: 'Visa',
+    prefixes: [4],
+    lengths: [13, 16, 19],
+    cvcLength: 3,
+    gaps: DEFAULT_GAPS,
+    luhn: true
+  },
+  {
+    brand: 'mastercard',
+    name: 'Mastercard',
+    prefixes: [[51, 55], [2221, 2720]],
+    lengths: [16],
+    cvcLength: 3,
+    gaps: DEFAULT_GAPS,
+    luhn: true
+  },
+  {
+    brand: 'amex',
+    name: 'American Express',
+    prefixes: [34, 37],
+    lengths: [15],
+    cvcLength: 4,
+    gaps: [4, 10],
+    luhn: true
+  },
+  {
+    brand: 'discover',
+    name: 'Discover',
+    prefixes: [6011, [644, 649], 65, [622126, 622925]],
+    lengths: [16, 17, 18, 19],
+    cvcLength: 3,
+    gaps: DEFAULT_GAPS,
+    luhn: true
+  },
+  {
+    brand: 'jcb',
+    name: 'JCB',
+    prefixes: [[3528, 3589]],
+    lengths: [16, 17, 18, 19],
+    cvcLength: 3,
+    gaps: DEFAULT_GAPS,
+    luhn: true
+  },
+  {
+    brand: 'unionpay',
+    name: 'UnionPay',
+    prefixes: [62, 81],
+    lengths: [16, 17, 18, 19],
+    cvcLength: 3,
+    gaps: DEFAULT_GAPS,
+    luhn: false
+  },
+  {
+    brand: 'diners',
+    name: 'Diners Club',
+    prefixes: [[300, 305], 3095, 36, [38, 39]],
+    lengths: [14, 16, 17, 18, 19],
+    cvcLength: 3,
+    gaps: [4, 10],
+    luhn: true
+  },
+  {
+    brand: 'maestro',
+    name: 'Maestro',
+    prefixes: [5018, 5020, 5038, 5893, 6304, 6759, [6761, 6763], 50, [56, 58]],
+    lengths: [12, 13, 14, 15, 16, 17, 18, 19],
+    cvcLength: 3,
+    gaps: DEFAULT_GAPS,
+    luhn: true
+  }
+];
+
+/**
+ * Strip spaces and dashes from a card number
+ */
+function getDigits(number: string): string {
+  return number.replace(/[\s-]/g, '');
+}
+
+/**
+ * Length of the prefix matched by a brand, or 0 if it does not match
+ */
+function getPrefixMatchLength(digits: string, info: CardBrandInfo): number {
+  let best = 0;
+
+  for (const prefix of info.prefixes) {
+    const [low, high] = Array.isArray(prefix) ? prefix : [prefix, prefix];
+    const length = String(low).length;
+    if (digits.length < length) continue;
+
+    const value = Number(digits.slice(0, length));
+    if (value >= low && value <= high) {
+      best = Math.max(best, length);
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Check a number against the Luhn checksum
+ */
+export function luhnCheck(digits: string): boolean {
+  let sum = 0;
+  let isEven = false;
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = parseInt(digits.charAt(i), 10);
+
+    if (isEven) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+
+    sum += digit;
+    isEven = !isEven;
+  }
+
+  return sum % 10 === 0;
+}
+
+/**
+ * Detect the card brand from the leading digits (IIN). Works on partial
+ * numbers while the user types.
+ */
+export function getCardBrand(number: string): CardBrand | null {
+  const digits = getDigits(number);
+  if (!/^\d+$/.test(digits)) return null;
+
+  let match: CardBrandInfo | null = null;
+  let matchLength = 0;
+
+  for (const info of CARD_BRANDS) {
+    const length = getPrefixMatchLength(digits, info);
+    if (length > matchLength) {
+      match = info;
+      matchLength = length;
+    }
+  }
+
+  return match ? match.brand : null;
+}
+
+/**
+ * Get the rules of a card brand
+ */
+export function getCardBrandInfo(brand: CardBrand): CardBrandInfo {
+  return CARD_BRANDS.find(info => info.brand === brand)!;
+}
+
+/**
+ * Validate a card number against its brand's length and checksum rules
+ */
+export function validateCardNumber(number: string): CardNumberValidation {
+  const digits = getDigits(number);
+
+  if (!digits) return { isValid: false, brand: null, reason: 'EMPTY' };
+  if (!/^\d+$/.test(digits)) return { isValid: false, brand: null, reason: 'INVALID_CHARACTERS' };
+
+  const brand = getCardBrand(digits);
+  if (!brand) return { isValid: false, brand: null, reason: 'UNKNOWN_BRAND' };
+
+  const info = getCardBrandInfo(brand);
+  if (!info.lengths.includes(digits.length)) return { isValid: false, brand, reason: 'INVALID_LENGTH' };
+  if (info.luhn && !luhnCheck(digits)) return { isValid: false, brand, reason: 'CHECKSUM_FAILED' };
+
+  return { isValid: true, brand };
+}
+
+/**
+ * Validate a card security code, for a specific brand if known
+ */
+export function isValidCVC(cvc: string, brand?: CardBrand | null): boolean {
+  const value = cvc.trim();
+  if (!/^\d+$/.test(value)) return false;
+
+  return brand ? value.length === getCardBrandInfo(brand).cvcLength : value.length === 3 || value.length === 4;
+}
+
+/**
+ * Parse an expiry date such as `04/27`, `4/2027` or `0427`
+ */
+export function parseCardExpiry(input: string): CardExpiry | null {
+  const match = /^\s*(\d{1,2})\s*(?:[/\-.]\s*)?(\d{2}|\d{4})\s*$/.exec(input);
+  if (!match || (match[1].length === 1 && !/[/\-.]/.test(input))) return null;
+
+  const month = Number(match[1]);
+  if (month < 1 || month > 12) return null;
+
+  const year = match[2].length === 2 ? 2000 + Number(match[2]) : Number(match[2]);
+  return { month, year };
+}
+
+/**
+ * Validate a card expiry date. Cards are valid through the last day of
+ * their expiry month; dates more than `maxYears` ahead are rejected.
+ */
+export function validateCardExpiry(
+  expiry: string | CardExpiry,
+  referenceDate: Date = new Date(),
+  maxYears = 20
+): CardExpiryValidation {
+  const parsed = typeof expiry === 'string' ? parseCardExpiry(expiry) : expiry;
+  if (!parsed || parsed.month < 1 || parsed.month > 12) {
+    return { isValid: false, reason: 'INVALID_FORMAT' };
+  }
+
+  const expiryIndex = parsed.year * 12 + parsed.month - 1;
+  const currentIndex = referenceDate.getFullYear() * 12 + referenceDate.getMonth();
+
+  if (expiryIndex < currentIndex) return { isValid: false, reason: 'EXPIRED' };
+  if (expiryIndex > currentIndex + maxYears * 12) return { isValid: false, reason: 'TOO_FAR_IN_FUTURE' };
+
+  return { isValid: true };
+}
+
+/**
+ * Group a (possibly partial) card number for display while typing, e.g.
+ * `4242 4242 4242 4242` or `3782 822463 10005` for Amex. Non-digits are
+ * dropped and the number is cut at the brand's maximum length.
+ */
+export function formatCardNumber(number: string): string {
+  const brand = getCardBrand(number.replace(/\D/g, ''));
+  const info = brand ? getCardBrandInfo(brand) : null;
+  const maxLength = info ? Math.max(...info.lengths) : MAX_CARD_LENGTH;
+  const digits = number.replace(/\D/g, '').slice(0, maxLength);
+  const gaps = info ? info.gaps : DEFAULT_GAPS;
+
+  let result = '';
+  for (let i = 0; i < digits.length; i++) {
+    if (gaps.includes(i)) {
+      result += ' ';
+    }
+    result += digits[i];
+  }
+
+  return result;
+}
+
+/**
+ * Mask all but the last digits of a card number, e.g. `•••• •••• •••• 4242`
+ */
+export function maskCardNumber(number: string, options: MaskCardOptions = {}): string {
+  const { maskChar = '•', visibleDigits = 4, format = true } = options;
+  const digits = number.replace(/\D/g, '');
+  const visibleFrom = Math.max(0, digits.length - visibleDigits);
+
+  // Format before masking so grouping follows the real brand
+  const grouped = format ? formatCardNumber(digits) : digits;
+  let index = 0;
+
+  return grouped.replace(/\d/g, digit => (index++ < visibleFrom ? maskChar : digit));
+}
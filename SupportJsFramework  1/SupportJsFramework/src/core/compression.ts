@@ -0,0 +1,294 @@
+/**
+ * String compression that survives UTF-16 storage such as localStorage
+ */
+
+/**
+ * `lz` works everywhere and synchronously; `deflate` uses CompressionStream
+ */
+export type CompressionMethod = 'lz' | 'deflate';
+
+/**
+ * Characters produced by the UTF-16 encodings carry 15 bits each, offset
+ * by 32, so output never contains control characters or lone surrogates
+ */
+const UTF16_BITS = 15;
+const UTF16_OFFSET = 32;
+
+/**
+ * LZ-based compression writing `bitsPerChar` bits into each output char
+ * (stream-compatible with lz-string)
+ */
+function lzCompress(input: string, bitsPerChar: number, toChar: (value: number) => string): string {
+  const dictionary = new Map<string, number>();
+  const pendingLiterals = new Set<string>();
+  const output: string[] = [];
+  let buffer = 0;
+  let position = 0;
+  let dictSize = 3;
+  let numBits = 2;
+  let enlargeIn = 2;
+
+  // Bits are written least significant first
+  const writeBits = (value: number, count: number): void => {
+    for (let i = 0; i < count; i++) {
+      buffer = (buffer << 1) | (value & 1);
+      value >>= 1;
+      if (position === bitsPerChar - 1) {
+        position = 0;
+        output.push(toChar(buffer));
+        buffer = 0;
+      } else {
+        position++;
+      }
+    }
+  };
+
+  const countDown = (): void => {
+    if (--enlargeIn === 0) {
+      enlargeIn = 2 ** numBits;
+      numBits++;
+    }
+  };
+
+  const emit = (phrase: string): void => {
+    if (pendingLiterals.has(phrase)) {
+      const code = phrase.charCodeAt(0);
+      if (code < 256) {
+        writeBits(0, numBits);
+        writeBits(code, 8);
+      } else {
+        writeBits(1, numBits);
+        writeBits(code, 16);
+      }
+      countDown();
+      pendingLiterals.delete(phrase);
+    } else {
+      writeBits(dictionary.get(phrase)!, numBits);
+    }
+    countDown();
+  };
+
+  let phrase = '';
+  for (let i = 0; i < input.length; i++) {
+    const char = input.charAt(i);
+    if (!dictionary.has(char)) {
+      dictionary.set(char, dictSize++);
+      pendingLiterals.add(char);
+    }
+
+    const extended = phrase + char;
+    if (dictionary.has(extended)) {
+      phrase = extended;
+    } else {
+      emit(phrase);
+      dictionary.set(extended, dictSize++);
+      phrase = char;
+    }
+  }
+
+  if (phrase !== '') emit(phrase);
+
+  // End of stream marker, then flush the last char
+  writeBits(2, numBits);
+  for (;;) {
+    buffer <<= 1;
+    if (position === bitsPerChar - 1) {
+      output.push(toChar(buffer));
+      break;
+    }
+    position++;
+  }
+
+  return output.join('');
+}
+
+/**
+ * Inverse of lzCompress; null if the input is corrupt
+ */
+function lzDecompress(length: number, resetValue: number, getNextValue: (index: number) => number): string | null {
+  const dictionary: string[] = ['', '', ''];
+  let enlargeIn = 4;
+  let dictSize = 4;
+  let numBits = 3;
+  let value = getNextValue(0);
+  let position = resetValue;
+  let index = 1;
+
+  const readBits = (count: number): number => {
+    let bits = 0;
+    for (let power = 1; power !== 1 << count; power <<= 1) {
+      const bit = value & position;
+      position >>= 1;
+      if (position === 0) {
+        position = resetValue;
+        value = getNextValue(index++);
+      }
+      if (bit) bits |= power;
+    }
+    return bits;
+  };
+
+  let phrase: string;
+  switch (readBits(2)) {
+    case 0:
+      phrase = String.fromCharCode(readBits(8));
+      break;
+    case 1:
+      phrase = String.fromCharCode(readBits(16));
+      break;
+    case 2:
+      return '';
+    default:
+      return null;
+  }
+
+  dictionary[3] = phrase;
+  const result = [phrase];
+
+  for (;;) {
+    if (index > length) return null;
+
+    let code = readBits(numBits);
+    if (code === 0 || code === 1) {
+      dictionary[dictSize++] = String.fromCharCode(readBits(code === 0 ? 8 : 16));
+      code = dictSize - 1;
+      enlargeIn--;
+    } else if (code === 2) {
+      return result.join('');
+    }
+
+    if (enlargeIn === 0) {
+      enlargeIn = 2 ** numBits;
+      numBits++;
+    }
+
+    let entry: string;
+    if (code < dictSize) {
+      entry = dictionary[code];
+    } else if (code === dictSize) {
+      entry = phrase + phrase.charAt(0);
+    } else {
+      return null;
+    }
+    result.push(entry);
+
+    dictionary[dictSize++] = phrase + entry.charAt(0);
+    enlargeIn--;
+    phrase = entry;
+
+    if (enlargeIn === 0) {
+      enlargeIn = 2 ** numBits;
+      numBits++;
+    }
+  }
+}
+
+/**
+ * Compress a string into a UTF-16-safe string
+ */
+export function compressToUTF16(input: string): string {
+  return lzCompress(input, UTF16_BITS, value => String.fromCharCode(value + UTF16_OFFSET)) + ' ';
+}
+
+/**
+ * Decompress a string produced by compressToUTF16; null if it is corrupt
+ */
+export function decompressFromUTF16(compressed: string): string | null {
+  if (!compressed) return null;
+  return lzDecompress(compressed.length, 1 << (UTF16_BITS - 1), index => compressed.charCodeAt(index) - UTF16_OFFSET);
+}
+
+/**
+ * Pack bytes into a UTF-16-safe string, prefixed with the byte length
+ */
+function bytesToUTF16(bytes: Uint8Array): string {
+  const toChar = (value: number): string => String.fromCharCode(value + UTF16_OFFSET);
+  const chars = [toChar(bytes.length >>> UTF16_BITS), toChar(bytes.length & 0x7fff)];
+  let buffer = 0;
+  let bits = 0;
+
+  bytes.forEach(byte => {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    if (bits >= UTF16_BITS) {
+      bits -= UTF16_BITS;
+      chars.push(toChar((buffer >> bits) & 0x7fff));
+      buffer &= (1 << bits) - 1;
+    }
+  });
+
+  if (bits > 0) chars.push(toChar((buffer << (UTF16_BITS - bits)) & 0x7fff));
+  return chars.join('');
+}
+
+/**
+ * Unpack bytes packed by bytesToUTF16
+ */
+function utf16ToBytes(text: string): Uint8Array {
+  const fromChar = (index: number): number => text.charCodeAt(index) - UTF16_OFFSET;
+  const bytes = new Uint8Array((fromChar(0) << UTF16_BITS) | fromChar(1));
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+
+  for (let i = 2; i < text.length && offset < bytes.length; i++) {
+    buffer = (buffer << UTF16_BITS) | fromChar(i);
+    bits += UTF16_BITS;
+    while (bits >= 8 && offset < bytes.length) {
+      bits -= 8;
+      bytes[offset++] = (buffer >> bits) & 0xff;
+    }
+    buffer &= (1 << bits) - 1;
+  }
+
+  return bytes;
+}
+
+/**
+ * Run bytes through a (de)compression stream
+ */
+async function transformBytes(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const writer = stream.writable.getWriter();
+  // Not awaited: writes only settle once the readable side is drained
+  writer.write(bytes).catch(() => undefined);
+  writer.close().catch(() => undefined);
+
+  const chunks: Uint8Array[] = [];
+  const reader = stream.readable.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+}
+
+/**
+ * Check if CompressionStream is available
+ */
+export function isCompressionStreamSupported(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+}
+
+/**
+ * Compress a string with CompressionStream (deflate) into a UTF-16-safe string
+ */
+export async function deflateToUTF16(input: string): Promise<string> {
+  const bytes = await transformBytes(new TextEncoder().encode(input), new CompressionStream('deflate'));
+  return bytesToUTF16(bytes);
+}
+
+/**
+ * Decompress a string produced by deflateToUTF16
+ */
+export async function inflateFromUTF16(compressed: string): Promise<string> {
+  const bytes = await transformBytes(utf16ToBytes(compressed), new DecompressionStream('deflate'));
+  return new TextDecoder().decode(bytes);
+}
@@ -0,0 +1,467 @@
+/**
+ * RFC 6265 cookie parsing and serialization, with cookie jars for
+ * `document.cookie`, Node requests/responses and Web `Request`/`Response`
+ */
+
+import { CryptoError, Encryptor, Signer } from './crypto';
+
+export type CookieSameSite = 'strict' | 'lax' | 'none';
+export type CookiePriority = 'low' | 'medium' | 'high';
+
+export interface CookieOptions {
+  expires?: Date;
+  /**
+   * Lifetime in seconds; 0 or less removes the cookie
+   */
+  maxAge?: number;
+  path?: string;
+  domain?: string;
+  secure?: boolean;
+  httpOnly?: boolean;
+  sameSite?: CookieSameSite;
+  /**
+   * Store the cookie per top-level site (CHIPS); requires `secure`
+   */
+  partitioned?: boolean;
+  priority?: CookiePriority;
+  /**
+   * Encode the value (default encodeURIComponent)
+   */
+  encode?: (value: string) => string;
+}
+
+/**
+ * A cookie and its attributes, as parsed from a `Set-Cookie` header
+ */
+export interface Cookie extends Omit<CookieOptions, 'encode'> {
+  name: string;
+  value: string;
+}
+
+export interface CookieParseOptions {
+  /**
+   * Decode values (default decodeURIComponent, keeping values it rejects)
+   */
+  decode?: (value: string) => string;
+}
+
+/**
+ * Where a jar reads the `Cookie` header from and writes `Set-Cookie`
+ * headers to
+ */
+export interface CookieSource {
+  read(): string;
+  write(setCookie: string): void;
+  /**
+   * True when reads already reflect writes, as with `document.cookie`
+   */
+  live?: boolean;
+}
+
+/**
+ * The parts of Node's IncomingMessage a jar uses
+ */
+export interface NodeCookieRequest {
+  headers: { cookie?: string | undefined };
+}
+
+/**
+ * The parts of Node's ServerResponse a jar uses
+ */
+export interface NodeCookieResponse {
+  getHeader(name: string): number | string | string[] | undefined;
+  setHeader(name: string, value: string | string[]): unknown;
+}
+
+/**
+ * Largest name and value browsers are required to store
+ */
+const MAX_COOKIE_SIZE = 4096;
+
+/**
+ * RFC 7230 token, the allowed characters of cookie names
+ */
+const TOKEN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * RFC 6265 cookie-octets, optionally wrapped in double quotes
+ */
+const COOKIE_VALUE = /^("?)[\x21\x23-\x2B\x2D-\x3A\x3C-\x5B\x5D-\x7E]*\1$/;
+
+/**
+ * Characters allowed in Path and Domain attribute values
+ */
+const ATTRIBUTE_VALUE = /^[\x20-\x3A\x3C-\x7E]*$/;
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Strip the double quotes a value may be wrapped in
+ */
+function unquote(value: string): string {
+  return value.length > 1 && value[0] === '"' && value[value.length - 1] === '"' ? value.slice(1, -1) : value;
+}
+
+/**
+ * Parse a `Cookie` header (or `document.cookie`) into name/value pairs;
+ * values may contain `=`, and the first of duplicate names wins as it has
+ * the most specific path
+ */
+export function parseCookies(header: string | null | undefined, options: CookieParseOptions = {}): Record<string, string> {
+  const decode = options.decode || safeDecode;
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const pair of header.split(';')) {
+    const index = pair.indexOf('=');
+    if (index === -1) continue;
+
+    const name = pair.slice(0, index).trim();
+    if (!name || Object.prototype.hasOwnProperty.call(cookies, name)) continue;
+
+    cookies[name] = decode(unquote(pair.slice(index + 1).trim()));
+  }
+
+  return cookies;
+}
+
+/**
+ * Check the `__Secure-` and `__Host-` prefix requirements
+ */
+function checkPrefix(name: string, options: CookieOptions): void {
+  const lower = name.toLowerCase();
+  if ((lower.startsWith('__secure-') || lower.startsWith('__host-')) && !options.secure) {
+    throw new Error(`Cookie "${name}" must be set with secure`);
+  }
+  if (lower.startsWith('__host-') && (options.domain !== undefined || options.path !== '/')) {
+    throw new Error(`Cookie "${name}" must be set with path "/" and without a domain`);
+  }
+}
+
+/**
+ * Serialize a cookie into a `Set-Cookie` header value; throws for invalid
+ * names, values and attributes, and for cookies breaking their prefix rules
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+  if (!TOKEN.test(name)) throw new Error(`Invalid cookie name "${name}"`);
+
+  const encoded = (options.encode || encodeURIComponent)(value);
+  if (!COOKIE_VALUE.test(encoded)) throw new Error(`Invalid value for cookie "${name}"`);
+
+  checkPrefix(name, options);
+  if (options.partitioned && !options.secure) {
+    throw new Error(`Partitioned cookie "${name}" must be set with secure`);
+  }
+
+  const parts = [`${name}=${encoded}`];
+
+  if (options.maxAge !== undefined) {
+    if (!isFinite(options.maxAge)) throw new Error(`Invalid maxAge for cookie "${name}"`);
+    parts.push(`Max-Age=${Math.floor(options.maxAge)}`);
+  }
+
+  if (options.expires) {
+    if (isNaN(options.expires.getTime())) throw new Error(`Invalid expires for cookie "${name}"`);
+    parts.push(`Expires=${options.expires.toUTCString()}`);
+  }
+
+  if (options.domain) {
+    if (!ATTRIBUTE_VALUE.test(options.domain)) throw new Error(`Invalid domain for cookie "${name}"`);
+    parts.push(`Domain=${options.domain}`);
+  }
+
+  if (options.path) {
+    if (!ATTRIBUTE_VALUE.test(options.path)) throw new Error(`Invalid path for cookie "${name}"`);
+    parts.push(`Path=${options.path}`);
+  }
+
+  if (options.secure) parts.push('Secure');
+  if (options.httpOnly) parts.push('HttpOnly');
+  if (options.partitioned) parts.push('Partitioned');
+
+  if (options.sameSite) {
+    parts.push(`SameSite=${options.sameSite[0].toUpperCase()}${options.sameSite.slice(1)}`);
+  }
+
+  if (options.priority) {
+    parts.push(`Priority=${options.priority[0].toUpperCase()}${options.priority.slice(1)}`);
+  }
+
+  return parts.join('; ');
+}
+
+/**
+ * Parse a `Set-Cookie` header value; null if it has no name
+ */
+export function parseSetCookie(header: string, options: CookieParseOptions = {}): Cookie | null {
+  const [pair, ...attributes] = header.split(';');
+  const index = pair.indexOf('=');
+  const name = (index === -1 ? '' : pair.slice(0, index)).trim();
+  if (!name) return null;
+
+  const cookie: Cookie = { name, value: (options.decode || safeDecode)(unquote(pair.slice(index + 1).trim())) };
+
+  for (const attribute of attributes) {
+    const separator = attribute.indexOf('=');
+    const key = (separator === -1 ? attribute : attribute.slice(0, separator)).trim().toLowerCase();
+    const value = separator === -1 ? '' : attribute.slice(separator + 1).trim();
+
+    switch (key) {
+      case 'expires': {
+        const expires = new Date(value);
+        if (!isNaN(expires.getTime())) cookie.expires = expires;
+        break;
+      }
+      case 'max-age':
+        if (/^-?\d+$/.test(value)) cookie.maxAge = Number(value);
+        break;
+      case 'domain':
+        if (value) cookie.domain = value.replace(/^\./, '').toLowerCase();
+        break;
+      case 'path':
+        if (value.startsWith('/')) cookie.path = value;
+        break;
+      case 'secure':
+        cookie.secure = true;
+        break;
+      case 'httponly':
+        cookie.httpOnly = true;
+        break;
+      case 'partitioned':
+        cookie.partitioned = true;
+        break;
+      case 'samesite': {
+        const sameSite = value.toLowerCase();
+        if (sameSite === 'strict' || sameSite === 'lax' || sameSite === 'none') cookie.sameSite = sameSite;
+        break;
+      }
+      case 'priority': {
+        const priority = value.toLowerCase();
+        if (priority === 'low' || priority === 'medium' || priority === 'high') cookie.priority = priority;
+        break;
+      }
+    }
+  }
+
+  return cookie;
+}
+
+/**
+ * Split a `Set-Cookie` header that was folded into one comma-separated
+ * string, leaving the commas of Expires dates alone
+ */
+export function splitSetCookieHeader(header: string): string[] {
+  return header
+    .split(/,(?=\s*[!#$%&'*+\-.^_`|~0-9A-Za-z]+=)/)
+    .map(part => part.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Reads the cookies of a request or document and writes `Set-Cookie`
+ * headers; on servers, reads reflect the cookies set through the jar
+ */
+export class CookieJar {
+  private readonly source: CookieSource;
+  private readonly defaults: CookieOptions;
+  private readonly changes = new Map<string, string | null>();
+
+  constructor(source: CookieSource, defaults: CookieOptions = {}) {
+    this.source = source;
+    this.defaults = defaults;
+  }
+
+  /**
+   * Get all cookies
+   */
+  getAll(options: CookieParseOptions = {}): Record<string, string> {
+    const cookies = parseCookies(this.source.read(), options);
+    this.changes.forEach((value, name) => {
+      if (value === null) {
+        delete cookies[name];
+      } else {
+        cookies[name] = value;
+      }
+    });
+    return cookies;
+  }
+
+  /**
+   * Get a cookie value
+   */
+  get(name: string, options: CookieParseOptions = {}): string | null {
+    const cookies = this.getAll(options);
+    return Object.prototype.hasOwnProperty.call(cookies, name) ? cookies[name] : null;
+  }
+
+  /**
+   * Check if a cookie exists
+   */
+  has(name: string): boolean {
+    return this.get(name) !== null;
+  }
+
+  /**
+   * Set a cookie; every call appends its own `Set-Cookie` header
+   */
+  set(name: string, value: string, options: CookieOptions = {}): void {
+    const merged = { ...this.defaults, ...options };
+    this.source.write(serializeCookie(name, value, merged));
+
+    if (!this.source.live) {
+      const expired =
+        (merged.maxAge !== undefined && merged.maxAge <= 0) ||
+        (merged.expires !== undefined && merged.expires.getTime() <= Date.now());
+      this.changes.set(name, expired ? null : value);
+    }
+  }
+
+  /**
+   * Set a cookie signed with HMAC-SHA256; its value stays readable. The
+   * signature covers `name=value`, so it is only valid for this cookie.
+   */
+  async setSigned(name: string, value: string, signer: Signer, options: CookieOptions = {}): Promise<void> {
+    const signed = await signer.sign(`${name}=${value}`);
+    this.set(name, signed.slice(name.length + 1), options);
+  }
+
+  /**
+   * Get a signed cookie's value; null if it is missing or no secret
+   * verifies it for this cookie name
+   */
+  async getSigned(name: string, signer: Signer): Promise<string | null> {
+    const signed = this.get(name);
+    if (signed === null) return null;
+
+    const unsigned = await signer.unsign(`${name}=${signed}`);
+    return unsigned === null ? null : unsigned.slice(name.length + 1);
+  }
+
+  /**
+   * Set a cookie holding an encrypted JSON value, bound to the cookie name;
+   * the expiry given by `maxAge` or `expires` is sealed with it
+   */
+  async setSealed<T>(name: string, value: T, encryptor: Encryptor, options: CookieOptions = {}): Promise<void> {
+    const { expires, maxAge } = { ...this.defaults, ...options };
+    const expiry = expires ? expires.getTime() : maxAge !== undefined ? Date.now() + maxAge * 1000 : undefined;
+
+    const sealed = await encryptor.encrypt(JSON.stringify({ value, ...(expiry !== undefined && { expiry }) }), name);
+    if (name.length + sealed.length > MAX_COOKIE_SIZE) {
+      throw new Error(`Sealed cookie "${name}" exceeds ${MAX_COOKIE_SIZE} bytes`);
+    }
+
+    this.set(name, sealed, options);
+  }
+
+  /**
+   * Get a sealed cookie's value; null if it is missing, expired, tampered
+   * with or sealed with an unknown key
+   */
+  async getSealed<T>(name: string, encryptor: Encryptor): Promise<T | null> {
+    const sealed = this.get(name);
+    if (sealed === null) return null;
+
+    try {
+      const { value, expiry } = JSON.parse(await encryptor.decrypt(sealed, name));
+      return expiry !== undefined && expiry <= Date.now() ? null : (value as T);
+    } catch (error) {
+      if (error instanceof CryptoError && error.code === 'CRYPTO_UNAVAILABLE') throw error;
+      return null;
+    }
+  }
+
+  /**
+   * Remove a cookie; `path` and `domain` must match the ones it was set with
+   */
+  remove(name: string, options: Pick<CookieOptions, 'path' | 'domain' | 'secure' | 'partitioned'> = {}): void {
+    this.set(name, '', { ...options, expires: new Date(0), maxAge: 0 });
+  }
+}
+
+/**
+ * Create a jar over any cookie source
+ */
+export function createCookieJar(source: CookieSource, defaults: CookieOptions = {}): CookieJar {
+  return new CookieJar(source, defaults);
+}
+
+/**
+ * Create a jar over `document.cookie`
+ */
+export function createDocumentCookieJar(defaults: CookieOptions = {}, doc: Document = document): CookieJar {
+  return new CookieJar(
+    {
+      read: () => doc.cookie,
+      write: setCookie => {
+        doc.cookie = setCookie;
+      },
+      live: true
+    },
+    defaults
+  );
+}
+
+/**
+ * Append a `Set-Cookie` header, keeping the ones already set
+ */
+export function appendSetCookie(target: NodeCookieResponse | Headers, setCookie: string): void {
+  if ('append' in target) {
+    target.append('Set-Cookie', setCookie);
+    return;
+  }
+
+  const existing = target.getHeader('Set-Cookie');
+  const headers = existing === undefined ? [] : Array.isArray(existing) ? existing : [String(existing)];
+  target.setHeader('Set-Cookie', [...headers, setCookie]);
+}
+
+/**
+ * Create a jar over a Node request and response (e.g. API routes or
+ * `getServerSideProps` context); without a response cookies are read-only
+ */
+export function createNodeCookieJar(
+  req: NodeCookieRequest | null,
+  res?: NodeCookieResponse,
+  defaults: CookieOptions = {}
+): CookieJar {
+  return new CookieJar(
+    {
+      read: () => (req && req.headers.cookie) || '',
+      write: setCookie => {
+        if (!res) throw new Error('Cannot set cookies without a response');
+        appendSetCookie(res, setCookie);
+      }
+    },
+    defaults
+  );
+}
+
+/**
+ * Create a jar over a Web `Request` (or its headers) and the headers of
+ * the `Response` to send, e.g. in middleware and route handlers
+ */
+export function createWebCookieJar(
+  request: Request | Headers | null,
+  response?: Response | Headers,
+  defaults: CookieOptions = {}
+): CookieJar {
+  const requestHeaders = request && ('headers' in request ? request.headers : request);
+  const responseHeaders = response && ('headers' in response ? response.headers : response);
+
+  return new CookieJar(
+    {
+      read: () => (requestHeaders && requestHeaders.get('cookie')) || '',
+      write: setCookie => {
+        if (!responseHeaders) throw new Error('Cannot set cookies without a response');
+        appendSetCookie(responseHeaders, setCookie);
+      }
+    },
+    defaults
+  );
+}
@@ -0,0 +1,307 @@
+/**
+ * Web Crypto helpers: AES-GCM encryption with PBKDF2-derived keys and
+ * HMAC-SHA256 signatures
+ */
+
+export type CryptoErrorCode = 'CRYPTO_UNAVAILABLE' | 'INVALID_PAYLOAD' | 'UNKNOWN_KEY' | 'DECRYPTION_FAILED';
+
+/**
+ * Error thrown when encryption is unavailable or a payload cannot be
+ * decrypted (wrong key, tampered data or malformed input)
+ */
+export class CryptoError extends Error {
+  readonly code: CryptoErrorCode;
+  readonly timestamp: Date;
+
+  constructor(code: CryptoErrorCode, message: string) {
+    super(message);
+    this.name = 'CryptoError';
+    this.code = code;
+    this.timestamp = new Date();
+  }
+}
+
+export interface EncryptionKey {
+  /**
+   * Identifier stored with each payload; must not contain `.`
+   */
+  id: string;
+  /**
+   * Passphrase to derive the key from, or an AES-GCM CryptoKey
+   */
+  secret: string | CryptoKey;
+}
+
+export interface EncryptionOptions {
+  /**
+   * Keys, newest first: payloads are encrypted with the first key and can
+   * be decrypted with any of them
+   */
+  keys: EncryptionKey[];
+  salt?: string;
+  iterations?: number;
+  /**
+   * Web Crypto implementation, e.g. `require('crypto').webcrypto` on
+   * Node versions without a global `crypto`
+   */
+  crypto?: Crypto;
+}
+
+export interface SigningOptions {
+  /**
+   * Secrets, newest first: values are signed with the first secret and
+   * verified with any of them
+   */
+  secrets: Array<string | CryptoKey>;
+  crypto?: Crypto;
+}
+
+const DEFAULT_SALT = 'support-js-framework';
+const DEFAULT_ITERATIONS = 100000;
+const IV_LENGTH = 12;
+
+/**
+ * Get the Web Crypto implementation to use
+ */
+export function getWebCrypto(crypto?: Crypto): Crypto {
+  const implementation = crypto || (typeof globalThis !== 'undefined' ? globalThis.crypto : undefined);
+  if (!implementation || !implementation.subtle) {
+    throw new CryptoError('CRYPTO_UNAVAILABLE', 'Web Crypto is not available in this environment');
+  }
+  return implementation;
+}
+
+/**
+ * Encode bytes as unpadded base64url
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode unpadded base64url into bytes
+ */
+export function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Derive an AES-GCM key from a passphrase with PBKDF2-SHA-256
+ */
+export async function deriveKey(
+  secret: string,
+  salt: string = DEFAULT_SALT,
+  iterations: number = DEFAULT_ITERATIONS,
+  crypto?: Crypto
+): Promise<CryptoKey> {
+  const { subtle } = getWebCrypto(crypto);
+  const encoder = new TextEncoder();
+  const material = await subtle.importKey('raw', encoder.encode(secret), 'PBKDF2', false, ['deriveKey']);
+
+  return subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(salt), iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypts strings into `<keyId>.<iv>.<ciphertext>` payloads and decrypts
+ * them with any key of its key ring
+ */
+export class Encryptor {
+  private readonly options: EncryptionOptions;
+  private readonly keyCache = new Map<string, Promise<CryptoKey>>();
+
+  constructor(options: EncryptionOptions) {
+    if (options.keys.length === 0) throw new Error('At least one encryption key is required');
+    if (options.keys.some(key => !/^[\w-]+$/.test(key.id))) {
+      throw new Error('Encryption key ids may only contain letters, digits, "_" and "-"');
+    }
+    this.options = options;
+  }
+
+  /**
+   * Id of the key new payloads are encrypted with
+   */
+  get currentKeyId(): string {
+    return this.options.keys[0].id;
+  }
+
+  private getKey(id: string): Promise<CryptoKey> {
+    const entry = this.options.keys.find(key => key.id === id);
+    if (!entry) return Promise.reject(new CryptoError('UNKNOWN_KEY', `Unknown encryption key "${id}"`));
+
+    if (!this.keyCache.has(id)) {
+      const { salt, iterations, crypto } = this.options;
+      this.keyCache.set(
+        id,
+        typeof entry.secret === 'string' ? deriveKey(entry.secret, salt, iterations, crypto) : Promise.resolve(entry.secret)
+      );
+    }
+    return this.keyCache.get(id)!;
+  }
+
+  /**
+   * Encrypt text with the current key; `associatedData` (e.g. the storage
+   * key) must be passed again to decrypt
+   */
+  async encrypt(plaintext: string, associatedData = ''): Promise<string> {
+    const crypto = getWebCrypto(this.options.crypto);
+    const key = await this.getKey(this.currentKeyId);
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const encoder = new TextEncoder();
+
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: encoder.encode(associatedData) },
+      key,
+      encoder.encode(plaintext)
+    );
+
+    return `${this.currentKeyId}.${toBase64Url(iv)}.${toBase64Url(new Uint8Array(ciphertext))}`;
+  }
+
+  /**
+   * Decrypt a payload, throwing a CryptoError if it cannot be authenticated
+   */
+  async decrypt(payload: string, associatedData = ''): Promise<string> {
+    const { keyId, iv, ciphertext } = this.parse(payload);
+    const key = await this.getKey(keyId);
+
+    try {
+      const plaintext = await getWebCrypto(this.options.crypto).subtle.decrypt(
+        { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(associatedData) },
+        key,
+        ciphertext
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch {
+      throw new CryptoError('DECRYPTION_FAILED', 'Payload could not be decrypted or was tampered with');
+    }
+  }
+
+  /**
+   * Check if a payload was encrypted with an older key
+   */
+  needsRotation(payload: string): boolean {
+    return this.parse(payload).keyId !== this.currentKeyId;
+  }
+
+  private parse(payload: string): { keyId: string; iv: Uint8Array; ciphertext: Uint8Array } {
+    const parts = typeof payload === 'string' ? payload.split('.') : [];
+    if (parts.length !== 3 || parts.some(part => !/^[\w-]+$/.test(part))) {
+      throw new CryptoError('INVALID_PAYLOAD', 'Payload is not an encrypted value');
+    }
+
+    const iv = fromBase64Url(parts[1]);
+    if (iv.length !== IV_LENGTH) throw new CryptoError('INVALID_PAYLOAD', 'Payload has an invalid IV');
+
+    return { keyId: parts[0], iv, ciphertext: fromBase64Url(parts[2]) };
+  }
+}
+
+/**
+ * Create an encryptor, e.g.
+ * `createEncryptor({ keys: [{ id: '2024', secret: process.env.STORAGE_KEY }] })`
+ */
+export function createEncryptor(options: EncryptionOptions): Encryptor {
+  return new Encryptor(options);
+}
+
+/**
+ * Signs strings as `<value>.<signature>` with HMAC-SHA256 and verifies
+ * them with any secret of its list
+ */
+export class Signer {
+  private readonly options: SigningOptions;
+  private readonly keyCache = new Map<number, Promise<CryptoKey>>();
+
+  constructor(options: SigningOptions) {
+    if (options.secrets.length === 0) throw new Error('At least one signing secret is required');
+    this.options = options;
+  }
+
+  private getKey(index: number): Promise<CryptoKey> {
+    if (!this.keyCache.has(index)) {
+      const secret = this.options.secrets[index];
+      this.keyCache.set(
+        index,
+        typeof secret === 'string'
+          ? getWebCrypto(this.options.crypto).subtle.importKey(
+              'raw',
+              new TextEncoder().encode(secret),
+              { name: 'HMAC', hash: 'SHA-256' },
+              false,
+              ['sign', 'verify']
+            )
+          : Promise.resolve(secret)
+      );
+    }
+    return this.keyCache.get(index)!;
+  }
+
+  /**
+   * Index of the secret a signed value verifies with; -1 if none does
+   */
+  private async findSecret(signed: string): Promise<number> {
+    const separator = typeof signed === 'string' ? signed.lastIndexOf('.') : -1;
+    if (separator === -1 || !/^[\w-]+$/.test(signed.slice(separator + 1))) return -1;
+
+    let signature: Uint8Array;
+    try {
+      signature = fromBase64Url(signed.slice(separator + 1));
+    } catch {
+      return -1;
+    }
+
+    const { subtle } = getWebCrypto(this.options.crypto);
+    const data = new TextEncoder().encode(signed.slice(0, separator));
+
+    for (let i = 0; i < this.options.secrets.length; i++) {
+      if (await subtle.verify('HMAC', await this.getKey(i), signature, data)) return i;
+    }
+    return -1;
+  }
+
+  /**
+   * Sign a value with the current secret
+   */
+  async sign(value: string): Promise<string> {
+    const signature = await getWebCrypto(this.options.crypto).subtle.sign(
+      'HMAC',
+      await this.getKey(0),
+      new TextEncoder().encode(value)
+    );
+    return `${value}.${toBase64Url(new Uint8Array(signature))}`;
+  }
+
+  /**
+   * Get the value of a signed string; null if no secret verifies it
+   */
+  async unsign(signed: string): Promise<string | null> {
+    return (await this.findSecret(signed)) === -1 ? null : signed.slice(0, signed.lastIndexOf('.'));
+  }
+
+  /**
+   * Check if a valid signed string was signed with an older secret
+   */
+  async needsRotation(signed: string): Promise<boolean> {
+    return (await this.findSecret(signed)) > 0;
+  }
+}
+
+/**
+ * Create a signer, e.g.
+ * `createSigner({ secrets: [process.env.COOKIE_SECRET, process.env.OLD_COOKIE_SECRET] })`
+ */
+export function createSigner(options: SigningOptions): Signer {
+  return new Signer(options);
+}
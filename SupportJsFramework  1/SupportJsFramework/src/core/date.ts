@@ -10,101 +10,709 @@ export type DateFormat =
   | 'MMM DD, YYYY'
   | 'MMMM DD, YYYY';
 
+export interface FormatDateOptions {
+  locale?: string;
+  timeZone?: string;
+}
+
+/**
+ * Calendar and clock fields of a date as seen in a particular time zone
+ */
+export interface DateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday
+  hours: number;
+  minutes: number;
+  seconds: number;
+  milliseconds: number;
+  offset: number; // minutes east of UTC
+}
+
+/**
+ * Matches escaped literals (`[at]`) and every supported format token.
+ * Longer tokens are listed before their prefixes so `MMMM` wins over `MM`.
+ */
+const FORMAT_TOKEN_REGEX = /\[([^\]]*)]|YYYY|YY|Do|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|m|ss|s|SSS|A|a|ZZ|Z/g;
+
+const DEFAULT_LOCALE = 'en-US';
+
+/**
+ * Built-in formats that predate format tokens and print the day of the
+ * month without padding ("Jan 5, 2023")
+ */
+const LEGACY_FORMATS: Record<string, string> = {
+  'MMM DD, YYYY': 'MMM D, YYYY',
+  'MMMM DD, YYYY': 'MMMM D, YYYY'
+};
+
+const intlCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get a cached Intl.DateTimeFormat for the given locale and options
+ */
+function getIntlFormatter(locale: string, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+  const cacheKey = `${locale}|${JSON.stringify(options)}`;
+  let formatter = intlCache.get(cacheKey);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(locale, options);
+    intlCache.set(cacheKey, formatter);
+  }
+
+  return formatter;
+}
+
+/**
+ * Get localized month names, January first
+ */
+export function getMonthNames(locale = DEFAULT_LOCALE, width: 'long' | 'short' = 'long'): string[] {
+  const formatter = getIntlFormatter(locale, { month: width, timeZone: 'UTC' });
+  return Array.from({ length: 12 }, (_, month) => formatter.format(new Date(Date.UTC(2000, month, 1))));
+}
+
+/**
+ * Get localized weekday names, Sunday first
+ */
+export function getWeekdayNames(locale = DEFAULT_LOCALE, width: 'long' | 'short' = 'long'): string[] {
+  const formatter = getIntlFormatter(locale, { weekday: width, timeZone: 'UTC' });
+  // 2 January 2000 was a Sunday
+  return Array.from({ length: 7 }, (_, day) => formatter.format(new Date(Date.UTC(2000, 0, 2 + day))));
+}
+
+/**
+ * Get the localized AM/PM marker for an hour of the day
+ */
+function getDayPeriod(hours: number, locale: string): string {
+  const formatter = getIntlFormatter(locale, { hour: 'numeric', hour12: true, timeZone: 'UTC' });
+  const part = formatter
+    .formatToParts(new Date(Date.UTC(2000, 0, 1, hours)))
+    .find(item => item.type === 'dayPeriod');
+
+  return part ? part.value : hours < 12 ? 'AM' : 'PM';
+}
+
+/**
+ * Get the ordinal form of a day of the month
+ */
+function getOrdinal(day: number, locale: string): string {
+  if (!locale.toLowerCase().startsWith('en')) {
+    return `${day}.`;
+  }
+
+  const suffixes: Record<string, string> = { one: 'st', two: 'nd', few: 'rd', other: 'th' };
+  const rule = new Intl.PluralRules('en-US', { type: 'ordinal' }).select(day);
+  return `${day}${suffixes[rule] || 'th'}`;
+}
+
+/**
+ * Format a UTC offset in minutes as +HH:mm (or +HHmm without separator)
+ */
+function formatOffset(offsetMinutes: number, separator: string): string {
+  const sign = offsetMinutes >= 0 ? '+' : '-';
+  const absolute = Math.abs(offsetMinutes);
+  const hours = Math.floor(absolute / 60).toString().padStart(2, '0');
+  const minutes = (absolute % 60).toString().padStart(2, '0');
+  return `${sign}${hours}${separator}${minutes}`;
+}
+
+/**
+ * Check if a string is a valid IANA time zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getIntlFormatter(DEFAULT_LOCALE, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the IANA time zone of the current environment
+ */
+export function getLocalTimeZone(): string {
+  return new Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Get the calendar and clock fields of a date, in the host zone or the given
+ * IANA time zone. Throws a RangeError for unknown time zones.
+ */
+export function getDateParts(date: Date, timeZone?: string): DateParts {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      weekday: date.getDay(),
+      hours: date.getHours(),
+      minutes: date.getMinutes(),
+      seconds: date.getSeconds(),
+      milliseconds: date.getMilliseconds(),
+      offset: -date.getTimezoneOffset()
+    };
+  }
+
+  const formatter = getIntlFormatter(DEFAULT_LOCALE, {
+    timeZone,
+    hourCycle: 'h23',
+    era: 'short',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  });
+
+  const values: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    values[part.type] = part.value;
+  }
+
+  const era = values.era === 'BC' ? -1 : 1;
+  const year = era === 1 ? Number(values.year) : 1 - Number(values.year);
+  const month = Number(values.month);
+  const day = Number(values.day);
+  const hours = Number(values.hour);
+  const minutes = Number(values.minute);
+  const seconds = Number(values.second);
+  const milliseconds = ((date.getTime() % 1000) + 1000) % 1000;
+
+  const wallTime = new Date(Date.UTC(2000, month - 1, day, hours, minutes, seconds, milliseconds));
+  wallTime.setUTCFullYear(year);
+
+  return {
+    year,
+    month,
+    day,
+    weekday: wallTime.getUTCDay(),
+    hours,
+    minutes,
+    seconds,
+    milliseconds,
+    offset: Math.round((wallTime.getTime() - date.getTime()) / 60000)
+  };
+}
+
+/**
+ * Build a date from calendar and clock fields, interpreted as wall time in
+ * the host zone or the given IANA time zone. Overflowing fields roll over,
+ * so day 32 of January is February 1.
+ */
+export function fromDateParts(
+  parts: Pick<DateParts, 'year' | 'month' | 'day' | 'hours' | 'minutes' | 'seconds' | 'milliseconds'>,
+  timeZone?: string
+): Date {
+  if (!timeZone) {
+    // Set the date before the time so days carried over from the clock
+    // fields are kept
+    const local = new Date(2000, 0, 1);
+    local.setFullYear(parts.year, parts.month - 1, parts.day);
+    local.setHours(parts.hours, parts.minutes, parts.seconds, parts.milliseconds);
+    return local;
+  }
+
+  const wallTime = new Date(0);
+  wallTime.setUTCFullYear(parts.year, parts.month - 1, parts.day);
+  wallTime.setUTCHours(parts.hours, parts.minutes, parts.seconds, parts.milliseconds);
+
+  // The offset at the wall time itself can differ from the offset at the
+  // resulting instant around DST transitions, so correct once more
+  const guess = wallTime.getTime() - getTimeZoneOffset(wallTime, timeZone) * 60000;
+  const corrected = wallTime.getTime() - getTimeZoneOffset(new Date(guess), timeZone) * 60000;
+  return new Date(corrected);
+}
+
+/**
+ * Get the UTC offset of a time zone at the given instant, in minutes east of UTC
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  return getDateParts(date, timeZone).offset;
+}
+
+/**
+ * Get a date whose local fields show the wall time of `date` in `timeZone`.
+ * Useful for handing zoned values to APIs that only read local fields.
+ */
+export function toZonedTime(date: Date, timeZone: string): Date {
+  return fromDateParts(getDateParts(date, timeZone));
+}
+
+/**
+ * Interpret the local fields of `date` as wall time in `timeZone` and return
+ * the matching instant. This is the inverse of toZonedTime.
+ */
+export function fromZonedTime(date: Date, timeZone: string): Date {
+  return fromDateParts(getDateParts(date), timeZone);
+}
+
+/**
+ * Convert the wall time of `date` from one time zone to another
+ */
+export function convertTimeZone(date: Date, fromTimeZone: string, toTimeZone: string): Date {
+  return toZonedTime(fromZonedTime(date, fromTimeZone), toTimeZone);
+}
+
 /**
  * Format a date according to the specified format
+ *
+ * Supported tokens: YYYY, YY, M, MM, MMM, MMMM, D, DD, Do, ddd, dddd, H, HH,
+ * h, hh, m, mm, s, ss, SSS, A, a, Z, ZZ. Text inside square brackets is
+ * output as-is, e.g. `[Today is] dddd`. Pass `timeZone` to render the wall
+ * time of an IANA zone instead of the host zone. The built-in formats
+ * 'MMM DD, YYYY' and 'MMMM DD, YYYY' keep their unpadded day.
  */
-export function formatDate(date: Date, format: DateFormat): string {
-  const year = date.getFullYear();
-  const month = date.getMonth() + 1;
-  const day = date.getDate();
-  const hours = date.getHours();
-  const minutes = date.getMinutes();
-  const seconds = date.getSeconds();
-
-  const monthNames = [
-    'January', 'February', 'March', 'April', 'May', 'June',
-    'July', 'August', 'September', 'October', 'November', 'December'
-  ];
-
-  const monthShort = [
-    'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
-    'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'
-  ];
-
-  const pad = (num: number): string => num.toString().padStart(2, '0');
-
-  switch (format) {
-    case 'YYYY-MM-DD':
-      return `${year}-${pad(month)}-${pad(day)}`;
-    case 'MM/DD/YYYY':
-      return `${pad(month)}/${pad(day)}/${year}`;
-    case 'DD/MM/YYYY':
-      return `${pad(day)}/${pad(month)}/${year}`;
-    case 'YYYY-MM-DD HH:mm:ss':
-      return `${year}-${pad(month)}-${pad(day)} ${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
-    case 'MMM DD, YYYY':
-      return `${monthShort[month - 1]} ${day}, ${year}`;
-    case 'MMMM DD, YYYY':
-      return `${monthNames[month - 1]} ${day}, ${year}`;
-    default:
-      return date.toISOString();
-  }
-}
-
-/**
- * Add or subtract days from a date
- */
-export function addDays(date: Date, days: number): Date {
-  const result = new Date(date);
-  result.setDate(result.getDate() + days);
-  return result;
+export function formatDate(
+  date: Date,
+  format: DateFormat | (string & {}),
+  options: FormatDateOptions = {}
+): string {
+  const locale = options.locale || DEFAULT_LOCALE;
+  const {
+    year,
+    month,
+    day,
+    weekday,
+    hours,
+    minutes,
+    seconds,
+    milliseconds,
+    offset
+  } = getDateParts(date, options.timeZone);
+
+  const pad = (num: number, length = 2): string => num.toString().padStart(length, '0');
+  const hours12 = hours % 12 === 0 ? 12 : hours % 12;
+
+  return (LEGACY_FORMATS[format] || format).replace(FORMAT_TOKEN_REGEX, (token: string, literal?: string) => {
+    if (literal !== undefined) {
+      return literal;
+    }
+
+    switch (token) {
+      case 'YYYY':
+        return pad(year, 4);
+      case 'YY':
+        return pad(year % 100);
+      case 'MMMM':
+        return getMonthNames(locale, 'long')[month - 1];
+      case 'MMM':
+        return getMonthNames(locale, 'short')[month - 1];
+      case 'MM':
+        return pad(month);
+      case 'M':
+        return month.toString();
+      case 'DD':
+        return pad(day);
+      case 'D':
+        return day.toString();
+      case 'Do':
+        return getOrdinal(day, locale);
+      case 'dddd':
+        return getWeekdayNames(locale, 'long')[weekday];
+      case 'ddd':
+        return getWeekdayNames(locale, 'short')[weekday];
+      case 'HH':
+        return pad(hours);
+      case 'H':
+        return hours.toString();
+      case 'hh':
+        return pad(hours12);
+      case 'h':
+        return hours12.toString();
+      case 'mm':
+        return pad(minutes);
+      case 'm':
+        return minutes.toString();
+      case 'ss':
+        return pad(seconds);
+      case 's':
+        return seconds.toString();
+      case 'SSS':
+        return pad(milliseconds, 3);
+      case 'A':
+        return getDayPeriod(hours, locale);
+      case 'a':
+        return getDayPeriod(hours, locale).toLowerCase();
+      case 'ZZ':
+        return formatOffset(offset, '');
+      case 'Z':
+        return formatOffset(offset, ':');
+      default:
+        return token;
+    }
+  });
+}
+
+export interface ParseDateOptions {
+  locale?: string;
+  strict?: boolean;
+  referenceDate?: Date;
+  timeZone?: string;
+}
+
+export type ParseDateErrorCode =
+  | 'INVALID_INPUT'
+  | 'UNEXPECTED_INPUT'
+  | 'TRAILING_INPUT'
+  | 'OUT_OF_RANGE'
+  | 'WEEKDAY_MISMATCH';
+
+export interface ParseDateError {
+  code: ParseDateErrorCode;
+  message: string;
+  index: number;
+  token?: string;
+}
+
+export interface ParseDateResult {
+  isValid: boolean;
+  date: Date | null;
+  error?: ParseDateError;
+}
+
+type PatternPart = { literal: string } | { token: string };
+
+interface ParsedFields {
+  year?: number;
+  month?: number;
+  day?: number;
+  weekday?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+  milliseconds?: number;
+  isPM?: boolean;
+  offset?: number;
+}
+
+/**
+ * Split a format pattern into tokens and literal text
+ */
+function tokenizePattern(pattern: string): PatternPart[] {
+  const parts: PatternPart[] = [];
+  const regex = new RegExp(FORMAT_TOKEN_REGEX.source, 'g');
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(pattern)) !== null) {
+    if (match.index > lastIndex) {
+      parts.push({ literal: pattern.slice(lastIndex, match.index) });
+    }
+
+    parts.push(match[1] !== undefined ? { literal: match[1] } : { token: match[0] });
+    lastIndex = regex.lastIndex;
+  }
+
+  if (lastIndex < pattern.length) {
+    parts.push({ literal: pattern.slice(lastIndex) });
+  }
+
+  return parts;
+}
+
+/**
+ * Get the number of days in a month (month is 1-12)
+ */
+export function getDaysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Parse a string into a Date using the same token grammar as formatDate
+ *
+ * Strict mode requires exact token widths, exact literals, case-sensitive
+ * names and no trailing input. Lenient mode (the default) accepts shorter
+ * numbers, any separator and surrounding whitespace.
+ */
+export function parseDate(
+  input: string,
+  pattern: DateFormat | (string & {}),
+  options: ParseDateOptions = {}
+): ParseDateResult {
+  const locale = options.locale || DEFAULT_LOCALE;
+  const strict = options.strict ?? false;
+
+  const fail = (code: ParseDateErrorCode, message: string, index: number, token?: string): ParseDateResult => ({
+    isValid: false,
+    date: null,
+    error: token !== undefined ? { code, message, index, token } : { code, message, index }
+  });
+
+  if (typeof input !== 'string' || input.trim() === '') {
+    return fail('INVALID_INPUT', 'Input must be a non-empty string', 0);
+  }
+
+  const fields: ParsedFields = {};
+  let position = 0;
+
+  const skipWhitespace = (): void => {
+    if (strict) return;
+    while (position < input.length && /\s/.test(input[position])) {
+      position++;
+    }
+  };
+
+  const isSeparator = (value: string | undefined): boolean =>
+    value !== undefined && /[^\p{L}\p{N}\s]/u.test(value);
+
+  const readNumber = (minDigits: number, maxDigits: number): number | null => {
+    skipWhitespace();
+    const match = new RegExp(`^\\d{${strict ? minDigits : 1},${maxDigits}}`).exec(input.slice(position));
+    if (!match) return null;
+    position += match[0].length;
+    return parseInt(match[0], 10);
+  };
+
+  const readName = (names: string[]): number | null => {
+    skipWhitespace();
+    const rest = input.slice(position);
+    let best = -1;
+    let bestLength = 0;
+
+    names.forEach((name, index) => {
+      const candidate = rest.slice(0, name.length);
+      const matches = strict ? candidate === name : candidate.toLowerCase() === name.toLowerCase();
+      if (matches && name.length > bestLength) {
+        best = index;
+        bestLength = name.length;
+      }
+    });
+
+    if (best === -1) return null;
+    position += bestLength;
+    return best;
+  };
+
+  for (const part of tokenizePattern(LEGACY_FORMATS[pattern] || pattern)) {
+    const start = position;
+
+    if ('literal' in part) {
+      for (const char of part.literal) {
+        if (!strict && /\s/.test(char)) {
+          skipWhitespace();
+          continue;
+        }
+
+        skipWhitespace();
+        const current = input[position];
+
+        if (current === char || (!strict && isSeparator(char) && isSeparator(current))) {
+          position++;
+        } else {
+          return fail('UNEXPECTED_INPUT', `Expected "${char}" at position ${position}`, position);
+        }
+      }
+      continue;
+    }
+
+    const { token } = part;
+    let value: number | null = null;
+
+    switch (token) {
+      case 'YYYY':
+        value = readNumber(4, 4);
+        if (value !== null) fields.year = value;
+        break;
+      case 'YY':
+        value = readNumber(2, 2);
+        if (value !== null) fields.year = value + (value > 68 ? 1900 : 2000);
+        break;
+      case 'MMMM':
+      case 'MMM': {
+        const long = getMonthNames(locale, 'long');
+        const short = getMonthNames(locale, 'short');
+        value = strict
+          ? readName(token === 'MMMM' ? long : short)
+          : readName([...long, ...short]);
+        if (value !== null) fields.month = (value % 12) + 1;
+        break;
+      }
+      case 'MM':
+      case 'M':
+        value = readNumber(token.length, 2);
+        if (value !== null) fields.month = value;
+        break;
+      case 'DD':
+      case 'D':
+        value = readNumber(token.length, 2);
+        if (value !== null) fields.day = value;
+        break;
+      case 'Do':
+        value = readNumber(1, 2);
+        if (value !== null) {
+          fields.day = value;
+          const suffix = /^(st|nd|rd|th|\.)/i.exec(input.slice(position));
+          if (suffix) {
+            position += suffix[0].length;
+          } else if (strict) {
+            value = null;
+          }
+        }
+        break;
+      case 'dddd':
+      case 'ddd': {
+        const long = getWeekdayNames(locale, 'long');
+        const short = getWeekdayNames(locale, 'short');
+        value = strict
+          ? readName(token === 'dddd' ? long : short)
+          : readName([...long, ...short]);
+        if (value !== null) fields.weekday = value % 7;
+        break;
+      }
+      case 'HH':
+      case 'H':
+      case 'hh':
+      case 'h':
+        value = readNumber(token.length, 2);
+        if (value !== null) fields.hours = value;
+        break;
+      case 'mm':
+      case 'm':
+        value = readNumber(token.length, 2);
+        if (value !== null) fields.minutes = value;
+        break;
+      case 'ss':
+      case 's':
+        value = readNumber(token.length, 2);
+        if (value !== null) fields.seconds = value;
+        break;
+      case 'SSS': {
+        skipWhitespace();
+        const match = new RegExp(`^\\d{${strict ? 3 : 1},3}`).exec(input.slice(position));
+        if (match) {
+          position += match[0].length;
+          value = Math.round(parseFloat(`0.${match[0]}`) * 1000);
+          fields.milliseconds = value;
+        }
+        break;
+      }
+      case 'A':
+      case 'a': {
+        // `a` is formatted in lowercase
+        const periods = [getDayPeriod(0, locale), getDayPeriod(12, locale)];
+        value = readName(token === 'a' ? periods.map(period => period.toLowerCase()) : periods);
+        if (value !== null) fields.isPM = value === 1;
+        break;
+      }
+      case 'ZZ':
+      case 'Z': {
+        skipWhitespace();
+        const separator = token === 'Z' ? ':' : '';
+        const offsetRegex = strict
+          ? new RegExp(`^(?:Z|([+-])(\\d{2})${separator}(\\d{2}))`)
+          : /^(?:Z|([+-])(\d{2}):?(\d{2}))/i;
+        const match = offsetRegex.exec(input.slice(position));
+        if (match) {
+          position += match[0].length;
+          value = match[1]
+            ? (match[1] === '-' ? -1 : 1) * (parseInt(match[2], 10) * 60 + parseInt(match[3], 10))
+            : 0;
+          fields.offset = value;
+        }
+        break;
+      }
+    }
+
+    if (value === null) {
+      return fail('UNEXPECTED_INPUT', `Could not parse "${token}" at position ${start}`, start, token);
+    }
+  }
+
+  skipWhitespace();
+  if (strict && position < input.length) {
+    return fail('TRAILING_INPUT', `Unexpected trailing input "${input.slice(position)}"`, position);
+  }
+
+  const reference = getDateParts(options.referenceDate || new Date(), options.timeZone);
+  const year = fields.year ?? reference.year;
+  const month = fields.month ?? (fields.year !== undefined ? 1 : reference.month);
+  const day = fields.day ?? (fields.year !== undefined || fields.month !== undefined ? 1 : reference.day);
+  let hours = fields.hours ?? 0;
+  const minutes = fields.minutes ?? 0;
+  const seconds = fields.seconds ?? 0;
+  const milliseconds = fields.milliseconds ?? 0;
+
+  if (fields.isPM !== undefined) {
+    if (hours < 1 || hours > 12) {
+      return fail('OUT_OF_RANGE', `Hour ${hours} is out of range for a 12-hour clock`, position, 'h');
+    }
+    hours = (hours % 12) + (fields.isPM ? 12 : 0);
+  }
+
+  if (month < 1 || month > 12) {
+    return fail('OUT_OF_RANGE', `Month ${month} is out of range`, position, 'M');
+  }
+  if (day < 1 || day > getDaysInMonth(year, month)) {
+    return fail('OUT_OF_RANGE', `Day ${day} is out of range for ${year}-${month}`, position, 'D');
+  }
+  if (hours > 23 || minutes > 59 || seconds > 59) {
+    return fail('OUT_OF_RANGE', `Time ${hours}:${minutes}:${seconds} is out of range`, position, 'H');
+  }
+
+  const wallTime = { year, month, day, hours, minutes, seconds, milliseconds };
+  const date = fields.offset !== undefined
+    ? new Date(fromDateParts(wallTime, 'UTC').getTime() - fields.offset * 60 * 1000)
+    : fromDateParts(wallTime, options.timeZone);
+
+  const weekday = new Date(Date.UTC(2000, month - 1, day));
+  weekday.setUTCFullYear(year);
+
+  if (strict && fields.weekday !== undefined && fields.weekday !== weekday.getUTCDay()) {
+    return fail('WEEKDAY_MISMATCH', `${year}-${month}-${day} is not a ${getWeekdayNames(locale)[fields.weekday]}`, position, 'dddd');
+  }
+
+  return { isValid: true, date };
+}
+
+/**
+ * Add or subtract days from a date. With a time zone, the wall-clock time in
+ * that zone is kept across DST changes.
+ */
+export function addDays(date: Date, days: number, timeZone?: string): Date {
+  if (!timeZone) {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+  }
+
+  const parts = getDateParts(date, timeZone);
+  return fromDateParts({ ...parts, day: parts.day + days }, timeZone);
 }
 
 /**
  * Check if a date is today
  */
-export function isToday(date: Date): boolean {
-  const today = new Date();
-  return (
-    date.getDate() === today.getDate() &&
-    date.getMonth() === today.getMonth() &&
-    date.getFullYear() === today.getFullYear()
-  );
+export function isToday(date: Date, timeZone?: string): boolean {
+  return isSameDay(date, new Date(), timeZone);
 }
 
 /**
  * Check if a date is yesterday
  */
-export function isYesterday(date: Date): boolean {
-  const yesterday = addDays(new Date(), -1);
-  return (
-    date.getDate() === yesterday.getDate() &&
-    date.getMonth() === yesterday.getMonth() &&
-    date.getFullYear() === yesterday.getFullYear()
-  );
+export function isYesterday(date: Date, timeZone?: string): boolean {
+  return isSameDay(date, addDays(new Date(), -1, timeZone), timeZone);
 }
 
 /**
  * Check if a date is tomorrow
  */
-export function isTomorrow(date: Date): boolean {
-  const tomorrow = addDays(new Date(), 1);
-  return (
-    date.getDate() === tomorrow.getDate() &&
-    date.getMonth() === tomorrow.getMonth() &&
-    date.getFullYear() === tomorrow.getFullYear()
-  );
+export function isTomorrow(date: Date, timeZone?: string): boolean {
+  return isSameDay(date, addDays(new Date(), 1, timeZone), timeZone);
 }
 
 /**
  * Calculate age from birth date
  */
-export function getAge(birthDate: Date): number {
-  const today = new Date();
-  let age = today.getFullYear() - birthDate.getFullYear();
-  const monthDiff = today.getMonth() - birthDate.getMonth();
+export function getAge(birthDate: Date, timeZone?: string): number {
+  const today = getDateParts(new Date(), timeZone);
+  const birth = getDateParts(birthDate, timeZone);
+  let age = today.year - birth.year;
+  const monthDiff = today.month - birth.month;
 
-  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
+  if (monthDiff < 0 || (monthDiff === 0 && today.day < birth.day)) {
     age--;
   }
 
@@ -129,17 +737,363 @@ export function isLeapYear(year: number): boolean {
 /**
  * Get the start of day for a given date
  */
-export function startOfDay(date: Date): Date {
-  const result = new Date(date);
-  result.setHours(0, 0, 0, 0);
-  return result;
+export function startOfDay(date: Date, timeZone?: string): Date {
+  const parts = getDateParts(date, timeZone);
+  return fromDateParts({ ...parts, hours: 0, minutes: 0, seconds: 0, milliseconds: 0 }, timeZone);
 }
 
 /**
  * Get the end of day for a given date
  */
-export function endOfDay(date: Date): Date {
-  const result = new Date(date);
-  result.setHours(23, 59, 59, 999);
+export function endOfDay(date: Date, timeZone?: string): Date {
+  const parts = getDateParts(date, timeZone);
+  return fromDateParts({ ...parts, hours: 23, minutes: 59, seconds: 59, milliseconds: 999 }, timeZone);
+}
+
+export type DateUnit = 'year' | 'quarter' | 'month' | 'week' | 'day' | 'hour' | 'minute' | 'second';
+
+export interface DurationInput {
+  years?: number;
+  months?: number;
+  weeks?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+  milliseconds?: number;
+}
+
+export interface CalendarOptions {
+  weekStartsOn?: number; // 0 = Sunday
+  timeZone?: string;
+}
+
+/**
+ * Add a duration to a date. Years, months, weeks and days move the calendar
+ * date (clamping to the end of shorter months); hours and smaller units add
+ * elapsed time.
+ */
+export function add(date: Date, duration: DurationInput, timeZone?: string): Date {
+  const {
+    years = 0,
+    months = 0,
+    weeks = 0,
+    days = 0,
+    hours = 0,
+    minutes = 0,
+    seconds = 0,
+    milliseconds = 0
+  } = duration;
+
+  let result = new Date(date);
+
+  if (years || months) {
+    const parts = getDateParts(result, timeZone);
+    const totalMonths = parts.year * 12 + parts.month - 1 + years * 12 + months;
+    const year = Math.floor(totalMonths / 12);
+    const month = totalMonths - year * 12 + 1;
+    const day = Math.min(parts.day, getDaysInMonth(year, month));
+    result = fromDateParts({ ...parts, year, month, day }, timeZone);
+  }
+
+  if (weeks || days) {
+    result = addDays(result, weeks * 7 + days, timeZone);
+  }
+
+  const elapsed = ((hours * 60 + minutes) * 60 + seconds) * 1000 + milliseconds;
+  return new Date(result.getTime() + elapsed);
+}
+
+/**
+ * Subtract a duration from a date
+ */
+export function subtract(date: Date, duration: DurationInput, timeZone?: string): Date {
+  const negated: DurationInput = {};
+  for (const [unit, amount] of Object.entries(duration) as [keyof DurationInput, number | undefined][]) {
+    if (amount !== undefined) negated[unit] = -amount;
+  }
+  return add(date, negated, timeZone);
+}
+
+/**
+ * Add or subtract years from a date
+ */
+export function addYears(date: Date, years: number, timeZone?: string): Date {
+  return add(date, { years }, timeZone);
+}
+
+/**
+ * Add or subtract months from a date, clamping to the last day of the month
+ */
+export function addMonths(date: Date, months: number, timeZone?: string): Date {
+  return add(date, { months }, timeZone);
+}
+
+/**
+ * Add or subtract weeks from a date
+ */
+export function addWeeks(date: Date, weeks: number, timeZone?: string): Date {
+  return add(date, { weeks }, timeZone);
+}
+
+/**
+ * Add or subtract hours from a date
+ */
+export function addHours(date: Date, hours: number): Date {
+  return add(date, { hours });
+}
+
+/**
+ * Add or subtract minutes from a date
+ */
+export function addMinutes(date: Date, minutes: number): Date {
+  return add(date, { minutes });
+}
+
+/**
+ * Add or subtract seconds from a date
+ */
+export function addSeconds(date: Date, seconds: number): Date {
+  return add(date, { seconds });
+}
+
+/**
+ * Get the start of a unit of time (week, month, quarter, year...)
+ */
+export function startOf(date: Date, unit: DateUnit, options: CalendarOptions = {}): Date {
+  const { weekStartsOn = 0, timeZone } = options;
+  const parts = getDateParts(date, timeZone);
+  const start = { ...parts, milliseconds: 0 };
+
+  switch (unit) {
+    case 'year':
+      start.month = 1;
+      start.day = 1;
+      start.hours = start.minutes = start.seconds = 0;
+      break;
+    case 'quarter':
+      start.month = Math.floor((parts.month - 1) / 3) * 3 + 1;
+      start.day = 1;
+      start.hours = start.minutes = start.seconds = 0;
+      break;
+    case 'month':
+      start.day = 1;
+      start.hours = start.minutes = start.seconds = 0;
+      break;
+    case 'week':
+      start.day = parts.day - ((parts.weekday - weekStartsOn + 7) % 7);
+      start.hours = start.minutes = start.seconds = 0;
+      break;
+    case 'day':
+      start.hours = start.minutes = start.seconds = 0;
+      break;
+    case 'hour':
+      start.minutes = start.seconds = 0;
+      break;
+    case 'minute':
+      start.seconds = 0;
+      break;
+    case 'second':
+      break;
+  }
+
+  return fromDateParts(start, timeZone);
+}
+
+/**
+ * Get the end (last millisecond) of a unit of time
+ */
+export function endOf(date: Date, unit: DateUnit, options: CalendarOptions = {}): Date {
+  const step: Record<DateUnit, DurationInput> = {
+    year: { years: 1 },
+    quarter: { months: 3 },
+    month: { months: 1 },
+    week: { weeks: 1 },
+    day: { days: 1 },
+    hour: { hours: 1 },
+    minute: { minutes: 1 },
+    second: { seconds: 1 }
+  };
+
+  const next = startOf(add(startOf(date, unit, options), step[unit], options.timeZone), unit, options);
+  return new Date(next.getTime() - 1);
+}
+
+/**
+ * Check if two dates fall in the same unit of time
+ */
+export function isSame(date1: Date, date2: Date, unit: DateUnit, options: CalendarOptions = {}): boolean {
+  return startOf(date1, unit, options).getTime() === startOf(date2, unit, options).getTime();
+}
+
+/**
+ * Check if two dates are on the same calendar day
+ */
+export function isSameDay(date1: Date, date2: Date, timeZone?: string): boolean {
+  const a = getDateParts(date1, timeZone);
+  const b = getDateParts(date2, timeZone);
+  return a.year === b.year && a.month === b.month && a.day === b.day;
+}
+
+/**
+ * Check if two dates are in the same week
+ */
+export function isSameWeek(date1: Date, date2: Date, options: CalendarOptions = {}): boolean {
+  return isSame(date1, date2, 'week', options);
+}
+
+/**
+ * Check if two dates are in the same month
+ */
+export function isSameMonth(date1: Date, date2: Date, timeZone?: string): boolean {
+  const a = getDateParts(date1, timeZone);
+  const b = getDateParts(date2, timeZone);
+  return a.year === b.year && a.month === b.month;
+}
+
+/**
+ * Check if two dates are in the same quarter
+ */
+export function isSameQuarter(date1: Date, date2: Date, timeZone?: string): boolean {
+  const a = getDateParts(date1, timeZone);
+  const b = getDateParts(date2, timeZone);
+  return a.year === b.year && Math.floor((a.month - 1) / 3) === Math.floor((b.month - 1) / 3);
+}
+
+/**
+ * Check if two dates are in the same year
+ */
+export function isSameYear(date1: Date, date2: Date, timeZone?: string): boolean {
+  return getDateParts(date1, timeZone).year === getDateParts(date2, timeZone).year;
+}
+
+/**
+ * Check if a date is before another date
+ */
+export function isBefore(date: Date, dateToCompare: Date): boolean {
+  return date.getTime() < dateToCompare.getTime();
+}
+
+/**
+ * Check if a date is after another date
+ */
+export function isAfter(date: Date, dateToCompare: Date): boolean {
+  return date.getTime() > dateToCompare.getTime();
+}
+
+/**
+ * Check if a date is between two dates. Inclusivity uses interval notation:
+ * '[]' includes both ends, '()' excludes both.
+ */
+export function isBetween(
+  date: Date,
+  start: Date,
+  end: Date,
+  inclusivity: '()' | '[]' | '[)' | '(]' = '[]'
+): boolean {
+  const time = date.getTime();
+  const afterStart = inclusivity[0] === '[' ? time >= start.getTime() : time > start.getTime();
+  const beforeEnd = inclusivity[1] === ']' ? time <= end.getTime() : time < end.getTime();
+  return afterStart && beforeEnd;
+}
+
+/**
+ * Get the start of every day from `start` to `end`, inclusive
+ */
+export function eachDayOfInterval(start: Date, end: Date, timeZone?: string): Date[] {
+  const days: Date[] = [];
+  let current = startOfDay(start, timeZone);
+
+  while (current.getTime() <= end.getTime()) {
+    days.push(current);
+    current = addDays(current, 1, timeZone);
+  }
+
+  return days;
+}
+
+/**
+ * Holidays as dates, 'YYYY-MM-DD' strings or a predicate
+ */
+export type HolidayList = Array<Date | string> | ((date: Date) => boolean);
+
+export interface BusinessDayOptions {
+  holidays?: HolidayList;
+  weekendDays?: number[]; // defaults to Saturday and Sunday
+  timeZone?: string;
+}
+
+const DEFAULT_WEEKEND_DAYS = [0, 6];
+
+/**
+ * Days scanned without finding a business day before giving up, e.g. when
+ * a holiday predicate matches every day
+ */
+const MAX_NON_BUSINESS_DAYS = 5 * 366;
+
+/**
+ * Check if a date falls on a weekend
+ */
+export function isWeekend(date: Date, options: BusinessDayOptions = {}): boolean {
+  const weekendDays = options.weekendDays || DEFAULT_WEEKEND_DAYS;
+  return weekendDays.includes(getDateParts(date, options.timeZone).weekday);
+}
+
+/**
+ * Check if a date is in a holiday list
+ */
+export function isHoliday(date: Date, holidays: HolidayList, timeZone?: string): boolean {
+  if (typeof holidays === 'function') {
+    return holidays(date);
+  }
+
+  const key = formatDate(date, 'YYYY-MM-DD', timeZone ? { timeZone } : {});
+  return holidays.some(holiday =>
+    typeof holiday === 'string' ? holiday === key : isSameDay(holiday, date, timeZone)
+  );
+}
+
+/**
+ * Check if a date is a business day (not a weekend or holiday)
+ */
+export function isBusinessDay(date: Date, options: BusinessDayOptions = {}): boolean {
+  if (isWeekend(date, options)) return false;
+  return !options.holidays || !isHoliday(date, options.holidays, options.timeZone);
+}
+
+/**
+ * Add or subtract business days, skipping weekends and holidays
+ */
+export function addBusinessDays(date: Date, amount: number, options: BusinessDayOptions = {}): Date {
+  const weekendDays = options.weekendDays || DEFAULT_WEEKEND_DAYS;
+  if (new Set(weekendDays).size >= 7) {
+    throw new RangeError('At least one day of the week must be a business day');
+  }
+
+  const direction = amount < 0 ? -1 : 1;
+  let remaining = Math.abs(Math.trunc(amount));
+  let result = new Date(date);
+  let skipped = 0;
+
+  while (remaining > 0) {
+    result = addDays(result, direction, options.timeZone);
+    if (isBusinessDay(result, options)) {
+      remaining--;
+      skipped = 0;
+    } else if (++skipped > MAX_NON_BUSINESS_DAYS) {
+      throw new RangeError('No business day found within 5 years');
+    }
+  }
+
   return result;
 }
+
+/**
+ * Count business days between two dates, excluding the start day.
+ * The result is negative when `end` is before `start`.
+ */
+export function businessDaysBetween(start: Date, end: Date, options: BusinessDayOptions = {}): number {
+  const [from, to, sign] = start.getTime() <= end.getTime() ? [start, end, 1] : [end, start, -1];
+  const days = eachDayOfInterval(from, to, options.timeZone).slice(1);
+  return sign * days.filter(day => isBusinessDay(day, options)).length;
+}
@@ -0,0 +1,296 @@
+/**
+ * Duration model with ISO 8601 and humanized output
+ */
+
+import { add, getDateParts, DurationInput } from './date';
+
+export type DurationUnit = keyof DurationInput;
+
+export interface HumanizeOptions {
+  locale?: string;
+  style?: 'long' | 'short' | 'narrow';
+  /**
+   * Relative output ("in 3 days", "3 days ago") when true, plain ("3 days") when false
+   */
+  addSuffix?: boolean;
+  /**
+   * `auto` (default) allows phrases such as "yesterday" and "next month",
+   * `always` keeps numbers ("1 day ago")
+   */
+  numeric?: 'auto' | 'always';
+}
+
+const UNITS: DurationUnit[] = [
+  'years', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds', 'milliseconds'
+];
+
+const MS_PER_SECOND = 1000;
+const MS_PER_MINUTE = 60 * MS_PER_SECOND;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Unit lengths in milliseconds. Months and years are approximations
+ * (30 and 365 days) since their real length depends on the calendar.
+ */
+const UNIT_MS: Record<DurationUnit, number> = {
+  years: 365 * MS_PER_DAY,
+  months: 30 * MS_PER_DAY,
+  weeks: 7 * MS_PER_DAY,
+  days: MS_PER_DAY,
+  hours: MS_PER_HOUR,
+  minutes: MS_PER_MINUTE,
+  seconds: MS_PER_SECOND,
+  milliseconds: 1
+};
+
+const ISO_DURATION_REGEX =
+  /^([+-])?P(?:(\d+(?:[.,]\d+)?)Y)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)W)?(?:(\d+(?:[.,]\d+)?)D)?(?:T(?:(\d+(?:[.,]\d+)?)H)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)S)?)?$/;
+
+/**
+ * An immutable length of time made of calendar and clock units
+ */
+export class Duration {
+  private readonly values: Required<DurationInput>;
+
+  private constructor(values: DurationInput) {
+    this.values = {
+      years: values.years || 0,
+      months: values.months || 0,
+      weeks: values.weeks || 0,
+      days: values.days || 0,
+      hours: values.hours || 0,
+      minutes: values.minutes || 0,
+      seconds: values.seconds || 0,
+      milliseconds: values.milliseconds || 0
+    };
+  }
+
+  /**
+   * Create a duration from unit values
+   */
+  static fromObject(values: DurationInput): Duration {
+    return new Duration(values);
+  }
+
+  /**
+   * Create a duration from a number of milliseconds
+   */
+  static fromMilliseconds(milliseconds: number): Duration {
+    return new Duration({ milliseconds }).normalize();
+  }
+
+  /**
+   * Create the calendar duration between two dates. The result is negative
+   * when `end` is before `start`.
+   */
+  static between(start: Date, end: Date, timeZone?: string): Duration {
+    const sign = end.getTime() >= start.getTime() ? 1 : -1;
+    const [from, to] = sign === 1 ? [start, end] : [end, start];
+
+    const fromParts = getDateParts(from, timeZone);
+    const toParts = getDateParts(to, timeZone);
+    let months = (toParts.year - fromParts.year) * 12 + (toParts.month - fromParts.month);
+
+    if (add(from, { months }, timeZone).getTime() > to.getTime()) {
+      months--;
+    }
+
+    const remainder = to.getTime() - add(from, { months }, timeZone).getTime();
+    const clock = Duration.fromMilliseconds(remainder).values;
+
+    return new Duration({
+      years: sign * Math.floor(months / 12),
+      months: sign * (months % 12),
+      days: sign * clock.days,
+      hours: sign * clock.hours,
+      minutes: sign * clock.minutes,
+      seconds: sign * clock.seconds,
+      milliseconds: sign * clock.milliseconds
+    });
+  }
+
+  /**
+   * Parse an ISO 8601 duration such as `P1DT2H` or `-PT30M`
+   */
+  static parse(iso: string): Duration | null {
+    const match = ISO_DURATION_REGEX.exec(iso.trim());
+    if (!match || !match.slice(2).some(Boolean) || /T$/.test(iso.trim())) {
+      return null;
+    }
+
+    const sign = match[1] === '-' ? -1 : 1;
+    const read = (value?: string): number => (value ? sign * parseFloat(value.replace(',', '.')) : 0);
+    const seconds = read(match[8]);
+
+    return new Duration({
+      years: read(match[2]),
+      months: read(match[3]),
+      weeks: read(match[4]),
+      days: read(match[5]),
+      hours: read(match[6]),
+      minutes: read(match[7]),
+      seconds: Math.trunc(seconds),
+      milliseconds: Math.round((seconds - Math.trunc(seconds)) * 1000)
+    });
+  }
+
+  /**
+   * Get the value of a single unit
+   */
+  get(unit: DurationUnit): number {
+    return this.values[unit];
+  }
+
+  /**
+   * Get all unit values
+   */
+  toObject(): Required<DurationInput> {
+    return { ...this.values };
+  }
+
+  /**
+   * Total length in milliseconds, using 30-day months and 365-day years
+   */
+  toMilliseconds(): number {
+    return UNITS.reduce((total, unit) => total + this.values[unit] * UNIT_MS[unit], 0);
+  }
+
+  /**
+   * Check if the duration points backwards in time
+   */
+  isNegative(): boolean {
+    return this.toMilliseconds() < 0;
+  }
+
+  /**
+   * Get a duration of the same length pointing the other way
+   */
+  negate(): Duration {
+    const negated: DurationInput = {};
+    for (const unit of UNITS) {
+      negated[unit] = -this.values[unit] || 0;
+    }
+    return new Duration(negated);
+  }
+
+  /**
+   * Carry overflowing clock units into larger ones (1000 ms into a second,
+   * 24 hours into a day, 12 months into a year). Days are not carried into
+   * months because month lengths vary. When the calendar and clock parts
+   * point different ways (1 month and -3 days), the approximate total
+   * length is split into units instead.
+   */
+  normalize(): Duration {
+    const sign = this.isNegative() ? -1 : 1;
+    let clockMs = sign * (
+      this.values.days * MS_PER_DAY +
+      this.values.weeks * 7 * MS_PER_DAY +
+      this.values.hours * MS_PER_HOUR +
+      this.values.minutes * MS_PER_MINUTE +
+      this.values.seconds * MS_PER_SECOND +
+      this.values.milliseconds
+    );
+    const totalMonths = sign * (this.values.years * 12 + this.values.months);
+    let years = Math.floor(totalMonths / 12);
+    let months = totalMonths % 12;
+
+    if (clockMs < 0 || totalMonths < 0) {
+      const totalMs = Math.abs(this.toMilliseconds());
+      years = Math.floor(totalMs / UNIT_MS.years);
+      months = Math.floor((totalMs % UNIT_MS.years) / UNIT_MS.months);
+      clockMs = totalMs % UNIT_MS.years % UNIT_MS.months;
+    }
+
+    return new Duration({
+      years: sign * years,
+      months: sign * months,
+      days: sign * Math.floor(clockMs / MS_PER_DAY),
+      hours: sign * Math.floor((clockMs % MS_PER_DAY) / MS_PER_HOUR),
+      minutes: sign * Math.floor((clockMs % MS_PER_HOUR) / MS_PER_MINUTE),
+      seconds: sign * Math.floor((clockMs % MS_PER_MINUTE) / MS_PER_SECOND),
+      milliseconds: sign * Math.round(clockMs % MS_PER_SECOND)
+    });
+  }
+
+  /**
+   * Format as an ISO 8601 duration, e.g. `P1DT2H`. Negative durations get a
+   * leading minus sign; units pointing different ways are normalized first
+   * since ISO 8601 has a single sign.
+   */
+  toISOString(): string {
+    const negative = this.isNegative();
+    const mixed = UNITS.some(unit => (negative ? -this.values[unit] : this.values[unit]) < 0);
+    const source = mixed ? this.normalize() : this;
+    const values = negative ? source.negate().values : source.values;
+    const seconds = values.seconds + values.milliseconds / 1000;
+
+    const onlyWeeks = values.weeks !== 0 && UNITS.every(unit => unit === 'weeks' || values[unit] === 0);
+    if (onlyWeeks) {
+      return `${negative ? '-' : ''}P${values.weeks}W`;
+    }
+
+    const days = values.days + values.weeks * 7;
+    let date = '';
+    if (values.years) date += `${values.years}Y`;
+    if (values.months) date += `${values.months}M`;
+    if (days) date += `${days}D`;
+
+    let time = '';
+    if (values.hours) time += `${values.hours}H`;
+    if (values.minutes) time += `${values.minutes}M`;
+    if (seconds) time += `${parseFloat(seconds.toFixed(3))}S`;
+
+    if (!date && !time) {
+      return 'PT0S';
+    }
+
+    return `${negative ? '-' : ''}P${date}${time ? `T${time}` : ''}`;
+  }
+
+  /**
+   * Describe the duration in words using its largest unit, e.g.
+   * "in 3 days" / "2 hours ago", or "3 days" without a suffix
+   */
+  humanize(options: HumanizeOptions = {}): string {
+    const { locale = 'en-US', style = 'long', addSuffix = true, numeric = 'auto' } = options;
+    const total = this.toMilliseconds();
+    const absolute = Math.abs(total);
+
+    const unit = (['years', 'months', 'days', 'hours', 'minutes'] as DurationUnit[])
+      .find(candidate => absolute >= UNIT_MS[candidate]) || 'seconds';
+    const amount = Math.floor(absolute / UNIT_MS[unit]);
+    const singular = unit.slice(0, -1) as Intl.RelativeTimeFormatUnit;
+
+    if (!addSuffix) {
+      return new Intl.NumberFormat(locale, {
+        style: 'unit',
+        unit: singular,
+        unitDisplay: style
+      }).format(amount);
+    }
+
+    // Anything under a minute reads as "now"
+    if (unit === 'seconds') {
+      return new Intl.RelativeTimeFormat(locale, { numeric: 'auto', style }).format(0, 'second');
+    }
+
+    const formatter = new Intl.RelativeTimeFormat(locale, { numeric, style });
+    return formatter.format(total < 0 ? -amount : amount, singular);
+  }
+
+  toString(): string {
+    return this.toISOString();
+  }
+}
+
+/**
+ * Describe a date relative to another date (now by default), e.g. "3 minutes ago"
+ */
+export function formatRelativeTime(
+  date: Date,
+  baseDate: Date = new Date(),
+  options: HumanizeOptions = {}
+): string {
+  return Duration.fromMilliseconds(date.getTime() - baseDate.getTime()).humanize(options);
+}
@@ -0,0 +1,254 @@
+/**
+ * Bank account, postal code and check-digit validators
+ */
+
+import { luhnCheck } from './card';
+import type { ValidatorResult } from './validation';
+
+export type IBANErrorReason = 'INVALID_FORMAT' | 'UNKNOWN_COUNTRY' | 'INVALID_LENGTH' | 'CHECKSUM_FAILED';
+
+/**
+ * Check a value (spaces and hyphens already removed) against its check digit
+ */
+export type CheckDigitAlgorithm = (value: string) => boolean;
+
+/**
+ * IBAN length per country (ISO 13616 registry)
+ */
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BR: 29,
+  BY: 28, CH: 21, CR: 22, CY: 28, CZ: 24, DE: 22, DK: 18, DO: 28, EE: 20, EG: 29,
+  ES: 24, FI: 18, FO: 18, FR: 27, GB: 22, GE: 22, GI: 23, GL: 18, GR: 27, GT: 28,
+  HR: 21, HU: 28, IE: 22, IL: 23, IQ: 23, IS: 26, IT: 27, JO: 30, KW: 30, KZ: 20,
+  LB: 28, LC: 32, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MD: 24, ME: 22, MK: 19,
+  MR: 27, MT: 31, MU: 30, NL: 18, NO: 15, PK: 24, PL: 28, PS: 29, PT: 25, QA: 29,
+  RO: 24, RS: 22, SA: 24, SC: 31, SE: 24, SI: 19, SK: 24, SM: 27, ST: 25, SV: 28,
+  TL: 23, TN: 24, TR: 26, UA: 29, VA: 22, VG: 24, XK: 20
+};
+
+/**
+ * Postal code formats per country (ISO 3166-1 alpha-2 code)
+ */
+const POSTAL_CODE_FORMATS: Record<string, RegExp> = {
+  US: /^\d{5}(?:-\d{4})?$/,
+  CA: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z] ?\d[ABCEGHJ-NPRSTV-Z]\d$/i,
+  GB: /^(?:[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}|GIR ?0AA)$/i,
+  IE: /^(?:[AC-FHKNPRTV-Y]\d{2}|D6W) ?[0-9AC-FHKNPRTV-Y]{4}$/i,
+  DE: /^\d{5}$/,
+  FR: /^\d{5}$/,
+  ES: /^(?:0[1-9]|[1-4]\d|5[0-2])\d{3}$/,
+  IT: /^\d{5}$/,
+  NL: /^[1-9]\d{3} ?(?!SA|SD|SS)[A-Z]{2}$/i,
+  BE: /^[1-9]\d{3}$/,
+  CH: /^[1-9]\d{3}$/,
+  AT: /^[1-9]\d{3}$/,
+  DK: /^\d{4}$/,
+  NO: /^\d{4}$/,
+  SE: /^[1-9]\d{2} ?\d{2}$/,
+  FI: /^\d{5}$/,
+  PL: /^\d{2}-\d{3}$/,
+  PT: /^\d{4}-\d{3}$/,
+  AU: /^\d{4}$/,
+  IN: /^[1-9]\d{2} ?\d{3}$/,
+  JP: /^\d{3}-?\d{4}$/,
+  BR: /^\d{5}-?\d{3}$/
+};
+
+/**
+ * Weighted GTIN check used by EAN-8, UPC-A, EAN-13 and ISBN-13
+ */
+function gtinCheck(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const weight = (digits.length - i) % 2 === 0 ? 3 : 1;
+    sum += Number(digits[i]) * weight;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Remainder of a number given as a digit string, without overflowing
+ */
+function digitsMod(digits: string, modulus: number): number {
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % modulus;
+  }
+  return remainder;
+}
+
+const VERHOEFF_MULTIPLICATION = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0]
+];
+
+const VERHOEFF_PERMUTATION = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8]
+];
+
+const BUILT_IN_CHECK_DIGIT_ALGORITHMS: Record<string, CheckDigitAlgorithm> = {
+  luhn: value => /^\d+$/.test(value) && luhnCheck(value),
+
+  /**
+   * ISO 7064 MOD 97-10, as used by IBANs; letters count as 10-35
+   */
+  mod97: value => {
+    if (!/^[A-Z0-9]+$/i.test(value)) return false;
+    const digits = value.toUpperCase().replace(/[A-Z]/g, char => String(char.charCodeAt(0) - 55));
+    return digitsMod(digits, 97) === 1;
+  },
+
+  /**
+   * Weights 2-7 repeating from the right; a remainder of 0 gives check
+   * digit 0 and a remainder of 1 is never valid
+   */
+  mod11: value => {
+    if (!/^\d{2,}$/.test(value)) return false;
+
+    let sum = 0;
+    for (let i = value.length - 2, weight = 2; i >= 0; i--, weight = weight === 7 ? 2 : weight + 1) {
+      sum += Number(value[i]) * weight;
+    }
+
+    const remainder = sum % 11;
+    if (remainder === 1) return false;
+    return (remainder === 0 ? 0 : 11 - remainder) === Number(value[value.length - 1]);
+  },
+
+  verhoeff: value => {
+    if (!/^\d+$/.test(value)) return false;
+
+    let check = 0;
+    for (let i = 0; i < value.length; i++) {
+      const digit = Number(value[value.length - 1 - i]);
+      check = VERHOEFF_MULTIPLICATION[check][VERHOEFF_PERMUTATION[i % 8][digit]];
+    }
+    return check === 0;
+  },
+
+  isbn10: value => {
+    if (!/^\d{9}[\dX]$/i.test(value)) return false;
+
+    let sum = 0;
+    for (let i = 0; i < 10; i++) {
+      const digit = /x/i.test(value[i]) ? 10 : Number(value[i]);
+      sum += digit * (10 - i);
+    }
+    return sum % 11 === 0;
+  },
+
+  isbn13: value => /^97[89]\d{10}$/.test(value) && gtinCheck(value),
+  ean8: value => /^\d{8}$/.test(value) && gtinCheck(value),
+  ean13: value => /^\d{13}$/.test(value) && gtinCheck(value),
+  upc: value => /^\d{12}$/.test(value) && gtinCheck(value)
+};
+
+const CHECK_DIGIT_ALGORITHMS = new Map(Object.entries(BUILT_IN_CHECK_DIGIT_ALGORITHMS));
+
+/**
+ * Add or replace a check-digit algorithm
+ */
+export function registerCheckDigitAlgorithm(name: string, algorithm: CheckDigitAlgorithm): void {
+  CHECK_DIGIT_ALGORITHMS.set(name, algorithm);
+}
+
+/**
+ * Get the names of the registered check-digit algorithms
+ */
+export function getCheckDigitAlgorithms(): string[] {
+  return Array.from(CHECK_DIGIT_ALGORITHMS.keys());
+}
+
+/**
+ * Check a value with a registered algorithm, e.g. `isbn13`, `ean13`,
+ * `upc`, `verhoeff` or `mod11`. Spaces and hyphens are ignored; unknown
+ * algorithms never match.
+ */
+export function hasValidCheckDigit(value: string, algorithm: string): boolean {
+  const check = CHECK_DIGIT_ALGORITHMS.get(algorithm);
+  return check ? check(value.replace(/[\s-]/g, '')) : false;
+}
+
+/**
+ * Convert an IBAN to its electronic format (no spaces, upper case)
+ */
+function toElectronicIBAN(iban: string): string {
+  return iban.replace(/\s/g, '').toUpperCase();
+}
+
+/**
+ * Validate an IBAN against its country's length and the mod-97 checksum
+ */
+export function validateIBAN(iban: string): ValidatorResult<IBANErrorReason> {
+  const value = toElectronicIBAN(iban);
+
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(value)) return { isValid: false, reason: 'INVALID_FORMAT' };
+
+  const length = IBAN_LENGTHS[value.slice(0, 2)];
+  if (!length) return { isValid: false, reason: 'UNKNOWN_COUNTRY' };
+  if (value.length !== length) return { isValid: false, reason: 'INVALID_LENGTH' };
+
+  const rearranged = value.slice(4) + value.slice(0, 4);
+  if (!BUILT_IN_CHECK_DIGIT_ALGORITHMS.mod97(rearranged)) return { isValid: false, reason: 'CHECKSUM_FAILED' };
+
+  return { isValid: true };
+}
+
+/**
+ * Validate an IBAN
+ */
+export function isIBAN(iban: string): boolean {
+  return validateIBAN(iban).isValid;
+}
+
+/**
+ * Format an IBAN in groups of four for display
+ */
+export function formatIBAN(iban: string): string {
+  return toElectronicIBAN(iban).replace(/(.{4})(?=.)/g, '$1 ');
+}
+
+/**
+ * Validate a BIC (SWIFT code): bank, country and location codes with an
+ * optional branch code
+ */
+export function isBIC(bic: string): boolean {
+  return /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}(?:[A-Z0-9]{3})?$/.test(bic.trim().toUpperCase());
+}
+
+/**
+ * Add or replace the postal code format of a country
+ */
+export function registerPostalCodeFormat(country: string, format: RegExp): void {
+  POSTAL_CODE_FORMATS[country.toUpperCase()] = format;
+}
+
+/**
+ * Get the countries postal codes can be validated for
+ */
+export function getSupportedPostalCodeCountries(): string[] {
+  return Object.keys(POSTAL_CODE_FORMATS);
+}
+
+/**
+ * Validate a postal code for a country; unknown countries never match
+ */
+export function isPostalCode(code: string, country: string): boolean {
+  const format = POSTAL_CODE_FORMATS[country.toUpperCase()];
+  return format ? format.test(code.trim()) : false;
+}
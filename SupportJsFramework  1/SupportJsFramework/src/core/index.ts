@@ -1,12 +1,24 @@
 // Core utilities index - exports all core modules
 export * from './date';
+export * from './duration';
+export * from './recurrence';
 export * from './string';
 export * from './array';
 export * from './object';
 export * from './validation';
+export * from './password';
+export * from './phone';
+export * from './network';
+export * from './card';
+export * from './identifiers';
 export * from './number';
 export * from './browser';
 export * from './storage';
+export * from './cookie';
+export * from './crypto';
+export * from './compression';
+export * from './indexeddb';
 export * from './performance';
 export * from './color';
 export * from './logger';
+export * from './transports';
@@ -0,0 +1,527 @@
+/**
+ * Async storage on top of IndexedDB: a key/value store with the same API
+ * as `Store`, plus object stores, indexes, range queries and transactions
+ */
+
+import { Store, StorageItem, StoreSetOptions, createStore } from './storage';
+
+/**
+ * Upgrade step run inside the versionchange transaction
+ */
+export type IndexedDBMigration = (database: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => void;
+
+export interface IndexedDBIndexSchema {
+  name: string;
+  keyPath: string | string[];
+  unique?: boolean;
+  multiEntry?: boolean;
+}
+
+export interface IndexedDBObjectStoreSchema {
+  keyPath?: string | string[];
+  autoIncrement?: boolean;
+  indexes?: IndexedDBIndexSchema[];
+}
+
+export interface IndexedDBStoreOptions {
+  /**
+   * Database name, also used as the prefix of the fallback store
+   */
+  name?: string;
+  /**
+   * Database version; defaults to the highest migration version, or 1
+   */
+  version?: number;
+  /**
+   * Object stores, by name, created with their indexes if missing
+   */
+  objectStores?: Record<string, IndexedDBObjectStoreSchema>;
+  /**
+   * Upgrade steps keyed by the version they upgrade to; every step above
+   * the database's current version runs in order
+   */
+  migrations?: Record<number, IndexedDBMigration>;
+  /**
+   * Milliseconds to wait for connections in other tabs to close before an
+   * upgrade gives up and falls back; defaults to 3000
+   */
+  blockedTimeout?: number;
+  defaultTTL?: number;
+}
+
+/**
+ * Key range bounds; `gte`/`lte` include the bound and `gt`/`lt` exclude it
+ */
+export interface IndexedDBRange {
+  gt?: IDBValidKey;
+  gte?: IDBValidKey;
+  lt?: IDBValidKey;
+  lte?: IDBValidKey;
+}
+
+export type IndexedDBQuery = IDBValidKey | IDBKeyRange | IndexedDBRange;
+
+export interface IndexedDBTransaction {
+  objectStore<T = any>(name: string): IndexedDBObjectStore<T>;
+  abort(): void;
+}
+
+const KEYVAL_STORE = 'keyval';
+
+/**
+ * Check if IndexedDB is available
+ */
+export function isIndexedDBSupported(): boolean {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null;
+  } catch {
+    return false;
+  }
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function isRange(query: IndexedDBQuery): query is IndexedDBRange {
+  return typeof query === 'object' && Object.getPrototypeOf(query) === Object.prototype;
+}
+
+/**
+ * Convert a query to a key or IDBKeyRange
+ */
+function toKeyRange(query?: IndexedDBQuery): IDBValidKey | IDBKeyRange | undefined {
+  if (query === undefined || !isRange(query)) return query;
+
+  const lower = query.gte ?? query.gt;
+  const upper = query.lte ?? query.lt;
+  const lowerOpen = query.gte === undefined;
+  const upperOpen = query.lte === undefined;
+
+  if (lower !== undefined && upper !== undefined) return IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen);
+  if (lower !== undefined) return IDBKeyRange.lowerBound(lower, lowerOpen);
+  if (upper !== undefined) return IDBKeyRange.upperBound(upper, upperOpen);
+  return undefined;
+}
+
+/**
+ * Promise-based access to an object store, either inside a transaction
+ * or opening one transaction per call
+ */
+export class IndexedDBObjectStore<T = any> {
+  private readonly source: (mode: IDBTransactionMode) => Promise<IDBObjectStore>;
+
+  constructor(source: (mode: IDBTransactionMode) => Promise<IDBObjectStore>) {
+    this.source = source;
+  }
+
+  private async request<R>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> {
+    return promisify(run(await this.source(mode)));
+  }
+
+  /**
+   * Get a record by key, or null if it is missing
+   */
+  async get(key: IDBValidKey): Promise<T | null> {
+    const value = await this.request('readonly', store => store.get(key));
+    return value === undefined ? null : (value as T);
+  }
+
+  /**
+   * Get records by key or key range, in key order
+   */
+  getAll(query?: IndexedDBQuery, count?: number): Promise<T[]> {
+    return this.request('readonly', store => store.getAll(toKeyRange(query), count));
+  }
+
+  getAllKeys(query?: IndexedDBQuery, count?: number): Promise<IDBValidKey[]> {
+    return this.request('readonly', store => store.getAllKeys(toKeyRange(query), count));
+  }
+
+  /**
+   * Get records through an index, e.g. `query('byAge', { gte: 18 })`
+   */
+  query(indexName: string, query?: IndexedDBQuery, count?: number): Promise<T[]> {
+    return this.request('readonly', store => store.index(indexName).getAll(toKeyRange(query), count));
+  }
+
+  count(query?: IndexedDBQuery): Promise<number> {
+    return this.request('readonly', store => store.count(toKeyRange(query)));
+  }
+
+  /**
+   * Insert or replace a record; `key` is only used by stores without a key path
+   */
+  put(value: T, key?: IDBValidKey): Promise<IDBValidKey> {
+    return this.request('readwrite', store => store.put(value, key));
+  }
+
+  /**
+   * Insert a record, rejecting if its key already exists
+   */
+  add(value: T, key?: IDBValidKey): Promise<IDBValidKey> {
+    return this.request('readwrite', store => store.add(value, key));
+  }
+
+  /**
+   * Delete records by key or key range
+   */
+  async delete(query: IndexedDBQuery): Promise<void> {
+    await this.request('readwrite', store => store.delete(toKeyRange(query)!));
+  }
+
+  async clear(): Promise<void> {
+    await this.request('readwrite', store => store.clear());
+  }
+}
+
+/**
+ * IndexedDB-backed store. Key/value methods mirror `Store` (values are
+ * kept as structured clones, so Dates and Blobs survive) and fall back to
+ * a localStorage, sessionStorage or memory `Store` without IndexedDB.
+ */
+export class IndexedDBStore {
+  private readonly name: string;
+  private readonly version: number;
+  private readonly objectStores: Record<string, IndexedDBObjectStoreSchema>;
+  private readonly migrations: Record<number, IndexedDBMigration>;
+  private readonly blockedTimeout: number;
+  private readonly defaultTTL: number | null;
+  private readonly keyval: IndexedDBObjectStore<StorageItem>;
+  private connection: Promise<IDBDatabase | null> | null = null;
+  private fallback: Store | null = null;
+
+  constructor(options: IndexedDBStoreOptions = {}) {
+    if (options.objectStores && KEYVAL_STORE in options.objectStores) {
+      throw new Error(`Object store name "${KEYVAL_STORE}" is reserved for key/value data`);
+    }
+
+    this.name = options.name ?? 'support-js';
+    this.objectStores = options.objectStores ?? {};
+    this.migrations = options.migrations ?? {};
+    this.version = options.version ?? Math.max(1, ...Object.keys(this.migrations).map(Number));
+    this.blockedTimeout = options.blockedTimeout ?? 3000;
+    this.defaultTTL = options.defaultTTL ?? null;
+    this.keyval = this.objectStore(KEYVAL_STORE);
+  }
+
+  /**
+   * Create missing stores and indexes, then run pending migrations
+   */
+  private upgrade(database: IDBDatabase, transaction: IDBTransaction, oldVersion: number): void {
+    const schemas: Record<string, IndexedDBObjectStoreSchema> = { [KEYVAL_STORE]: {}, ...this.objectStores };
+
+    Object.entries(schemas).forEach(([name, schema]) => {
+      const store = database.objectStoreNames.contains(name)
+        ? transaction.objectStore(name)
+        : database.createObjectStore(name, {
+            ...(schema.keyPath !== undefined && { keyPath: schema.keyPath }),
+            autoIncrement: schema.autoIncrement ?? false
+          });
+
+      schema.indexes?.forEach(index => {
+        if (!store.indexNames.contains(index.name)) {
+          store.createIndex(index.name, index.keyPath, {
+            unique: index.unique ?? false,
+            multiEntry: index.multiEntry ?? false
+          });
+        }
+      });
+    });
+
+    Object.keys(this.migrations)
+      .map(Number)
+      .filter(version => version > oldVersion && version <= this.version)
+      .sort((a, b) => a - b)
+      .forEach(version => this.migrations[version](database, transaction, oldVersion));
+  }
+
+  /**
+   * Open the database once. Resolves to null when IndexedDB is unavailable
+   * or an upgrade stays blocked by other tabs, and rejects if a migration
+   * fails (the next call tries again).
+   */
+  private open(): Promise<IDBDatabase | null> {
+    if (this.connection) return this.connection;
+
+    this.connection = !isIndexedDBSupported()
+      ? Promise.resolve(null)
+      : new Promise((resolve, reject) => {
+          let migrationError: unknown = null;
+          let blockedTimer: ReturnType<typeof setTimeout> | null = null;
+          let settled = false;
+          const request = indexedDB.open(this.name, this.version);
+
+          const settle = (callback: () => void): void => {
+            if (blockedTimer) clearTimeout(blockedTimer);
+            settled = true;
+            callback();
+          };
+
+          request.onblocked = () => {
+            blockedTimer = setTimeout(() => settle(() => {
+              console.warn('IndexedDB upgrade is blocked by another connection; using fallback storage');
+              resolve(null);
+            }), this.blockedTimeout);
+          };
+
+          request.onupgradeneeded = event => {
+            try {
+              this.upgrade(request.result, request.transaction!, event.oldVersion);
+            } catch (error) {
+              migrationError = error;
+              request.transaction!.abort();
+            }
+          };
+
+          request.onsuccess = () => {
+            const database = request.result;
+            // Opened after the blocked upgrade gave up; the fallback is in use
+            if (settled) {
+              database.close();
+              return;
+            }
+
+            // Let other tabs upgrade; the next call reopens the database
+            database.onversionchange = () => {
+              database.close();
+              this.connection = null;
+            };
+            settle(() => resolve(database));
+          };
+
+          request.onerror = event => {
+            event.preventDefault();
+            if (settled) return;
+
+            if (migrationError) {
+              this.connection = null;
+              settle(() => reject(migrationError));
+            } else {
+              console.warn('Failed to open IndexedDB:', request.error);
+              settle(() => resolve(null));
+            }
+          };
+        });
+
+    return this.connection;
+  }
+
+  private async getDatabase(): Promise<IDBDatabase> {
+    const database = await this.open();
+    if (!database) throw new Error('IndexedDB is not available');
+    return database;
+  }
+
+  private getFallback(): Store {
+    if (!this.fallback) {
+      const options = { prefix: `${this.name}:`, ...(this.defaultTTL !== null && { defaultTTL: this.defaultTTL }) };
+      const local = createStore({ ...options, backend: 'local' });
+      const session = createStore({ ...options, backend: 'session' });
+      this.fallback = local.isAvailable()
+        ? local
+        : session.isAvailable()
+          ? session
+          : createStore({ ...options, backend: 'memory' });
+    }
+    return this.fallback;
+  }
+
+  /**
+   * Check if values are kept in IndexedDB rather than the fallback store
+   */
+  async isAvailable(): Promise<boolean> {
+    return (await this.open().catch(() => null)) !== null;
+  }
+
+  /**
+   * Access an object store; each call runs in its own transaction
+   */
+  objectStore<T = any>(name: string): IndexedDBObjectStore<T> {
+    return new IndexedDBObjectStore<T>(async mode => (await this.getDatabase()).transaction(name, mode).objectStore(name));
+  }
+
+  /**
+   * Run several operations atomically. Only await IndexedDB requests inside
+   * the callback: the transaction commits once it has nothing left to do.
+   * Rejects, rolling everything back, if the callback throws or aborts.
+   */
+  async transaction<R>(
+    storeNames: string | string[],
+    mode: IDBTransactionMode,
+    callback: (transaction: IndexedDBTransaction) => Promise<R> | R
+  ): Promise<R> {
+    const transaction = (await this.getDatabase()).transaction(storeNames, mode);
+    const done = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onabort = () => reject(transaction.error ?? new Error('Transaction was aborted'));
+    });
+
+    try {
+      const result = await callback({
+        objectStore: <T>(name: string) => new IndexedDBObjectStore<T>(async () => transaction.objectStore(name)),
+        abort: () => transaction.abort()
+      });
+      await done;
+      return result;
+    } catch (error) {
+      done.catch(() => undefined);
+      try {
+        transaction.abort();
+      } catch {
+        // Already finished or aborted
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Set a value, expiring after `ttl` ms or the store's default TTL
+   */
+  async set<T>(key: string, value: T, options: StoreSetOptions = {}): Promise<boolean> {
+    try {
+      if (!(await this.open())) return this.getFallback().set(key, value, options);
+
+      const ttl = options.ttl === undefined ? this.defaultTTL : options.ttl;
+      const timestamp = Date.now();
+      await this.keyval.put(ttl === null ? { value, timestamp } : { value, timestamp, expiry: timestamp + ttl }, key);
+      return true;
+    } catch (error) {
+      console.warn('Failed to set storage item:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get a value, or null if it is missing or expired
+   */
+  async get<T>(key: string): Promise<T | null> {
+    const item = await this.getItem<T>(key);
+    return item ? item.value : null;
+  }
+
+  /**
+   * Get a value's envelope, removing it if it has expired
+   */
+  async getItem<T>(key: string): Promise<StorageItem<T> | null> {
+    try {
+      if (!(await this.open())) return this.getFallback().getItem<T>(key);
+
+      const item = await this.keyval.get(key);
+      if (!item) return null;
+
+      if (item.expiry !== undefined && item.expiry <= Date.now()) {
+        await this.keyval.delete(key);
+        return null;
+      }
+
+      return item as StorageItem<T>;
+    } catch (error) {
+      console.warn('Failed to get storage item:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a value with default value
+   */
+  async getWithDefault<T>(key: string, defaultValue: T): Promise<T> {
+    const value = await this.get<T>(key);
+    return value !== null ? value : defaultValue;
+  }
+
+  /**
+   * Check if a non-expired value exists
+   */
+  async has(key: string): Promise<boolean> {
+    return (await this.getItem(key)) !== null;
+  }
+
+  /**
+   * Remove a value
+   */
+  async remove(key: string): Promise<boolean> {
+    try {
+      if (!(await this.open())) return this.getFallback().remove(key);
+
+      await this.keyval.delete(key);
+      return true;
+    } catch (error) {
+      console.warn('Failed to remove storage item:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove every key/value entry; object stores are left alone
+   */
+  async clear(): Promise<boolean> {
+    try {
+      if (!(await this.open())) return this.getFallback().clear();
+
+      await this.keyval.clear();
+      return true;
+    } catch (error) {
+      console.warn('Failed to clear storage:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the keys of non-expired values
+   */
+  async getKeys(): Promise<string[]> {
+    try {
+      if (!(await this.open())) return this.getFallback().getKeys();
+
+      const now = Date.now();
+      return await this.transaction(KEYVAL_STORE, 'readonly', async transaction => {
+        const store = transaction.objectStore<StorageItem>(KEYVAL_STORE);
+        const [keys, items] = await Promise.all([store.getAllKeys(), store.getAll()]);
+        return keys.filter((_, i) => items[i].expiry === undefined || items[i].expiry! > now).map(String);
+      });
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Remove all expired values, returning how many were removed
+   */
+  async sweep(): Promise<number> {
+    try {
+      if (!(await this.open())) return this.getFallback().sweep();
+
+      const now = Date.now();
+      return await this.transaction(KEYVAL_STORE, 'readwrite', async transaction => {
+        const store = transaction.objectStore<StorageItem>(KEYVAL_STORE);
+        const [keys, items] = await Promise.all([store.getAllKeys(), store.getAll()]);
+        const expired = keys.filter((_, i) => items[i].expiry !== undefined && items[i].expiry! <= now);
+        await Promise.all(expired.map(key => store.delete(key)));
+        return expired.length;
+      });
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Close the connection; the next call reopens it
+   */
+  close(): void {
+    const connection = this.connection;
+    this.connection = null;
+    connection?.then(database => database?.close()).catch(() => undefined);
+  }
+}
+
+/**
+ * Create an IndexedDB store, e.g.
+ * `createIndexedDBStore({ name: 'app', objectStores: { users: { keyPath: 'id' } } })`
+ */
+export function createIndexedDBStore(options: IndexedDBStoreOptions = {}): IndexedDBStore {
+  return new IndexedDBStore(options);
+}
@@ -2,6 +2,8 @@
  * Logger utility with multiple log levels and formatting
  */
 
+import { LogTransport, createConsoleTransport, formatNDJSON, redact } from './transports';
+
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
 export interface LogEntry {
@@ -9,6 +11,15 @@ export interface LogEntry {
   message: string;
   timestamp: Date;
   data?: any;
+  prefix?: string;
+  /**
+   * Fields bound with `with` or `child`
+   */
+  context?: Record<string, any>;
+  /**
+   * Stack captured for errors when `enableStackTrace` is set
+   */
+  stack?: string;
 }
 
 export interface LoggerConfig {
@@ -19,6 +30,24 @@ export interface LoggerConfig {
   prefix?: string;
   enableTimestamp: boolean;
   enableStackTrace: boolean;
+  /**
+   * Where entries are written besides the console (`enableConsole`) and
+   * the stored entries (`enableStorage`)
+   */
+  transports: LogTransport[];
+  /**
+   * Fields added to every entry
+   */
+  context: Record<string, any>;
+  /**
+   * Key paths whose values are replaced with `[Redacted]` in data and
+   * context, e.g. `password` or `headers.authorization`
+   */
+  redact: string[];
+  /**
+   * Console output: `text` or one NDJSON record per entry
+   */
+  format: 'text' | 'json';
 }
 
 const DEFAULT_CONFIG: LoggerConfig = {
@@ -27,15 +56,21 @@ const DEFAULT_CONFIG: LoggerConfig = {
   enableStorage: false,
   maxStorageEntries: 1000,
   enableTimestamp: true,
-  enableStackTrace: false
+  enableStackTrace: false,
+  transports: [],
+  context: {},
+  redact: [],
+  format: 'text'
 };
 
 export class Logger {
   private config: LoggerConfig;
   private entries: LogEntry[] = [];
+  private consoleTransport: LogTransport;
 
   constructor(config: Partial<LoggerConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.consoleTransport = this.createConsoleTransport();
   }
 
   /**
@@ -51,27 +86,19 @@ export class Logger {
   /**
    * Check if message should be logged based on current log level
    */
-  private shouldLog(level: LogLevel): boolean {
-    return Logger.LEVELS[level] >= Logger.LEVELS[this.config.level];
+  private shouldLog(level: LogLevel, minimum: LogLevel = this.config.level): boolean {
+    return Logger.LEVELS[level] >= Logger.LEVELS[minimum];
+  }
+
+  private createConsoleTransport(): LogTransport {
+    return createConsoleTransport({ timestamp: this.config.enableTimestamp, json: this.config.format === 'json' });
   }
 
   /**
-   * Format log message
+   * Transports entries are written to, the console first
    */
-  private formatMessage(level: LogLevel, message: string): string {
-    let formatted = '';
-
-    if (this.config.prefix) {
-      formatted += `[${this.config.prefix}] `;
-    }
-
-    if (this.config.enableTimestamp) {
-      formatted += `${new Date().toISOString()} `;
-    }
-
-    formatted += `[${level.toUpperCase()}] ${message}`;
-
-    return formatted;
+  private getTransports(): LogTransport[] {
+    return this.config.enableConsole ? [this.consoleTransport, ...this.config.transports] : this.config.transports;
   }
 
   /**
@@ -94,11 +121,15 @@ export class Logger {
       return;
     }
 
+    const { context, redact: paths } = this.config;
     const entry: LogEntry = {
       level,
       message,
       timestamp: new Date(),
-      data
+      data: redact(data, paths),
+      ...(this.config.prefix && { prefix: this.config.prefix }),
+      ...(Object.keys(context).length > 0 && { context: redact(context, paths) }),
+      ...(level === 'error' && this.config.enableStackTrace && { stack: this.getStackTrace() })
     };
 
     // Store entry if storage is enabled
@@ -111,24 +142,13 @@ export class Logger {
       }
     }
 
-    // Log to console if enabled
-    if (this.config.enableConsole) {
-      const formattedMessage = this.formatMessage(level, message);
-      
-      const logMethod = level === 'debug' ? console.debug :
-                       level === 'info' ? console.info :
-                       level === 'warn' ? console.warn :
-                       console.error;
-
-      if (data !== undefined) {
-        logMethod(formattedMessage, data);
-      } else {
-        logMethod(formattedMessage);
-      }
+    for (const transport of this.getTransports()) {
+      if (transport.level && !this.shouldLog(level, transport.level)) continue;
 
-      // Log stack trace for errors if enabled
-      if (level === 'error' && this.config.enableStackTrace) {
-        console.error('Stack trace:', this.getStackTrace());
+      try {
+        transport.write(entry);
+      } catch (error) {
+        console.warn('Log transport failed:', error);
       }
     }
   }
@@ -187,6 +207,31 @@ export class Logger {
    */
   updateConfig(config: Partial<LoggerConfig>): void {
     this.config = { ...this.config, ...config };
+    this.consoleTransport = this.createConsoleTransport();
+  }
+
+  /**
+   * Add a transport; returns a function that removes it
+   */
+  addTransport(transport: LogTransport): () => void {
+    this.config = { ...this.config, transports: [...this.config.transports, transport] };
+    return () => {
+      this.config = { ...this.config, transports: this.config.transports.filter(item => item !== transport) };
+    };
+  }
+
+  /**
+   * Deliver the entries transports have buffered
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.config.transports.map(transport => transport.flush?.()));
+  }
+
+  /**
+   * Flush and close every transport, e.g. before a server shuts down
+   */
+  async close(): Promise<void> {
+    await Promise.all(this.config.transports.map(transport => transport.close?.() ?? transport.flush?.()));
   }
 
   /**
@@ -197,23 +242,38 @@ export class Logger {
   }
 
   /**
-   * Export logs as JSON
+   * Export logs as JSON, or as NDJSON records
    */
-  exportLogs(): string {
+  exportLogs(format: 'json' | 'ndjson' = 'json'): string {
+    if (format === 'ndjson') {
+      return this.entries.map(entry => formatNDJSON(entry) + '\n').join('');
+    }
     return JSON.stringify(this.entries, null, 2);
   }
 
   /**
-   * Create a child logger with a prefix
+   * Create a child logger with a prefix and, optionally, more context
    */
-  child(prefix: string): Logger {
+  child(prefix: string, context: Record<string, any> = {}): Logger {
     const childPrefix = this.config.prefix 
       ? `${this.config.prefix}:${prefix}` 
       : prefix;
     
     return new Logger({
       ...this.config,
-      prefix: childPrefix
+      prefix: childPrefix,
+      context: { ...this.config.context, ...context }
+    });
+  }
+
+  /**
+   * Create a child logger that adds fields to every entry, e.g.
+   * `logger.with({ requestId })`
+   */
+  with(context: Record<string, any>): Logger {
+    return new Logger({
+      ...this.config,
+      context: { ...this.config.context, ...context }
     });
   }
 
@@ -0,0 +1,235 @@
+/**
+ * IP address, CIDR range and hostname utilities
+ */
+
+export interface IPAddress {
+  version: 4 | 6;
+  bytes: number[];
+}
+
+export interface IPOptions {
+  /**
+   * Accept an IPv6 zone suffix such as `fe80::1%eth0` (default false)
+   */
+  allowZone?: boolean;
+}
+
+export interface HostnameOptions {
+  /**
+   * Require at least two labels with an alphabetic top-level domain
+   */
+  requireTLD?: boolean;
+}
+
+/**
+ * Parse dotted-decimal IPv4 into bytes. Leading zeros are rejected since
+ * some parsers read them as octal.
+ */
+function parseIPv4Bytes(ip: string): number[] | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+
+  const bytes: number[] = [];
+  for (const part of parts) {
+    if (!/^(?:0|[1-9]\d{0,2})$/.test(part)) return null;
+    const value = Number(part);
+    if (value > 255) return null;
+    bytes.push(value);
+  }
+
+  return bytes;
+}
+
+/**
+ * Parse IPv6 (including `::` compression, an embedded IPv4 tail and, when
+ * allowed, a `%zone` suffix) into bytes
+ */
+function parseIPv6Bytes(ip: string, allowZone: boolean): number[] | null {
+  const address = allowZone ? ip.replace(/%[\w.-]+$/, '') : ip;
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const parseGroups = (text: string, allowIPv4: boolean): number[] | null => {
+    if (text === '') return [];
+
+    const groups = text.split(':');
+    const bytes: number[] = [];
+    for (let i = 0; i < groups.length; i++) {
+      const group = groups[i];
+      if (allowIPv4 && i === groups.length - 1 && group.includes('.')) {
+        const ipv4 = parseIPv4Bytes(group);
+        if (!ipv4) return null;
+        bytes.push(...ipv4);
+      } else if (/^[0-9a-f]{1,4}$/i.test(group)) {
+        const value = parseInt(group, 16);
+        bytes.push(value >> 8, value & 0xff);
+      } else {
+        return null;
+      }
+    }
+    return bytes;
+  };
+
+  if (halves.length === 1) {
+    const bytes = parseGroups(address, true);
+    return bytes && bytes.length === 16 ? bytes : null;
+  }
+
+  const head = parseGroups(halves[0], false);
+  const tail = parseGroups(halves[1], true);
+  if (!head || !tail || head.length + tail.length > 14) return null;
+
+  return [...head, ...new Array(16 - head.length - tail.length).fill(0), ...tail];
+}
+
+/**
+ * Parse an IPv4 or IPv6 address
+ */
+export function parseIPAddress(ip: string, options: IPOptions = {}): IPAddress | null {
+  if (ip.includes(':')) {
+    const bytes = parseIPv6Bytes(ip, options.allowZone ?? false);
+    return bytes ? { version: 6, bytes } : null;
+  }
+
+  const bytes = parseIPv4Bytes(ip);
+  return bytes ? { version: 4, bytes } : null;
+}
+
+/**
+ * Get the IPv4 address mapped into an IPv6 address (`::ffff:a.b.c.d`)
+ */
+function unmapIPv4(address: IPAddress): IPAddress {
+  const isMapped = address.version === 6 &&
+    address.bytes.slice(0, 10).every(byte => byte === 0) &&
+    address.bytes[10] === 0xff &&
+    address.bytes[11] === 0xff;
+
+  return isMapped ? { version: 4, bytes: address.bytes.slice(12) } : address;
+}
+
+/**
+ * Check if an IP address is inside a CIDR range such as `10.0.0.0/8` or
+ * `2001:db8::/32`, or any of several ranges. A range without a prefix
+ * length matches that single address.
+ */
+export function isIPInRange(ip: string, range: string | string[]): boolean {
+  const parsed = parseIPAddress(ip.trim(), { allowZone: true });
+  if (!parsed) return false;
+  const address = unmapIPv4(parsed);
+
+  const ranges = Array.isArray(range) ? range : [range];
+  return ranges.some(cidr => {
+    const [base, prefixText, ...rest] = cidr.trim().split('/');
+    const network = parseIPAddress(base);
+    if (!network || rest.length > 0 || network.version !== address.version) return false;
+
+    const maxPrefix = network.bytes.length * 8;
+    const prefix = prefixText === undefined ? maxPrefix : Number(prefixText);
+    if (!/^\d+$/.test(prefixText ?? '0') || prefix > maxPrefix) return false;
+
+    for (let bit = 0; bit < prefix; bit += 8) {
+      const bits = Math.min(8, prefix - bit);
+      const mask = (0xff << (8 - bits)) & 0xff;
+      if ((address.bytes[bit / 8] & mask) !== (network.bytes[bit / 8] & mask)) return false;
+    }
+
+    return true;
+  });
+}
+
+const PUNYCODE_BASE = 36;
+const PUNYCODE_T_MIN = 1;
+const PUNYCODE_T_MAX = 26;
+
+/**
+ * Punycode bias adaptation (RFC 3492 section 6.1)
+ */
+function adaptBias(delta: number, numPoints: number, firstTime: boolean): number {
+  let value = firstTime ? Math.floor(delta / 700) : delta >> 1;
+  value += Math.floor(value / numPoints);
+
+  let k = 0;
+  while (value > ((PUNYCODE_BASE - PUNYCODE_T_MIN) * PUNYCODE_T_MAX) >> 1) {
+    value = Math.floor(value / (PUNYCODE_BASE - PUNYCODE_T_MIN));
+    k += PUNYCODE_BASE;
+  }
+
+  return k + Math.floor(((PUNYCODE_BASE - PUNYCODE_T_MIN + 1) * value) / (value + 38));
+}
+
+/**
+ * Encode a Unicode label as Punycode (RFC 3492), without the `xn--` prefix
+ */
+function encodePunycode(label: string): string {
+  const codePoints = Array.from(label).map(char => char.codePointAt(0)!);
+  const toDigit = (digit: number): string => String.fromCharCode(digit + (digit < 26 ? 97 : 22));
+
+  let output = codePoints.filter(code => code < 0x80).map(code => String.fromCharCode(code)).join('');
+  const basicLength = output.length;
+  let handled = basicLength;
+  if (basicLength > 0) output += '-';
+
+  let n = 0x80;
+  let delta = 0;
+  let bias = 72;
+
+  while (handled < codePoints.length) {
+    const next = Math.min(...codePoints.filter(code => code >= n));
+    delta += (next - n) * (handled + 1);
+    n = next;
+
+    for (const code of codePoints) {
+      if (code < n) delta++;
+      if (code !== n) continue;
+
+      let q = delta;
+      for (let k = PUNYCODE_BASE; ; k += PUNYCODE_BASE) {
+        const t = k <= bias ? PUNYCODE_T_MIN : k >= bias + PUNYCODE_T_MAX ? PUNYCODE_T_MAX : k - bias;
+        if (q < t) break;
+        output += toDigit(t + ((q - t) % (PUNYCODE_BASE - t)));
+        q = Math.floor((q - t) / (PUNYCODE_BASE - t));
+      }
+
+      output += toDigit(q);
+      bias = adaptBias(delta, handled + 1, handled === basicLength);
+      delta = 0;
+      handled++;
+    }
+
+    delta++;
+    n++;
+  }
+
+  return output;
+}
+
+/**
+ * Convert an internationalized domain name to its ASCII (`xn--`) form,
+ * e.g. `münchen.de` to `xn--mnchen-3ya.de`
+ */
+export function domainToASCII(domain: string): string {
+  return domain
+    .normalize('NFC')
+    .toLowerCase()
+    .split(/[.。．｡]/)
+    .map(label => (/^[\x00-\x7f]*$/.test(label) ? label : `xn--${encodePunycode(label)}`))
+    .join('.');
+}
+
+/**
+ * Check if a hostname (ASCII or internationalized) is well formed
+ */
+export function isValidHostname(hostname: string, options: HostnameOptions = {}): boolean {
+  const { requireTLD = true } = options;
+  const ascii = domainToASCII(hostname);
+  if (ascii.length === 0 || ascii.length > 253) return false;
+
+  const labels = ascii.split('.');
+  const validLabels = labels.every(label => /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/.test(label));
+  if (!validLabels) return false;
+
+  if (!requireTLD) return true;
+
+  const tld = labels[labels.length - 1];
+  return labels.length >= 2 && /^(?:[a-z]{2,63}|xn--[a-z0-9-]{1,59})$/.test(tld);
+}
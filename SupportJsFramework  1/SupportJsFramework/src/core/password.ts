@@ -0,0 +1,408 @@
+/**
+ * Password strength estimation based on guessable patterns
+ */
+
+export type PasswordPattern = 'dictionary' | 'keyboard' | 'sequence' | 'repeat' | 'date' | 'banned';
+
+export interface PasswordPatternMatch {
+  pattern: PasswordPattern;
+  token: string;
+  start: number;
+  end: number; // exclusive
+  entropy: number;
+  /**
+   * Dictionary word found after undoing substitutions such as `@` for `a`
+   */
+  l33t?: boolean;
+}
+
+export interface PasswordEstimate {
+  /**
+   * Estimated entropy in bits, after discounting guessable patterns
+   */
+  entropy: number;
+  score: number; // 0-4
+  /**
+   * Patterns used by the cheapest way found to guess the password
+   */
+  matches: PasswordPatternMatch[];
+}
+
+/**
+ * Minimum entropy in bits for scores 1-4
+ */
+const SCORE_THRESHOLDS = [28, 36, 50, 64];
+
+/**
+ * Characters searched for patterns; longer passwords count the rest as
+ * random characters, which keeps the estimate fast for any input
+ */
+const MAX_ANALYZED_LENGTH = 128;
+
+/**
+ * Common passwords, sorted and front-coded: each entry starts with the
+ * number of leading characters it shares with the previous entry
+ */
+const COMMON_PASSWORDS_PACKED =
+  '00000,400,01111,41,51,611,22233,121212,23123,6123,3321,34,44321,45,56,67,78,89,90,4qwer,3654,' +
+  '3qwe,131313,159753,1q2w3e4r,2az2wsx,02000,122222,132323,0333333,0555555,0654321,166666,196969,' +
+  '0777777,67,08675309,17654321,188888,688,0987654,6321,199999,0aaaaaa,1bc123,64,1ccess,1didas,' +
+  '2min,5123,1manda,1ndrea,5w,2gel,2thony,1rsenal,1sdfasdf,4gh,2hley,1ustin,0badboy,2iley,2nana,' +
+  '2rney,2seball,81,2tman,1igdaddy,4og,2teme,1ooboo,3mer,2ston,1randon,5y,1ulldog,2ster,0camaro,' +
+  '2sper,1hangeme,3rles,5ie,2eese,3lsea,3ster,2icago,4ken,2ris,1ocacola,2ffee,2mpaq,4uter,2okie,' +
+  '2rvette,2wboy,6s,1rystal,0dakota,2llas,2niel,1efault,1iablo,3mond,1olphin,1ragon,61,0eagles,' +
+  '1dward,1nter,0falcon,1ender,2rrari,1ishing,1lower,1ootball,81,2rever,1reedom,0gandalf,2teway,' +
+  '1eorge,1fhjkm,1hbdtn,1inger,1olden,3fer,1uest,2itar,0hammer,2nnah,2rdcore,3ley,1eather,2llo,' +
+  '5123,1ockey,1unter,0iceman,1loveyou,81,1nternet,0jackson,2mes,2smine,3per,1ennifer,2ssica,' +
+  '1ohnny,2rdan,2seph,3hua,1unior,2stin,0killer,1night,0lakers,1etmein,71,1ogin,2ndon,2ve,0maggie,' +
+  '2rina,5e,3lboro,3tin,2ster,2trix,3thew,2verick,1elissa,2rcedes,3lin,1ichael,4elle,3key,2dnight,' +
+  '2ller,2necraft,1oney,3key,61,3ster,2rgan,2ther,1ustang,0nascar,2tasha,1cc1701,1icole,2kita,' +
+  '0oliver,1range,0p@ssw0rd,1a55word,2ssw0rd,5ord,81,2trick,1eanut,2pper,1hoenix,1layer,2ease,' +
+  '1orsche,1rince,6ss,81,1urple,0q1w2e3r4,8t5,1azwsx,1wer1234,4ty,61,723,6uiop,0rabbit,2chel,' +
+  '2iders,2nger,6s,1edsox,1ichard,1obert,2ot,0samantha,3sung,1cooby,4ter,1ecret,1hadow,1ilver,' +
+  '1layer,1mokey,1noopy,1occer,2lo,1parky,2ider,1tarwars,81,2eelers,3ven,1ummer,2nshine,81,2perman,' +
+  '0taylor,1ennis,2st,4123,1homas,2under,1igers,3ger,1oor,1rustno1,0user,0victoria,0welcome,71,' +
+  '1hatever,1illiam,2nner,3ter,2zard,0xxxxxx,0yamaha,2nkees,1ellow,0zaq12wsx,1xcvbn,6m';
+
+let commonPasswords: Set<string> | null = null;
+let longestCommonPassword = 0;
+
+/**
+ * Unpack the common password list on first use
+ */
+function getCommonPasswords(): Set<string> {
+  if (!commonPasswords) {
+    const words: string[] = [];
+    let previous = '';
+
+    for (const entry of COMMON_PASSWORDS_PACKED.split(',')) {
+      previous = previous.slice(0, Number(entry[0])) + entry.slice(1);
+      words.push(previous);
+    }
+
+    commonPasswords = new Set(words);
+    longestCommonPassword = Math.max(...words.map(word => word.length));
+  }
+
+  return commonPasswords;
+}
+
+/**
+ * Check if a password is on the common password list, ignoring case and
+ * substitutions such as `p@ssw0rd`
+ */
+export function isCommonPassword(password: string): boolean {
+  const common = getCommonPasswords();
+  if (password.length > longestCommonPassword) return false;
+  return unleet(password.toLowerCase()).some(candidate => common.has(candidate));
+}
+
+const L33T_TABLE: Record<string, string[]> = {
+  '4': ['a'],
+  '@': ['a'],
+  '8': ['b'],
+  '(': ['c'],
+  '3': ['e'],
+  '6': ['g'],
+  '1': ['i', 'l'],
+  '!': ['i'],
+  '|': ['i', 'l'],
+  '0': ['o'],
+  '$': ['s'],
+  '5': ['s'],
+  '7': ['t'],
+  '+': ['t'],
+  '2': ['z']
+};
+
+/**
+ * Get the spellings a token could have before l33t substitutions,
+ * the unchanged token first
+ */
+function unleet(token: string): string[] {
+  let variants = [''];
+
+  for (const char of token) {
+    const options = [char, ...(L33T_TABLE[char] || [])];
+    const next: string[] = [];
+    for (const variant of variants) {
+      for (const option of options) {
+        next.push(variant + option);
+      }
+    }
+    // Keep the expansion bounded for symbol-heavy passwords
+    variants = next.slice(0, 16);
+  }
+
+  return variants;
+}
+
+const KEYBOARD_ROWS: Array<[string, string, number]> = [
+  ['`1234567890-=', '~!@#$%^&*()_+', 0],
+  ['qwertyuiop[]\\', 'QWERTYUIOP{}|', 1.5],
+  ["asdfghjkl;'", 'ASDFGHJKL:"', 1.75],
+  ['zxcvbnm,./', 'ZXCVBNM<>?', 2.25]
+];
+
+let keyPositions: Record<string, [number, number]> | null = null;
+
+/**
+ * Row and horizontal position of every key on a US QWERTY keyboard
+ */
+function getKeyPositions(): Record<string, [number, number]> {
+  if (!keyPositions) {
+    keyPositions = {};
+    KEYBOARD_ROWS.forEach(([keys, shifted, offset], row) => {
+      for (let i = 0; i < keys.length; i++) {
+        keyPositions![keys[i]] = [row, i + offset];
+        keyPositions![shifted[i]] = [row, i + offset];
+      }
+    });
+  }
+
+  return keyPositions;
+}
+
+/**
+ * Check if two keys touch each other
+ */
+function areKeysAdjacent(a: string, b: string): boolean {
+  const positions = getKeyPositions();
+  const from = positions[a];
+  const to = positions[b];
+  if (!from || !to || a.toLowerCase() === b.toLowerCase()) return false;
+
+  return Math.abs(from[0] - to[0]) <= 1 && Math.abs(from[1] - to[1]) <= 1;
+}
+
+/**
+ * Number of distinct characters an attacker has to try per position
+ */
+function getCharsetSize(password: string): number {
+  let size = 0;
+  if (/[a-z]/.test(password)) size += 26;
+  if (/[A-Z]/.test(password)) size += 26;
+  if (/\d/.test(password)) size += 10;
+  if (/[^a-zA-Z\d]/.test(password)) size += 33;
+  return size || 1;
+}
+
+/**
+ * Extra bits for the capitalization of a dictionary word
+ */
+function getCaseEntropy(token: string): number {
+  const upper = token.replace(/[^A-Z]/g, '').length;
+  if (upper === 0) return 0;
+  if (upper === token.length || (upper === 1 && /^[A-Z]/.test(token))) return 1;
+  return upper;
+}
+
+function findDictionaryMatches(password: string, banned: string[]): PasswordPatternMatch[] {
+  const matches: PasswordPatternMatch[] = [];
+  const common = getCommonPasswords();
+  const lower = password.toLowerCase();
+  const dictionaryBits = Math.log2(common.size);
+  // No token longer than the longest word can match
+  const maxLength = Math.max(longestCommonPassword, ...banned.map(input => input.length));
+
+  for (let start = 0; start < lower.length; start++) {
+    for (let end = start + 3; end <= Math.min(lower.length, start + maxLength); end++) {
+      const token = lower.slice(start, end);
+      const original = password.slice(start, end);
+
+      if (banned.includes(token)) {
+        matches.push({ pattern: 'banned', token: original, start, end, entropy: 1 });
+        continue;
+      }
+
+      if (end - start < 4) continue;
+
+      const variants = unleet(token);
+      const found = variants.findIndex(variant => common.has(variant));
+      if (found === -1) continue;
+
+      const substitutions = found === 0 ? 0 : [...token].filter((char, i) => char !== variants[found][i]).length;
+      matches.push({
+        pattern: 'dictionary',
+        token: original,
+        start,
+        end,
+        entropy: dictionaryBits + getCaseEntropy(original) + substitutions,
+        ...(substitutions > 0 ? { l33t: true } : {})
+      });
+    }
+  }
+
+  return matches;
+}
+
+function findKeyboardMatches(password: string): PasswordPatternMatch[] {
+  const matches: PasswordPatternMatch[] = [];
+  const positions = getKeyPositions();
+  let start = 0;
+
+  for (let i = 1; i <= password.length; i++) {
+    if (i < password.length && areKeysAdjacent(password[i - 1], password[i])) continue;
+
+    if (i - start >= 4) {
+      const token = password.slice(start, i);
+      let turns = 0;
+      for (let j = 2; j < token.length; j++) {
+        const [r0, c0] = positions[token[j - 2]];
+        const [r1, c1] = positions[token[j - 1]];
+        const [r2, c2] = positions[token[j]];
+        if (r1 - r0 !== r2 - r1 || Math.sign(c1 - c0) !== Math.sign(c2 - c1)) turns++;
+      }
+      matches.push({
+        pattern: 'keyboard',
+        token,
+        start,
+        end: i,
+        entropy: Math.log2(47) + (token.length - 1) + turns * 2
+      });
+    }
+    start = i;
+  }
+
+  return matches;
+}
+
+function findSequenceMatches(password: string): PasswordPatternMatch[] {
+  const matches: PasswordPatternMatch[] = [];
+  const lower = password.toLowerCase();
+  const classOf = (char: string): string => (/\d/.test(char) ? 'digit' : /[a-z]/.test(char) ? 'letter' : 'other');
+  const stepAt = (i: number): number =>
+    classOf(lower[i]) !== 'other' && classOf(lower[i]) === classOf(lower[i - 1])
+      ? lower.charCodeAt(i) - lower.charCodeAt(i - 1)
+      : 0;
+
+  let start = 0;
+  for (let i = 1; i <= lower.length; i++) {
+    const step = i < lower.length ? stepAt(i) : 0;
+    const runStep = i - start > 1 ? stepAt(start + 1) : step;
+    if (Math.abs(step) === 1 && step === runStep) continue;
+
+    if (i - start >= 3) {
+      const token = password.slice(start, i);
+      const obvious = /^[a1z90]/i.test(token);
+      const space = classOf(lower[start]) === 'digit' ? 10 : 26;
+      matches.push({
+        pattern: 'sequence',
+        token,
+        start,
+        end: i,
+        entropy: (obvious ? 1 : Math.log2(space)) + Math.log2(token.length) + (runStep < 0 ? 1 : 0)
+      });
+    }
+
+    // The last pair may begin a run in the other direction
+    start = Math.abs(step) === 1 ? i - 1 : i;
+  }
+
+  return matches;
+}
+
+function findRepeatMatches(password: string): PasswordPatternMatch[] {
+  const matches: PasswordPatternMatch[] = [];
+  const regex = /(.)\1{2,}/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(password)) !== null) {
+    matches.push({
+      pattern: 'repeat',
+      token: match[0],
+      start: match.index,
+      end: match.index + match[0].length,
+      entropy: Math.log2(getCharsetSize(match[1])) + Math.log2(match[0].length)
+    });
+  }
+
+  return matches;
+}
+
+const DATE_PATTERNS: Array<[RegExp, number]> = [
+  // 1990-05-12, 12/05/1990, 12.5.90
+  [/\d{4}[-/._]\d{1,2}[-/._]\d{1,2}|\d{1,2}[-/._]\d{1,2}[-/._]\d{2}(?:\d{2})?/g, Math.log2(365 * 200) + 2],
+  // 19900512, 12051990
+  [/(?:19|20)\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])|(?:0[1-9]|[12]\d|3[01])(?:0[1-9]|1[0-2])(?:19|20)\d{2}/g, Math.log2(365 * 200) + 1],
+  // 1990
+  [/(?:19|20)\d{2}/g, Math.log2(200)]
+];
+
+function findDateMatches(password: string): PasswordPatternMatch[] {
+  const matches: PasswordPatternMatch[] = [];
+
+  for (const [regex, entropy] of DATE_PATTERNS) {
+    regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(password)) !== null) {
+      matches.push({
+        pattern: 'date',
+        token: match[0],
+        start: match.index,
+        end: match.index + match[0].length,
+        entropy
+      });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Estimate how hard a password is to guess. Characters covered by a
+ * guessable pattern (common words, keyboard walks, sequences, repeats,
+ * dates, user-specific strings) only count for the entropy of the
+ * pattern; the rest count as random characters.
+ */
+export function estimatePasswordEntropy(input: string, userInputs: string[] = []): PasswordEstimate {
+  const password = input.slice(0, MAX_ANALYZED_LENGTH);
+  const banned = userInputs
+    .map(input => input.toLowerCase())
+    .filter(input => input.length >= 3);
+
+  const matches = [
+    ...findDictionaryMatches(password, banned),
+    ...findKeyboardMatches(password),
+    ...findSequenceMatches(password),
+    ...findRepeatMatches(password),
+    ...findDateMatches(password)
+  ];
+
+  // Cheapest cover of the password by random characters and matches
+  const bruteForceBits = Math.log2(getCharsetSize(input));
+  const best: number[] = [0];
+  const chosen: Array<PasswordPatternMatch | null> = [null];
+
+  for (let end = 1; end <= password.length; end++) {
+    best[end] = best[end - 1] + bruteForceBits;
+    chosen[end] = null;
+
+    for (const match of matches) {
+      if (match.end === end && best[match.start] + match.entropy < best[end]) {
+        best[end] = best[match.start] + match.entropy;
+        chosen[end] = match;
+      }
+    }
+  }
+
+  const used: PasswordPatternMatch[] = [];
+  for (let end = password.length; end > 0;) {
+    const match = chosen[end];
+    if (match) {
+      used.unshift(match);
+      end = match.start;
+    } else {
+      end--;
+    }
+  }
+
+  const entropy = best[password.length] + (input.length - password.length) * bruteForceBits;
+  const score = SCORE_THRESHOLDS.filter(threshold => entropy >= threshold).length;
+
+  return {
+    entropy: Math.round(entropy * 10) / 10,
+    score,
+    matches: used
+  };
+}
@@ -0,0 +1,418 @@
+/**
+ * International phone number parsing, validation and formatting
+ */
+
+export type PhoneNumberType = 'mobile' | 'fixedLine' | 'fixedLineOrMobile' | 'tollFree' | 'premiumRate' | 'unknown';
+
+export type PhoneNumberFormat = 'E164' | 'INTERNATIONAL' | 'NATIONAL' | 'RFC3966';
+
+export interface PhoneNumberFormatRule {
+  /**
+   * Matches the whole national number, capturing its groups
+   */
+  pattern: RegExp;
+  /**
+   * International grouping, e.g. `$1 $2 $3`
+   */
+  format: string;
+  /**
+   * National grouping; defaults to the trunk prefix followed by `format`
+   */
+  nationalFormat?: string;
+}
+
+export interface PhoneCountryMetadata {
+  callingCode: string;
+  /**
+   * Prefix dialled before national numbers within the country, e.g. `0`
+   */
+  trunkPrefix?: string;
+  /**
+   * Possible lengths of the national number (without trunk prefix)
+   */
+  lengths: number[];
+  /**
+   * National number patterns by number type, checked in order
+   */
+  types: Partial<Record<Exclude<PhoneNumberType, 'unknown'>, RegExp>>;
+  formats: PhoneNumberFormatRule[];
+  /**
+   * Distinguishes countries sharing a calling code; the country without
+   * one is used when no other matches
+   */
+  leadingDigits?: RegExp;
+}
+
+export interface PhoneNumber {
+  country: string;
+  callingCode: string;
+  nationalNumber: string;
+  type: PhoneNumberType;
+  extension?: string;
+}
+
+const NANP_TYPES: PhoneCountryMetadata['types'] = {
+  tollFree: /^8(?:00|33|44|55|66|77|88)[2-9]\d{6}$/,
+  premiumRate: /^900[2-9]\d{6}$/,
+  fixedLineOrMobile: /^[2-9]\d{2}[2-9]\d{6}$/
+};
+
+const NANP_FORMATS: PhoneNumberFormatRule[] = [
+  { pattern: /^(\d{3})(\d{3})(\d{4})$/, format: '$1-$2-$3', nationalFormat: '($1) $2-$3' }
+];
+
+const PHONE_METADATA: Record<string, PhoneCountryMetadata> = {
+  US: {
+    callingCode: '1',
+    trunkPrefix: '1',
+    lengths: [10],
+    types: NANP_TYPES,
+    formats: NANP_FORMATS
+  },
+  CA: {
+    callingCode: '1',
+    trunkPrefix: '1',
+    lengths: [10],
+    types: NANP_TYPES,
+    formats: NANP_FORMATS,
+    leadingDigits: /^(?:2(?:04|[23]6|[48]9|50|63)|3(?:06|43|54|6[578]|82)|4(?:03|1[68]|[26]8|3[178]|50|74)|5(?:06|1[49]|48|79|8[147])|6(?:04|13|39|47|72|83)|7(?:0[59]|42|53|78|8[02])|8(?:[06]7|19|25|7[39])|90[25])/
+  },
+  GB: {
+    callingCode: '44',
+    trunkPrefix: '0',
+    lengths: [9, 10],
+    types: {
+      tollFree: /^80(?:0\d{6,7}|8\d{7})$/,
+      premiumRate: /^9[018]\d{8}$/,
+      mobile: /^7(?:[1-57-9]\d{8})$/,
+      fixedLine: /^(?:1\d{8,9}|2\d{9})$/
+    },
+    formats: [
+      { pattern: /^(2\d)(\d{4})(\d{4})$/, format: '$1 $2 $3' },
+      { pattern: /^(1\d1)(\d{3})(\d{4})$/, format: '$1 $2 $3' },
+      { pattern: /^(11\d)(\d{3})(\d{4})$/, format: '$1 $2 $3' },
+      { pattern: /^(800)(\d{3,4})(\d{3})$/, format: '$1 $2 $3' },
+      { pattern: /^(\d{4})(\d{5,6})$/, format: '$1 $2' }
+    ]
+  },
+  DE: {
+    callingCode: '49',
+    trunkPrefix: '0',
+    lengths: [6, 7, 8, 9, 10, 11, 12],
+    types: {
+      tollFree: /^800\d{7,9}$/,
+      premiumRate: /^900\d{7}$/,
+      mobile: /^1(?:5\d{9,10}|6[023]\d{7,8}|7\d{8,9})$/,
+      fixedLine: /^[2-9]\d{5,10}$/
+    },
+    formats: [
+      { pattern: /^(1\d{2})(\d{7,8})$/, format: '$1 $2' },
+      { pattern: /^(30|40|69|89)(\d{3,9})$/, format: '$1 $2' },
+      { pattern: /^([89]00)(\d{7,9})$/, format: '$1 $2' },
+      { pattern: /^(\d{3})(\d{3,8})$/, format: '$1 $2' }
+    ]
+  },
+  FR: {
+    callingCode: '33',
+    trunkPrefix: '0',
+    lengths: [9],
+    types: {
+      tollFree: /^80\d{7}$/,
+      premiumRate: /^8[1-9]\d{7}$/,
+      mobile: /^[67]\d{8}$/,
+      fixedLine: /^[1-59]\d{8}$/
+    },
+    formats: [
+      { pattern: /^(\d)(\d{2})(\d{2})(\d{2})(\d{2})$/, format: '$1 $2 $3 $4 $5' }
+    ]
+  },
+  ES: {
+    callingCode: '34',
+    lengths: [9],
+    types: {
+      tollFree: /^(?:800|900)\d{6}$/,
+      premiumRate: /^(?:80[3-7]|90[2-7])\d{6}$/,
+      mobile: /^(?:[67]\d{8})$/,
+      fixedLine: /^[89]\d{8}$/
+    },
+    formats: [
+      { pattern: /^(\d{3})(\d{3})(\d{3})$/, format: '$1 $2 $3' }
+    ]
+  },
+  IT: {
+    // Italian fixed-line numbers keep their leading 0 internationally
+    callingCode: '39',
+    lengths: [6, 7, 8, 9, 10, 11],
+    types: {
+      tollFree: /^80[03]\d{3,6}$/,
+      premiumRate: /^89\d{4,7}$/,
+      mobile: /^3\d{8,9}$/,
+      fixedLine: /^0\d{5,10}$/
+    },
+    formats: [
+      { pattern: /^(3\d{2})(\d{3})(\d{3,4})$/, format: '$1 $2 $3' },
+      { pattern: /^(0[26])(\d{4})(\d{2,4})$/, format: '$1 $2 $3' },
+      { pattern: /^(0\d{2})(\d{3,4})(\d{3,4})$/, format: '$1 $2 $3' },
+      { pattern: /^(80[03])(\d{3,6})$/, format: '$1 $2' }
+    ]
+  },
+  NL: {
+    callingCode: '31',
+    trunkPrefix: '0',
+    lengths: [9],
+    types: {
+      tollFree: /^800\d{6}$/,
+      premiumRate: /^90[069]\d{6}$/,
+      mobile: /^6[1-58]\d{7}$/,
+      fixedLine: /^(?:[1-57]\d|8[58])\d{7}$/
+    },
+    formats: [
+      { pattern: /^(6)(\d{8})$/, format: '$1 $2' },
+      { pattern: /^([1-57]0)(\d{3})(\d{4})$/, format: '$1 $2 $3' },
+      { pattern: /^(\d{3})(\d{6})$/, format: '$1 $2' }
+    ]
+  },
+  CH: {
+    callingCode: '41',
+    trunkPrefix: '0',
+    lengths: [9],
+    types: {
+      tollFree: /^800\d{6}$/,
+      premiumRate: /^90[016]\d{6}$/,
+      mobile: /^7[5-9]\d{7}$/,
+      fixedLine: /^(?:[2-6]\d|81|91)\d{7}$/
+    },
+    formats: [
+      { pattern: /^([89]\d{2})(\d{3})(\d{3})$/, format: '$1 $2 $3' },
+      { pattern: /^(\d{2})(\d{3})(\d{2})(\d{2})$/, format: '$1 $2 $3 $4' }
+    ]
+  },
+  AU: {
+    callingCode: '61',
+    trunkPrefix: '0',
+    lengths: [9],
+    types: {
+      tollFree: /^1800\d{5}$/,
+      premiumRate: /^190\d{6}$/,
+      mobile: /^4\d{8}$/,
+      fixedLine: /^[2378]\d{8}$/
+    },
+    formats: [
+      { pattern: /^(4\d{2})(\d{3})(\d{3})$/, format: '$1 $2 $3' },
+      { pattern: /^([2378])(\d{4})(\d{4})$/, format: '$1 $2 $3' },
+      { pattern: /^(1[89]00)(\d{2})(\d{3})$/, format: '$1 $2 $3' }
+    ]
+  },
+  IN: {
+    callingCode: '91',
+    trunkPrefix: '0',
+    lengths: [10],
+    types: {
+      tollFree: /^1800\d{6}$/,
+      mobile: /^[6-9]\d{9}$/,
+      fixedLine: /^[1-5]\d{9}$/
+    },
+    formats: [
+      { pattern: /^([6-9]\d{4})(\d{5})$/, format: '$1 $2' },
+      { pattern: /^(1800)(\d{3})(\d{3})$/, format: '$1 $2 $3' },
+      { pattern: /^(11|2[02]|33|4[04]|80)(\d{4})(\d{4})$/, format: '$1 $2 $3' },
+      { pattern: /^(\d{3})(\d{3})(\d{4})$/, format: '$1 $2 $3' }
+    ]
+  },
+  JP: {
+    callingCode: '81',
+    trunkPrefix: '0',
+    lengths: [9, 10],
+    types: {
+      tollFree: /^(?:120\d{6}|800\d{7})$/,
+      premiumRate: /^990\d{6}$/,
+      mobile: /^[789]0\d{8}$/,
+      fixedLine: /^[1-9]\d{8}$/
+    },
+    formats: [
+      { pattern: /^([789]0)(\d{4})(\d{4})$/, format: '$1-$2-$3' },
+      { pattern: /^(120|990)(\d{3})(\d{3})$/, format: '$1-$2-$3' },
+      { pattern: /^(800)(\d{3})(\d{4})$/, format: '$1-$2-$3' },
+      { pattern: /^([36])(\d{4})(\d{4})$/, format: '$1-$2-$3' },
+      { pattern: /^(\d{2})(\d{3})(\d{4})$/, format: '$1-$2-$3' }
+    ]
+  },
+  BR: {
+    callingCode: '55',
+    trunkPrefix: '0',
+    lengths: [9, 10, 11],
+    types: {
+      tollFree: /^800\d{6,7}$/,
+      mobile: /^[1-9]{2}9\d{8}$/,
+      fixedLine: /^[1-9]{2}[2-5]\d{7}$/
+    },
+    formats: [
+      { pattern: /^(800)(\d{3})(\d{3,4})$/, format: '$1 $2 $3' },
+      { pattern: /^(\d{2})(\d{4,5})(\d{4})$/, format: '$1 $2-$3', nationalFormat: '($1) $2-$3' }
+    ]
+  }
+};
+
+const TYPE_ORDER: Array<Exclude<PhoneNumberType, 'unknown'>> = [
+  'tollFree', 'premiumRate', 'mobile', 'fixedLine', 'fixedLineOrMobile'
+];
+
+const EXTENSION_REGEX = /\s*(?:;ext=|(?:ext\.?|x|#)\s*)(\d{1,7})$/i;
+
+/**
+ * Add or replace the metadata of a country (ISO 3166-1 alpha-2 code)
+ */
+export function registerPhoneMetadata(country: string, metadata: PhoneCountryMetadata): void {
+  PHONE_METADATA[country.toUpperCase()] = metadata;
+}
+
+/**
+ * Get the countries phone numbers can be parsed for
+ */
+export function getSupportedPhoneCountries(): string[] {
+  return Object.keys(PHONE_METADATA);
+}
+
+/**
+ * Get the calling code of a country, e.g. `44` for `GB`
+ */
+export function getCountryCallingCode(country: string): string | null {
+  return PHONE_METADATA[country.toUpperCase()]?.callingCode || null;
+}
+
+/**
+ * Get the type of a national number, or null if it is not valid for the country
+ */
+function getNumberType(nationalNumber: string, metadata: PhoneCountryMetadata): PhoneNumberType | null {
+  if (!metadata.lengths.includes(nationalNumber.length)) {
+    return null;
+  }
+
+  const type = TYPE_ORDER.find(candidate => metadata.types[candidate]?.test(nationalNumber));
+  return type || null;
+}
+
+/**
+ * Find the country of an international number from its digits after the `+`
+ */
+function findCountry(digits: string): { country: string; nationalNumber: string } | null {
+  for (let length = 1; length <= 3; length++) {
+    const callingCode = digits.slice(0, length);
+    const nationalNumber = digits.slice(length);
+    const countries = Object.keys(PHONE_METADATA).filter(code => PHONE_METADATA[code].callingCode === callingCode);
+    if (countries.length === 0) continue;
+
+    const country = countries.find(code => PHONE_METADATA[code].leadingDigits?.test(nationalNumber))
+      || countries.find(code => !PHONE_METADATA[code].leadingDigits)
+      || countries[0];
+
+    return { country, nationalNumber };
+  }
+
+  return null;
+}
+
+/**
+ * Parse a phone number written in international form (`+44 20 7946 0018`,
+ * `0044...`) or in the national form of `defaultCountry`. Returns null when
+ * the number is not valid.
+ */
+export function parsePhoneNumber(input: string, defaultCountry?: string): PhoneNumber | null {
+  let text = input.trim();
+  let extension: string | undefined;
+
+  const extensionMatch = EXTENSION_REGEX.exec(text);
+  if (extensionMatch) {
+    extension = extensionMatch[1];
+    text = text.slice(0, extensionMatch.index);
+  }
+
+  // "+44 (0)20..." style: the bracketed trunk prefix is not dialled
+  text = text.replace(/^tel:/i, '').replace(/\(0\)/, '');
+  if (!/^\+?[\d\s\-().\/]+$/.test(text)) {
+    return null;
+  }
+
+  const digits = text.replace(/\D/g, '');
+  const region = defaultCountry?.toUpperCase();
+  const regionMetadata = region ? PHONE_METADATA[region] : undefined;
+  let country: string;
+  let nationalNumber: string;
+
+  const internationalPrefix = region && PHONE_METADATA[region]?.callingCode === '1' ? '011' : '00';
+  if (text.startsWith('+') || (regionMetadata && digits.startsWith(internationalPrefix))) {
+    const found = findCountry(text.startsWith('+') ? digits : digits.slice(internationalPrefix.length));
+    if (!found) return null;
+    ({ country, nationalNumber } = found);
+  } else {
+    if (!region || !regionMetadata) return null;
+    const trunk = regionMetadata.trunkPrefix;
+    const withoutTrunk = trunk && digits.startsWith(trunk) ? digits.slice(trunk.length) : null;
+    nationalNumber = withoutTrunk !== null && getNumberType(withoutTrunk, regionMetadata)
+      ? withoutTrunk
+      : digits;
+
+    // A national number may still belong to a country sharing the calling code
+    country = findCountry(regionMetadata.callingCode + nationalNumber)?.country || region;
+  }
+
+  const metadata = PHONE_METADATA[country];
+  const type = getNumberType(nationalNumber, metadata);
+  if (!type) {
+    return null;
+  }
+
+  return {
+    country,
+    callingCode: metadata.callingCode,
+    nationalNumber,
+    type,
+    ...(extension ? { extension } : {})
+  };
+}
+
+/**
+ * Check if a phone number is valid, optionally for a specific country
+ */
+export function isValidPhoneNumber(input: string, country?: string): boolean {
+  const phone = parsePhoneNumber(input, country);
+  return phone !== null && (!country || phone.country === country.toUpperCase());
+}
+
+/**
+ * Group the national number using the country's format rules
+ */
+function formatNationalNumber(phone: PhoneNumber, national: boolean): string {
+  const metadata = PHONE_METADATA[phone.country];
+  const rule = metadata?.formats.find(candidate => candidate.pattern.test(phone.nationalNumber));
+  if (!rule) {
+    return national ? `${metadata?.trunkPrefix || ''}${phone.nationalNumber}` : phone.nationalNumber;
+  }
+
+  if (!national) {
+    return phone.nationalNumber.replace(rule.pattern, rule.format);
+  }
+
+  return phone.nationalNumber.replace(
+    rule.pattern,
+    rule.nationalFormat || `${metadata.trunkPrefix || ''}${rule.format}`
+  );
+}
+
+/**
+ * Format a parsed phone number
+ */
+export function formatPhoneNumber(phone: PhoneNumber, format: PhoneNumberFormat = 'INTERNATIONAL'): string {
+  switch (format) {
+    case 'E164':
+      return `+${phone.callingCode}${phone.nationalNumber}`;
+    case 'NATIONAL':
+      return formatNationalNumber(phone, true) + (phone.extension ? ` ext. ${phone.extension}` : '');
+    case 'RFC3966':
+      return `tel:+${phone.callingCode}-${formatNationalNumber(phone, false).replace(/[^\d]+/g, '-')}` +
+        (phone.extension ? `;ext=${phone.extension}` : '');
+    default:
+      return `+${phone.callingCode} ${formatNationalNumber(phone, false)}` +
+        (phone.extension ? ` ext. ${phone.extension}` : '');
+  }
+}
@@ -0,0 +1,495 @@
+/**
+ * Recurrence rules (RFC 5545 RRULE) parsing, serialization and expansion
+ */
+
+import { formatDate, fromDateParts, getDateParts, getDaysInMonth, parseDate } from './date';
+
+export type Frequency = 'YEARLY' | 'MONTHLY' | 'WEEKLY' | 'DAILY' | 'HOURLY' | 'MINUTELY' | 'SECONDLY';
+
+export type WeekdayCode = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export interface WeekdaySpec {
+  weekday: WeekdayCode;
+  /**
+   * Ordinal within the month or year, e.g. 2 for "second", -1 for "last"
+   */
+  n?: number;
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval?: number;
+  count?: number;
+  until?: Date;
+  byMonth?: number[];
+  byMonthDay?: number[];
+  byDay?: WeekdaySpec[];
+  bySetPos?: number[];
+  wkst?: WeekdayCode;
+}
+
+export interface RecurrenceOptions {
+  dtstart: Date;
+  timeZone?: string;
+  exdates?: Date[];
+}
+
+export interface RecurrenceSet extends RecurrenceOptions {
+  rule: RecurrenceRule;
+}
+
+const WEEKDAY_CODES: WeekdayCode[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQUENCIES: Frequency[] = ['YEARLY', 'MONTHLY', 'WEEKLY', 'DAILY', 'HOURLY', 'MINUTELY', 'SECONDLY'];
+
+const SUB_DAILY_MS: Partial<Record<Frequency, number>> = {
+  HOURLY: 60 * 60 * 1000,
+  MINUTELY: 60 * 1000,
+  SECONDLY: 1000
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stop expanding once this many years pass without an occurrence, which
+ * protects against rules that can never match (e.g. February 30th). Weekdays
+ * and leap days repeat every 400 years.
+ */
+const MAX_EMPTY_YEARS = 400;
+
+const WEEKDAY_SPEC_REGEX = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/;
+
+/**
+ * Parse a comma separated list of integers within ±max (zero excluded)
+ */
+function parseIntegerList(value: string, min: number, max: number): number[] | null {
+  const numbers = value.split(',').map(item => Number(item));
+  const valid = numbers.every(num => Number.isInteger(num) && num !== 0 && num >= min && num <= max);
+  return valid ? numbers : null;
+}
+
+/**
+ * Parse an iCalendar DATE or DATE-TIME value, e.g. 20230115 or 20230115T090000Z.
+ * Floating values are read as wall time in the given zone.
+ */
+function parseICalDate(value: string, timeZone?: string): Date | null {
+  const utc = value.endsWith('Z');
+  const text = utc ? value.slice(0, -1) : value;
+  const pattern = text.length === 8 ? 'YYYYMMDD' : 'YYYYMMDD[T]HHmmss';
+  const zone = utc ? 'UTC' : timeZone;
+  const result = parseDate(text, pattern, zone ? { strict: true, timeZone: zone } : { strict: true });
+  return result.date;
+}
+
+/**
+ * Format a date as an iCalendar UTC DATE-TIME value
+ */
+function formatICalDate(date: Date): string {
+  return formatDate(date, 'YYYYMMDD[T]HHmmss[Z]', { timeZone: 'UTC' });
+}
+
+/**
+ * Parse an RRULE value such as `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE`.
+ * Returns null for invalid rules and for rule parts this module does not
+ * support (BYHOUR, BYWEEKNO...), so they are never silently ignored.
+ */
+export function parseRRule(input: string, timeZone?: string): RecurrenceRule | null {
+  const text = input.trim().replace(/^RRULE:/i, '');
+  if (!text) return null;
+
+  const rule: Partial<RecurrenceRule> = {};
+
+  for (const part of text.split(';')) {
+    const [rawKey, value] = part.split('=');
+    const key = (rawKey || '').toUpperCase();
+    if (!value) return null;
+
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(value as Frequency)) return null;
+        rule.freq = value as Frequency;
+        break;
+      case 'INTERVAL':
+      case 'COUNT': {
+        const num = Number(value);
+        if (!Number.isInteger(num) || num < 1) return null;
+        if (key === 'INTERVAL') rule.interval = num;
+        else rule.count = num;
+        break;
+      }
+      case 'UNTIL': {
+        const until = parseICalDate(value, timeZone);
+        if (!until) return null;
+        // A date-only UNTIL includes the whole day
+        rule.until = value.length === 8 ? new Date(until.getTime() + DAY_MS - 1) : until;
+        break;
+      }
+      case 'BYMONTH': {
+        const months = parseIntegerList(value, 1, 12);
+        if (!months) return null;
+        rule.byMonth = months;
+        break;
+      }
+      case 'BYMONTHDAY': {
+        const days = parseIntegerList(value, -31, 31);
+        if (!days) return null;
+        rule.byMonthDay = days;
+        break;
+      }
+      case 'BYSETPOS': {
+        const positions = parseIntegerList(value, -366, 366);
+        if (!positions) return null;
+        rule.bySetPos = positions;
+        break;
+      }
+      case 'BYDAY': {
+        const specs: WeekdaySpec[] = [];
+        for (const item of value.split(',')) {
+          const match = WEEKDAY_SPEC_REGEX.exec(item.toUpperCase());
+          if (!match) return null;
+          const weekday = match[2] as WeekdayCode;
+          if (match[1] !== undefined) {
+            const n = parseInt(match[1], 10);
+            if (n === 0 || Math.abs(n) > 53) return null;
+            specs.push({ weekday, n });
+          } else {
+            specs.push({ weekday });
+          }
+        }
+        rule.byDay = specs;
+        break;
+      }
+      case 'WKST':
+        if (!WEEKDAY_CODES.includes(value as WeekdayCode)) return null;
+        rule.wkst = value as WeekdayCode;
+        break;
+      default:
+        return null;
+    }
+  }
+
+  if (!rule.freq || (rule.count !== undefined && rule.until !== undefined)) {
+    return null;
+  }
+
+  return rule as RecurrenceRule;
+}
+
+/**
+ * Serialize a rule to an RRULE value (without the `RRULE:` prefix)
+ */
+export function serializeRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval && rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatICalDate(rule.until)}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(spec => `${spec.n ?? ''}${spec.weekday}`).join(',')}`);
+  }
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.wkst) parts.push(`WKST=${rule.wkst}`);
+
+  return parts.join(';');
+}
+
+/**
+ * Parse an iCalendar recurrence block with DTSTART, RRULE and EXDATE lines
+ */
+export function parseRecurrence(input: string): RecurrenceSet | null {
+  let dtstart: Date | null = null;
+  let timeZone: string | undefined;
+  let ruleText: string | null = null;
+  const exdateLines: { value: string; timeZone?: string }[] = [];
+
+  for (const line of input.split(/\r?\n/).map(item => item.trim()).filter(Boolean)) {
+    const separator = line.indexOf(':');
+    if (separator === -1) return null;
+
+    const [name, ...params] = line.slice(0, separator).split(';');
+    const value = line.slice(separator + 1);
+    const tzid = params.find(param => param.toUpperCase().startsWith('TZID='))?.slice(5);
+
+    switch (name.toUpperCase()) {
+      case 'DTSTART':
+        timeZone = tzid;
+        dtstart = parseICalDate(value, tzid);
+        if (!dtstart) return null;
+        break;
+      case 'RRULE':
+        ruleText = value;
+        break;
+      case 'EXDATE':
+        value.split(',').forEach(item => exdateLines.push(tzid ? { value: item, timeZone: tzid } : { value: item }));
+        break;
+      default:
+        return null;
+    }
+  }
+
+  if (!dtstart || !ruleText) return null;
+
+  const rule = parseRRule(ruleText, timeZone);
+  if (!rule) return null;
+
+  const exdates: Date[] = [];
+  for (const exdate of exdateLines) {
+    const date = parseICalDate(exdate.value, exdate.timeZone || timeZone);
+    if (!date) return null;
+    exdates.push(date);
+  }
+
+  const set: RecurrenceSet = { rule, dtstart, exdates };
+  if (timeZone) set.timeZone = timeZone;
+  return set;
+}
+
+/**
+ * Serialize a recurrence set to DTSTART, RRULE and EXDATE lines
+ */
+export function serializeRecurrence(set: RecurrenceSet): string {
+  const lines: string[] = [];
+  const pattern = 'YYYYMMDD[T]HHmmss';
+
+  if (set.timeZone) {
+    lines.push(`DTSTART;TZID=${set.timeZone}:${formatDate(set.dtstart, pattern, { timeZone: set.timeZone })}`);
+  } else {
+    lines.push(`DTSTART:${formatICalDate(set.dtstart)}`);
+  }
+
+  lines.push(`RRULE:${serializeRRule(set.rule)}`);
+
+  if (set.exdates?.length) {
+    lines.push(`EXDATE:${set.exdates.map(formatICalDate).join(',')}`);
+  }
+
+  return lines.join('\n');
+}
+
+interface WallDay {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+}
+
+/**
+ * Get a normalized calendar day; overflowing months and days roll over
+ */
+function wallDay(year: number, month: number, day: number): WallDay {
+  const date = new Date(Date.UTC(2000, month - 1, day));
+  date.setUTCFullYear(year, month - 1, day);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday: date.getUTCDay()
+  };
+}
+
+/**
+ * Check if a day matches one BYDAY entry. Ordinals count within the month,
+ * or within the year for YEARLY rules without BYMONTH.
+ */
+function matchesWeekdaySpec(day: WallDay, spec: WeekdaySpec, yearScope: boolean): boolean {
+  if (WEEKDAY_CODES[day.weekday] !== spec.weekday) return false;
+  if (spec.n === undefined) return true;
+
+  let index: number;
+  let total: number;
+
+  if (yearScope) {
+    const dayOfYear = Math.round((Date.UTC(day.year, day.month - 1, day.day) - Date.UTC(day.year, 0, 1)) / DAY_MS);
+    const daysInYear = getDaysInMonth(day.year, 2) === 29 ? 366 : 365;
+    index = Math.floor(dayOfYear / 7) + 1;
+    total = Math.floor((daysInYear - 1 - dayOfYear) / 7) + index;
+  } else {
+    index = Math.floor((day.day - 1) / 7) + 1;
+    total = Math.floor((getDaysInMonth(day.year, day.month) - day.day) / 7) + index;
+  }
+
+  return spec.n > 0 ? spec.n === index : total + spec.n + 1 === index;
+}
+
+/**
+ * Check if a day passes the BYMONTH, BYMONTHDAY and BYDAY parts of a rule,
+ * falling back to the DTSTART day where RFC 5545 implies it
+ */
+function matchesRule(day: WallDay, rule: RecurrenceRule, start: WallDay): boolean {
+  const { freq, byMonth, byMonthDay, byDay } = rule;
+
+  if (byMonth && !byMonth.includes(day.month)) return false;
+
+  if (byMonthDay) {
+    const length = getDaysInMonth(day.year, day.month);
+    const matches = byMonthDay.some(value => (value > 0 ? value : length + value + 1) === day.day);
+    if (!matches) return false;
+  }
+
+  if (byDay) {
+    const yearScope = freq === 'YEARLY' && !byMonth;
+    const ordinals = freq === 'YEARLY' || freq === 'MONTHLY';
+    const matches = byDay.some(spec =>
+      matchesWeekdaySpec(day, ordinals ? spec : { weekday: spec.weekday }, yearScope)
+    );
+    if (!matches) return false;
+  }
+
+  if (freq === 'YEARLY' && !byMonthDay && !byDay) {
+    return day.day === start.day && (byMonth !== undefined || day.month === start.month);
+  }
+  if (freq === 'MONTHLY' && !byMonthDay && !byDay) {
+    return day.day === start.day;
+  }
+  if (freq === 'WEEKLY' && !byDay) {
+    return day.weekday === start.weekday;
+  }
+
+  return true;
+}
+
+/**
+ * Get the candidate days of the n-th period of a day-based rule
+ */
+function getPeriodDays(rule: RecurrenceRule, start: WallDay, period: number): WallDay[] {
+  const interval = rule.interval || 1;
+  const days: WallDay[] = [];
+
+  switch (rule.freq) {
+    case 'YEARLY': {
+      const year = start.year + period * interval;
+      const length = getDaysInMonth(year, 2) === 29 ? 366 : 365;
+      for (let day = 1; day <= length; day++) days.push(wallDay(year, 1, day));
+      break;
+    }
+    case 'MONTHLY': {
+      const first = wallDay(start.year, start.month + period * interval, 1);
+      const length = getDaysInMonth(first.year, first.month);
+      for (let day = 1; day <= length; day++) days.push(wallDay(first.year, first.month, day));
+      break;
+    }
+    case 'WEEKLY': {
+      const weekStart = WEEKDAY_CODES.indexOf(rule.wkst || 'MO');
+      const offset = (start.weekday - weekStart + 7) % 7;
+      const firstDay = start.day - offset + period * interval * 7;
+      for (let day = 0; day < 7; day++) days.push(wallDay(start.year, start.month, firstDay + day));
+      break;
+    }
+    default:
+      days.push(wallDay(start.year, start.month, start.day + period * interval));
+  }
+
+  return days;
+}
+
+/**
+ * Apply BYSETPOS to the sorted occurrences of one period
+ */
+function applySetPos<T>(items: T[], positions?: number[]): T[] {
+  if (!positions) return items;
+
+  const selected = new Set<number>();
+  for (const position of positions) {
+    const index = position > 0 ? position - 1 : items.length + position;
+    if (index >= 0 && index < items.length) selected.add(index);
+  }
+
+  return items.filter((_, index) => selected.has(index));
+}
+
+/**
+ * Lazily expand a recurrence rule into occurrences, starting at DTSTART.
+ * Wall-clock times are kept in `timeZone` (or the host zone) across DST
+ * changes. COUNT includes excluded dates, as RFC 5545 requires.
+ */
+export function* iterateRRule(rule: RecurrenceRule, options: RecurrenceOptions): Generator<Date> {
+  const { dtstart, timeZone } = options;
+  const excluded = new Set((options.exdates || []).map(date => date.getTime()));
+  const startParts = getDateParts(dtstart, timeZone);
+  const start = wallDay(startParts.year, startParts.month, startParts.day);
+  const stepMs = SUB_DAILY_MS[rule.freq];
+
+  const startTime = new Date(0);
+  startTime.setUTCFullYear(startParts.year, startParts.month - 1, startParts.day);
+  startTime.setUTCHours(startParts.hours, startParts.minutes, startParts.seconds, 0);
+
+  let produced = 0;
+  let lastMatch = Date.UTC(start.year, start.month - 1, start.day);
+
+  for (let period = 0; ; period++) {
+    let occurrences: Date[];
+    let firstDay: WallDay;
+
+    if (stepMs) {
+      const step = (rule.interval || 1) * stepMs;
+      const wallTime = new Date(startTime.getTime() + period * step);
+      const day = wallDay(wallTime.getUTCFullYear(), wallTime.getUTCMonth() + 1, wallTime.getUTCDate());
+      firstDay = day;
+
+      if (matchesRule(day, rule, start)) {
+        occurrences = [fromDateParts({
+          year: day.year,
+          month: day.month,
+          day: day.day,
+          hours: wallTime.getUTCHours(),
+          minutes: wallTime.getUTCMinutes(),
+          seconds: wallTime.getUTCSeconds(),
+          milliseconds: startParts.milliseconds
+        }, timeZone)];
+      } else {
+        // No other time on this day matches either: go on with the next day
+        const nextDay = Date.UTC(day.year, day.month - 1, day.day + 1);
+        period += Math.ceil((nextDay - wallTime.getTime()) / step) - 1;
+        occurrences = [];
+      }
+    } else {
+      const candidates = getPeriodDays(rule, start, period);
+      firstDay = candidates[0];
+      const days = candidates.filter(day => matchesRule(day, rule, start));
+      occurrences = days.map(day => fromDateParts({ ...startParts, ...day }, timeZone));
+    }
+
+    occurrences = applySetPos(occurrences, rule.bySetPos);
+
+    const periodStart = Date.UTC(firstDay.year, firstDay.month - 1, firstDay.day);
+    if (occurrences.length > 0) {
+      lastMatch = periodStart;
+    } else if (periodStart - lastMatch > MAX_EMPTY_YEARS * 366 * DAY_MS) {
+      return;
+    }
+
+    for (const occurrence of occurrences) {
+      if (occurrence.getTime() < dtstart.getTime()) continue;
+      if (rule.until && occurrence.getTime() > rule.until.getTime()) return;
+      if (rule.count !== undefined && produced >= rule.count) return;
+
+      produced++;
+      if (!excluded.has(occurrence.getTime())) {
+        yield occurrence;
+      }
+    }
+  }
+}
+
+/**
+ * Get all occurrences of a rule between two dates (inclusive)
+ */
+export function getOccurrencesBetween(
+  rule: RecurrenceRule,
+  after: Date,
+  before: Date,
+  options: RecurrenceOptions
+): Date[] {
+  const occurrences: Date[] = [];
+
+  for (const occurrence of iterateRRule(rule, options)) {
+    if (occurrence.getTime() > before.getTime()) break;
+    if (occurrence.getTime() >= after.getTime()) {
+      occurrences.push(occurrence);
+    }
+  }
+
+  return occurrences;
+}
@@ -2,115 +2,1212 @@
  * Storage utility functions with JSON serialization
  */
 
+import { Encryptor, EncryptionOptions, CryptoError } from './crypto';
+import {
+  CompressionMethod,
+  compressToUTF16,
+  decompressFromUTF16,
+  deflateToUTF16,
+  inflateFromUTF16,
+  isCompressionStreamSupported
+} from './compression';
+import type { SchemaType } from './validation';
+import { CookieJar, CookieOptions, createDocumentCookieJar } from './cookie';
+
+export interface StorageCompression {
+  method: CompressionMethod;
+  /**
+   * Length of the serialized value before compression
+   */
+  rawSize: number;
+}
+
 /**
- * Safe localStorage wrapper with JSON serialization
+ * Envelope stored for every value, with creation and expiry times in ms
  */
-export class LocalStorage {
+export interface StorageItem<T = any> {
+  value: T;
+  timestamp: number;
+  expiry?: number;
+  /**
+   * Set when `value` holds the compressed serialized value
+   */
+  compression?: StorageCompression;
+  /**
+   * Eviction priority given with `set`
+   */
+  priority?: number;
+  /**
+   * Last read time in ms, tracked by stores using the `lru` eviction policy
+   */
+  accessed?: number;
+  /**
+   * Shape version of the value, for keys with a versioned definition
+   */
+  version?: number;
+}
+
+/**
+ * Subset of the Web Storage API a store can be backed by
+ */
+export interface StorageBackend {
+  readonly length: number;
+  key(index: number): string | null;
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  clear(): void;
+}
+
+export type StorageBackendName = 'local' | 'session' | 'memory';
+
+export interface StoreOptions {
+  /**
+   * Namespace prepended to every key, e.g. `app:`
+   */
+  prefix?: string;
+  backend?: StorageBackendName | StorageBackend;
+  /**
+   * Time to live in ms for values set without their own `ttl`
+   */
+  defaultTTL?: number;
+  /**
+   * Encrypt values with AES-GCM; encrypted stores are read and written
+   * with `getAsync`/`setAsync`
+   */
+  encryption?: EncryptionOptions;
+  /**
+   * Compress large values; `true` uses the default threshold
+   */
+  compression?: boolean | CompressionOptions;
+  /**
+   * Remove this store's entries by the policy to make room when a write
+   * exceeds the quota, then retry
+   */
+  eviction?: EvictionPolicy;
+  /**
+   * Versioned key definitions for this store, on top of those registered
+   * with `defineStorageVersion`
+   */
+  versions?: Record<string, VersionedKeyOptions>;
+}
+
+/**
+ * Upgrade a value from one version to the next
+ */
+export type StorageMigration = (value: any) => any;
+
+export interface VersionedKeyOptions<T = any> {
+  /**
+   * Version stamped on written values (default 1)
+   */
+  version?: number;
+  /**
+   * Transforms keyed by the version they upgrade from, e.g.
+   * `{ 1: v1 => v2, 2: v2 => v3 }`; values without a version count as 1
+   */
+  migrations?: Record<number, StorageMigration>;
+  /**
+   * Checked after migrating; values that fail read as `defaultValue`
+   */
+  schema?: SchemaType<T>;
+  defaultValue?: T;
+}
+
+export type StorageMigrationStatus = 'migrated' | 'invalid' | 'failed';
+
+export interface StorageMigrationRecord {
+  /**
+   * Backend key, including the store's prefix
+   */
+  key: string;
+  from: number;
+  to: number;
+  status: StorageMigrationStatus;
+  /**
+   * Why a migration failed or which values were invalid
+   */
+  error?: string;
+  timestamp: number;
+}
+
+export interface StorageMigrationReport {
+  migrated: number;
+  invalid: number;
+  failed: number;
+  records: StorageMigrationRecord[];
+}
+
+/**
+ * `lru` evicts the least recently read entries, `oldest` the least recently
+ * written and `priority` those with the lowest `priority` (oldest first
+ * among equals). Expired entries always go first.
+ */
+export type EvictionPolicy = 'lru' | 'oldest' | 'priority';
+
+/**
+ * Emitted whenever a write exceeds the storage quota
+ */
+export interface StorageQuotaEvent {
+  /**
+   * Backend key that was written, including the store's prefix
+   */
+  key: string;
+  /**
+   * Characters the write needed
+   */
+  size: number;
+  policy: EvictionPolicy | null;
+  /**
+   * Backend keys removed to make room
+   */
+  evicted: string[];
+  /**
+   * Whether the write succeeded after eviction
+   */
+  recovered: boolean;
+  /**
+   * Origin usage and quota from `navigator.storage.estimate()`, if available
+   */
+  estimate: StorageEstimate | null;
+  timestamp: number;
+}
+
+export interface CompressionOptions {
+  /**
+   * Minimum serialized length, in characters, before a value is compressed
+   */
+  threshold?: number;
+  /**
+   * Use CompressionStream (deflate) in `setAsync` where available; values
+   * written this way can only be read with `getAsync`
+   */
+  useCompressionStream?: boolean;
+}
+
+export interface StorageSizeReport {
+  /**
+   * Characters taken by keys and stored values
+   */
+  size: number;
+  /**
+   * Characters the same entries would take without compression
+   */
+  rawSize: number;
+  items: number;
+  compressedItems: number;
+}
+
+export interface StoreSetOptions {
+  /**
+   * Time to live in ms; null stores the value without expiry
+   */
+  ttl?: number | null;
+  /**
+   * Eviction priority; the `priority` policy evicts lower values first
+   * (default 0)
+   */
+  priority?: number;
+}
+
+/**
+ * Change delivered to `subscribe` listeners
+ */
+export interface StorageChangeEvent<T = any> {
+  /**
+   * Key without the store's prefix
+   */
+  key: string;
+  /**
+   * New value, or null if it was removed
+   */
+  value: T | null;
+  /**
+   * `local` for writes from this document, `remote` for other tabs and contexts
+   */
+  source: 'local' | 'remote';
+}
+
+export type StorageChangeListener<T = any> = (value: T | null, event: StorageChangeEvent<T>) => void;
+
+/**
+ * In-memory backend, used on the server and where Web Storage is blocked
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return this.items.has(key) ? this.items.get(key)! : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+}
+
+type ChangeSource = StorageChangeEvent['source'];
+
+/**
+ * Subscription callbacks by `<backend name>:<backend key>`; each re-reads
+ * its value and ignores notifications that changed nothing
+ */
+const changeSubscriptions = new Map<string, Set<(source: ChangeSource) => void>>();
+const CHANGE_CHANNEL = 'support-js-storage';
+let changeChannel: BroadcastChannel | null = null;
+let listeningForChanges = false;
+
+/**
+ * Run the subscriptions for a backend key; a null key means the backend
+ * was cleared
+ */
+function notifyChange(area: string, storageKey: string | null, source: ChangeSource): void {
+  changeSubscriptions.forEach((callbacks, id) => {
+    if (storageKey === null ? id.startsWith(`${area}:`) : id === `${area}:${storageKey}`) {
+      callbacks.forEach(callback => callback(source));
+    }
+  });
+}
+
+function getChangeChannel(): BroadcastChannel | null {
+  if (!changeChannel && typeof BroadcastChannel !== 'undefined') {
+    changeChannel = new BroadcastChannel(CHANGE_CHANNEL);
+    changeChannel.onmessage = (event: MessageEvent<{ key: string | null }>) => {
+      notifyChange('local', event.data.key, 'remote');
+    };
+  }
+  return changeChannel;
+}
+
+/**
+ * Listen for writes from other tabs (the `storage` event) and other
+ * contexts of this origin (BroadcastChannel)
+ */
+function listenForChanges(): void {
+  if (listeningForChanges || typeof window === 'undefined') return;
+  listeningForChanges = true;
+
+  window.addEventListener('storage', event => {
+    let areas = ['local', 'session'];
+    try {
+      if (event.storageArea === localStorage) areas = ['local'];
+      else if (event.storageArea === sessionStorage) areas = ['session'];
+    } catch {
+      // Storage access denied; check both areas
+    }
+    areas.forEach(area => notifyChange(area, event.key, 'remote'));
+  });
+
+  getChangeChannel();
+}
+
+/**
+ * Notify this document's subscribers of a write, and other contexts for
+ * localStorage (sessionStorage is private to the tab)
+ */
+function announceChange(area: string, storageKey: string | null): void {
+  notifyChange(area, storageKey, 'local');
+  if (area === 'local') getChangeChannel()?.postMessage({ key: storageKey });
+}
+
+const versionedKeys = new Map<string, VersionedKeyOptions>();
+const migrationRecords: StorageMigrationRecord[] = [];
+const MAX_MIGRATION_RECORDS = 100;
+let migrationCount = 0;
+
+/**
+ * Register the version, migrations and schema of a key for every store
+ * (keys are matched without the store's prefix)
+ */
+export function defineStorageVersion<T>(key: string, options: VersionedKeyOptions<T>): void {
+  versionedKeys.set(key, options);
+}
+
+/**
+ * Get the outcome of migrations and validations since the page loaded
+ * (the latest 100 records)
+ */
+export function getStorageMigrationReport(): StorageMigrationReport {
+  const count = (status: StorageMigrationStatus): number =>
+    migrationRecords.filter(record => record.status === status).length;
+
+  return {
+    migrated: count('migrated'),
+    invalid: count('invalid'),
+    failed: count('failed'),
+    records: [...migrationRecords]
+  };
+}
+
+export function clearStorageMigrationReport(): void {
+  migrationRecords.length = 0;
+}
+
+function recordMigration(record: StorageMigrationRecord): void {
+  migrationRecords.push(record);
+  migrationCount++;
+  if (migrationRecords.length > MAX_MIGRATION_RECORDS) migrationRecords.shift();
+}
+
+const ENVELOPE_KEYS = ['value', 'timestamp', 'expiry', 'compression', 'priority', 'accessed', 'version'];
+
+/**
+ * Check if parsed JSON is a StorageItem envelope rather than a raw value
+ * written before envelopes were introduced
+ */
+function isStorageItem(value: unknown): value is StorageItem {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+
+  const keys = Object.keys(value);
+  return (
+    keys.includes('value') &&
+    typeof (value as StorageItem).timestamp === 'number' &&
+    keys.every(key => ENVELOPE_KEYS.includes(key))
+  );
+}
+
+/**
+ * Check if an error means the storage quota was exceeded
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+
+  const { name, code } = error as { name?: string; code?: number };
+  // Legacy WebKit/Blink code 22, Firefox code 1014 and name
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22 || code === 1014;
+}
+
+/**
+ * Get the origin's storage usage and quota, or null where the Storage API
+ * is not supported
+ */
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  try {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+    return await navigator.storage.estimate();
+  } catch {
+    return null;
+  }
+}
+
+type StorageQuotaListener = (event: StorageQuotaEvent) => void;
+
+const quotaListeners = new Set<StorageQuotaListener>();
+
+/**
+ * Listen for writes exceeding the storage quota, e.g. to record them in
+ * telemetry; returns a function that removes the listener
+ */
+export function onStorageQuotaExceeded(listener: StorageQuotaListener): () => void {
+  quotaListeners.add(listener);
+  return () => {
+    quotaListeners.delete(listener);
+  };
+}
+
+/**
+ * Notify listeners once the storage estimate has been queried
+ */
+function emitQuotaEvent(event: Omit<StorageQuotaEvent, 'estimate'>): void {
+  if (quotaListeners.size === 0) return;
+
+  getStorageEstimate().then(estimate => {
+    quotaListeners.forEach(listener => {
+      try {
+        listener({ ...event, estimate });
+      } catch (error) {
+        console.warn('Storage quota listener failed:', error);
+      }
+    });
+  });
+}
+
+/**
+ * Namespaced key/value store that wraps values in StorageItem envelopes.
+ * Expired values are removed when read, or all at once by `sweep`.
+ */
+export class Store {
+  private readonly prefix: string;
+  private readonly backend: StorageBackendName | StorageBackend;
+  private readonly defaultTTL: number | null;
+  private readonly encryptor: Encryptor | null;
+  private readonly compression: Required<CompressionOptions> | null;
+  private readonly eviction: EvictionPolicy | null;
+  private readonly versions: Record<string, VersionedKeyOptions>;
+
+  constructor(options: StoreOptions = {}) {
+    this.prefix = options.prefix ?? '';
+    this.backend = options.backend === 'memory' ? new MemoryStorageBackend() : options.backend ?? 'local';
+    this.defaultTTL = options.defaultTTL ?? null;
+    this.encryptor = options.encryption ? new Encryptor(options.encryption) : null;
+    this.compression = options.compression
+      ? { threshold: 1024, useCompressionStream: false, ...(options.compression === true ? {} : options.compression) }
+      : null;
+    this.eviction = options.eviction ?? null;
+    this.versions = options.versions ?? {};
+  }
+
+  /**
+   * Resolve the backend on every access so stores can be created before
+   * (or without) a browser environment
+   */
+  private getBackend(): StorageBackend | null {
+    if (typeof this.backend === 'object') return this.backend;
+
+    try {
+      if (this.backend === 'session') {
+        return typeof sessionStorage !== 'undefined' ? sessionStorage : null;
+      }
+      return typeof localStorage !== 'undefined' ? localStorage : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Backend keys belonging to this store's namespace
+   */
+  private getBackendKeys(backend: StorageBackend): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < backend.length; i++) {
+      const key = backend.key(i);
+      if (key !== null && key.startsWith(this.prefix)) keys.push(key);
+    }
+    return keys;
+  }
+
+  /**
+   * Read an envelope, removing it if it has expired
+   */
+  private read<T>(backend: StorageBackend, storageKey: string): StorageItem<T> | null {
+    const raw = backend.getItem(storageKey);
+    if (raw === null) return null;
+
+    const parsed = JSON.parse(raw);
+    if (!isStorageItem(parsed)) return { value: parsed as T, timestamp: 0 };
+
+    if (parsed.expiry !== undefined && parsed.expiry <= Date.now()) {
+      backend.removeItem(storageKey);
+      return null;
+    }
+
+    return parsed as StorageItem<T>;
+  }
+
+  private assertNotEncrypted(method: string): void {
+    if (this.encryptor) {
+      throw new Error(`Store is encrypted; use ${method}Async() instead of ${method}()`);
+    }
+  }
+
+  /**
+   * Wrap a value in an envelope and write it
+   */
+  private write<T>(key: string, value: T, options: StoreSetOptions, compression?: StorageCompression): void {
+    const backend = this.getBackend();
+    if (!backend) throw new Error('Storage backend is not available');
+
+    const ttl = options.ttl === undefined ? this.defaultTTL : options.ttl;
+    const timestamp = Date.now();
+    const item: StorageItem<T> = ttl === null ? { value, timestamp } : { value, timestamp, expiry: timestamp + ttl };
+    if (compression) item.compression = compression;
+    if (options.priority !== undefined) item.priority = options.priority;
+    const definition = this.getVersionedKey(key);
+    if (definition) item.version = definition.version ?? 1;
+
+    this.setWithEviction(backend, this.prefix + key, JSON.stringify(item));
+    announceChange(this.getArea(), this.prefix + key);
+  }
+
+  /**
+   * Name used to match change notifications; custom backends only notify
+   * within this document
+   */
+  private getArea(): string {
+    return typeof this.backend === 'string' ? this.backend : 'custom';
+  }
+
+  /**
+   * Write to the backend. On quota errors, evict entries by the store's
+   * policy until the write fits; throws if it never does.
+   */
+  private setWithEviction(backend: StorageBackend, storageKey: string, serialized: string): void {
+    let quotaError: unknown;
+    const tryWrite = (): boolean => {
+      try {
+        backend.setItem(storageKey, serialized);
+        return true;
+      } catch (error) {
+        if (!isQuotaExceededError(error)) throw error;
+        quotaError = error;
+        return false;
+      }
+    };
+
+    if (tryWrite()) return;
+
+    const evicted: string[] = [];
+    let recovered = false;
+    if (this.eviction) {
+      this.sweep();
+      const candidates = this.getEvictionCandidates(backend, storageKey);
+
+      while (!(recovered = tryWrite()) && candidates.length > 0) {
+        const candidate = candidates.shift()!;
+        backend.removeItem(candidate);
+        evicted.push(candidate);
+      }
+    }
+
+    emitQuotaEvent({
+      key: storageKey,
+      size: storageKey.length + serialized.length,
+      policy: this.eviction,
+      evicted,
+      recovered,
+      timestamp: Date.now()
+    });
+
+    if (!recovered) throw quotaError;
+  }
+
+  /**
+   * This store's backend keys in the order the eviction policy removes them
+   */
+  private getEvictionCandidates(backend: StorageBackend, exceptKey: string): string[] {
+    const entries = this.getBackendKeys(backend)
+      .filter(key => key !== exceptKey)
+      .map(key => {
+        let item: StorageItem = { value: null, timestamp: 0 };
+        try {
+          const parsed = JSON.parse(backend.getItem(key) || 'null');
+          if (isStorageItem(parsed)) item = parsed;
+        } catch {
+          // Entries that are not JSON are evicted first
+        }
+        return { key, item };
+      });
+
+    const byTimestamp = (a: StorageItem, b: StorageItem): number => a.timestamp - b.timestamp;
+    const compare: Record<EvictionPolicy, (a: StorageItem, b: StorageItem) => number> = {
+      lru: (a, b) => (a.accessed ?? a.timestamp) - (b.accessed ?? b.timestamp),
+      oldest: byTimestamp,
+      priority: (a, b) => (a.priority ?? 0) - (b.priority ?? 0) || byTimestamp(a, b)
+    };
+
+    return entries.sort((a, b) => compare[this.eviction!](a.item, b.item)).map(entry => entry.key);
+  }
+
+  /**
+   * Check if a serialized value is large enough to compress
+   */
+  private shouldCompress(serialized: string | undefined): serialized is string {
+    return this.compression !== null && serialized !== undefined && serialized.length >= this.compression.threshold;
+  }
+
+  /**
+   * Set a value, expiring after `ttl` ms or the store's default TTL
+   */
+  set<T>(key: string, value: T, options: StoreSetOptions = {}): boolean {
+    this.assertNotEncrypted('set');
+
+    try {
+      const serialized = this.compression ? JSON.stringify(value) : undefined;
+      if (this.shouldCompress(serialized)) {
+        const compressed = compressToUTF16(serialized);
+        if (compressed.length < serialized.length) {
+          this.write(key, compressed, options, { method: 'lz', rawSize: serialized.length });
+          return true;
+        }
+      }
+
+      this.write(key, value, options);
+      return true;
+    } catch (error) {
+      console.warn('Failed to set storage item:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Set a value, encrypting it if the store is encrypted and compressing
+   * it with CompressionStream if configured
+   */
+  async setAsync<T>(key: string, value: T, options: StoreSetOptions = {}): Promise<boolean> {
+    if (!this.encryptor && !this.compression?.useCompressionStream) return this.set(key, value, options);
+
+    try {
+      let serialized = JSON.stringify(value);
+      let compression: StorageCompression | undefined;
+
+      if (this.shouldCompress(serialized)) {
+        const method: CompressionMethod =
+          this.compression!.useCompressionStream && isCompressionStreamSupported() ? 'deflate' : 'lz';
+        const compressed = method === 'deflate' ? await deflateToUTF16(serialized) : compressToUTF16(serialized);
+        if (compressed.length < serialized.length) {
+          compression = { method, rawSize: serialized.length };
+          serialized = compressed;
+        }
+      }
+
+      if (this.encryptor) {
+        this.write(key, await this.encryptor.encrypt(serialized, this.prefix + key), options, compression);
+      } else {
+        this.write(key, compression ? serialized : value, options, compression);
+      }
+      return true;
+    } catch (error) {
+      console.warn('Failed to set storage item:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get a value, or null if it is missing or expired
+   */
+  get<T>(key: string): T | null {
+    const item = this.getItem<T>(key);
+    return item ? item.value : this.getDefault<T>(key);
+  }
+
+  /**
+   * Get a value, decrypting it if the store is encrypted. Rejects with a
+   * CryptoError if an encrypted value cannot be authenticated.
+   */
+  async getAsync<T>(key: string): Promise<T | null> {
+    const item = await this.getItemAsync<T>(key);
+    return item ? item.value : this.getDefault<T>(key);
+  }
+
+  /**
+   * Get a value's envelope. Values written without one report a timestamp
+   * of 0. Values of versioned keys are migrated (and written back) and
+   * validated; unusable values read as null.
+   */
+  getItem<T>(key: string): StorageItem<T> | null {
+    this.assertNotEncrypted('getItem');
+
+    const item = this.decodeItem<T>(key, this.readItem<string>(key, true));
+    const upgraded = this.upgrade(key, item);
+    if (upgraded && upgraded !== item) this.set(key, upgraded.value, this.getRewriteOptions(upgraded));
+    return upgraded;
+  }
+
+  private getVersionedKey(key: string): VersionedKeyOptions | undefined {
+    return this.versions[key] ?? versionedKeys.get(key);
+  }
+
+  private getDefault<T>(key: string): T | null {
+    const defaultValue = this.getVersionedKey(key)?.defaultValue;
+    return defaultValue === undefined ? null : (defaultValue as T);
+  }
+
+  /**
+   * Options that keep an entry's expiry and priority when rewriting it
+   */
+  private getRewriteOptions(item: StorageItem): StoreSetOptions {
+    return {
+      ttl: item.expiry === undefined ? null : Math.max(item.expiry - Date.now(), 0),
+      ...(item.priority !== undefined && { priority: item.priority })
+    };
+  }
+
+  /**
+   * Run pending migrations and the schema of a versioned key. Returns the
+   * same item if nothing changed, and null (recording why) if the value
+   * cannot be used.
+   */
+  private upgrade<T>(key: string, item: StorageItem<T> | null): StorageItem<T> | null {
+    const definition = this.getVersionedKey(key);
+    if (!item || !definition) return item;
+
+    const from = item.version ?? 1;
+    const to = definition.version ?? 1;
+    const record = (status: StorageMigrationStatus, error?: string): void => {
+      recordMigration({ key: this.prefix + key, from, to, status, ...(error && { error }), timestamp: Date.now() });
+    };
+
+    let value: any = item.value;
+    try {
+      if (from > to) throw new Error(`Stored version ${from} is newer than version ${to}`);
+      for (let version = from; version < to; version++) {
+        const migration = definition.migrations?.[version];
+        if (!migration) throw new Error(`No migration from version ${version}`);
+        value = migration(value);
+      }
+    } catch (error) {
+      record('failed', error instanceof Error ? error.message : String(error));
+      return null;
+    }
+
+    if (definition.schema) {
+      const result = definition.schema.parse(value);
+      if (!result.isValid) {
+        const errors = Object.entries(result.errors).map(([path, messages]) => `${path || 'value'}: ${messages[0]}`);
+        record('invalid', errors.join('; '));
+        return null;
+      }
+    }
+
+    if (from === to) return item;
+    record('migrated');
+    return { ...item, value, version: to };
+  }
+
+  /**
+   * Decompress an envelope read synchronously
+   */
+  private decodeItem<T>(key: string, item: StorageItem<string> | null): StorageItem<T> | null {
+    if (!item?.compression) return item as StorageItem<T> | null;
+    if (item.compression.method !== 'lz') {
+      throw new Error(`Value of "${key}" was compressed with CompressionStream; use getItemAsync() instead of getItem()`);
+    }
+
+    return this.decode<T>(item, decompressFromUTF16(item.value));
+  }
+
+  /**
+   * Get a value's envelope, decrypting and decompressing the value as needed
+   */
+  async getItemAsync<T>(key: string): Promise<StorageItem<T> | null> {
+    const item = await this.decodeItemAsync<T>(key, this.readItem<string>(key, true));
+    const upgraded = this.upgrade(key, item);
+    if (upgraded && upgraded !== item) await this.setAsync(key, upgraded.value, this.getRewriteOptions(upgraded));
+    return upgraded;
+  }
+
+  /**
+   * Read every stored versioned key so pending migrations run now (e.g. at
+   * startup) rather than on first use; returns the records produced
+   */
+  async migrate(): Promise<StorageMigrationRecord[]> {
+    const backend = this.getBackend();
+    if (!backend) return [];
+
+    const stored = new Set(this.getBackendKeys(backend));
+    const keys = Array.from(versionedKeys.keys()).concat(Object.keys(this.versions).filter(key => !versionedKeys.has(key)));
+    const start = migrationCount;
+
+    for (const key of keys) {
+      if (!stored.has(this.prefix + key)) continue;
+      try {
+        await this.getItemAsync(key);
+      } catch (error) {
+        console.warn(`Failed to migrate storage item "${key}":`, error);
+      }
+    }
+
+    const produced = Math.min(migrationCount - start, migrationRecords.length);
+    return produced > 0 ? migrationRecords.slice(-produced) : [];
+  }
+
+  /**
+   * Decrypt and decompress an envelope
+   */
+  private async decodeItemAsync<T>(key: string, item: StorageItem<string> | null): Promise<StorageItem<T> | null> {
+    if (!item) return null;
+
+    let serialized: string | null;
+    if (this.encryptor) {
+      if (item.timestamp === 0) {
+        throw new CryptoError('INVALID_PAYLOAD', `Value of "${key}" is not encrypted`);
+      }
+      serialized = await this.encryptor.decrypt(item.value, this.prefix + key);
+    } else if (item.compression) {
+      serialized = item.value;
+    } else {
+      return item as StorageItem<any>;
+    }
+
+    if (item.compression) {
+      serialized = item.compression.method === 'deflate'
+        ? await inflateFromUTF16(serialized).catch(() => null)
+        : decompressFromUTF16(serialized);
+    }
+
+    return this.decode<T>(item, serialized);
+  }
+
   /**
-   * Set item in localStorage with JSON serialization
+   * Replace an envelope's serialized value with the parsed value
    */
-  static set<T>(key: string, value: T): boolean {
+  private decode<T>(item: StorageItem<string>, serialized: string | null): StorageItem<T> | null {
     try {
-      const serializedValue = JSON.stringify(value);
-      localStorage.setItem(key, serializedValue);
-      return true;
+      if (serialized === null) throw new Error('Compressed value is corrupt');
+      return { ...item, value: JSON.parse(serialized) as T };
     } catch (error) {
-      console.warn('Failed to set localStorage item:', error);
-      return false;
+      console.warn('Failed to get storage item:', error);
+      return null;
     }
   }
 
   /**
-   * Get item from localStorage with JSON deserialization
+   * Re-encrypt values written with an older key, returning how many were
+   * rewritten. Values that fail to decrypt are left in place.
    */
-  static get<T>(key: string): T | null {
+  async rotate(): Promise<number> {
+    const encryptor = this.encryptor;
+    const backend = this.getBackend();
+    if (!encryptor || !backend) return 0;
+
+    let rotated = 0;
+    for (const storageKey of this.getBackendKeys(backend)) {
+      const key = storageKey.slice(this.prefix.length);
+      try {
+        const item = this.read<string>(backend, storageKey);
+        if (!item || item.timestamp === 0 || !encryptor.needsRotation(item.value)) continue;
+
+        const plaintext = await encryptor.decrypt(item.value, storageKey);
+        const payload = await encryptor.encrypt(plaintext, storageKey);
+        backend.setItem(storageKey, JSON.stringify({ ...item, value: payload }));
+        rotated++;
+      } catch (error) {
+        console.warn(`Failed to rotate storage item "${key}":`, error);
+      }
+    }
+    return rotated;
+  }
+
+  /**
+   * Read an envelope; `touch` records the access for LRU eviction
+   */
+  private readItem<T>(key: string, touch = false): StorageItem<T> | null {
     try {
-      const item = localStorage.getItem(key);
-      if (item === null) return null;
-      return JSON.parse(item) as T;
+      const backend = this.getBackend();
+      if (!backend) return null;
+
+      const item = this.read<T>(backend, this.prefix + key);
+      if (touch && item && item.timestamp !== 0 && this.eviction === 'lru') {
+        try {
+          backend.setItem(this.prefix + key, JSON.stringify({ ...item, accessed: Date.now() }));
+        } catch {
+          // Not worth failing a read over
+        }
+      }
+      return item;
     } catch (error) {
-      console.warn('Failed to get localStorage item:', error);
+      console.warn('Failed to get storage item:', error);
       return null;
     }
   }
 
   /**
-   * Get item with default value
+   * Get a value with default value
    */
-  static getWithDefault<T>(key: string, defaultValue: T): T {
+  getWithDefault<T>(key: string, defaultValue: T): T {
     const value = this.get<T>(key);
     return value !== null ? value : defaultValue;
   }
 
   /**
-   * Remove item from localStorage
+   * Check if a non-expired value exists
    */
-  static remove(key: string): boolean {
+  has(key: string): boolean {
+    return this.readItem(key) !== null;
+  }
+
+  /**
+   * Remove a value
+   */
+  remove(key: string): boolean {
     try {
-      localStorage.removeItem(key);
+      this.getBackend()?.removeItem(this.prefix + key);
+      announceChange(this.getArea(), this.prefix + key);
       return true;
     } catch (error) {
-      console.warn('Failed to remove localStorage item:', error);
+      console.warn('Failed to remove storage item:', error);
       return false;
     }
   }
 
   /**
-   * Clear all localStorage items
+   * Remove every value in this store's namespace; a store without prefix
+   * clears the whole backend
    */
-  static clear(): boolean {
+  clear(): boolean {
     try {
-      localStorage.clear();
+      const backend = this.getBackend();
+      if (!backend) return true;
+
+      if (this.prefix) {
+        this.getBackendKeys(backend).forEach(key => {
+          backend.removeItem(key);
+          announceChange(this.getArea(), key);
+        });
+      } else {
+        backend.clear();
+        announceChange(this.getArea(), null);
+      }
       return true;
     } catch (error) {
-      console.warn('Failed to clear localStorage:', error);
+      console.warn('Failed to clear storage:', error);
       return false;
     }
   }
 
   /**
-   * Check if localStorage is available
+   * Call `listener` whenever the value changes, whether written by this
+   * document, another tab or another store; returns an unsubscribe function
    */
-  static isAvailable(): boolean {
-    try {
-      const testKey = '__test__';
-      localStorage.setItem(testKey, 'test');
-      localStorage.removeItem(testKey);
-      return true;
-    } catch {
-      return false;
-    }
+  subscribe<T>(key: string, listener: StorageChangeListener<T>): () => void {
+    const storageKey = this.prefix + key;
+    const id = `${this.getArea()}:${storageKey}`;
+
+    // Compare entries without the LRU access time so reads don't notify
+    const fingerprint = (): string | null => {
+      try {
+        const raw = this.getBackend()?.getItem(storageKey) ?? null;
+        const parsed = raw === null ? null : JSON.parse(raw);
+        return isStorageItem(parsed) ? JSON.stringify({ ...parsed, accessed: undefined }) : raw;
+      } catch {
+        return null;
+      }
+    };
+
+    let last = fingerprint();
+    const callback = (source: ChangeSource): void => {
+      const current = fingerprint();
+      if (current === last) return;
+      last = current;
+
+      const deliver = (item: StorageItem<T> | null): void => {
+        const upgraded = this.upgrade(key, item);
+        const value = upgraded ? upgraded.value : item ? this.getDefault<T>(key) : null;
+        listener(value, { key, value, source });
+      };
+      const item = this.readItem<string>(key);
+
+      if (!this.encryptor && item?.compression?.method !== 'deflate') {
+        deliver(this.decodeItem<T>(key, item));
+      } else {
+        this.decodeItemAsync<T>(key, item).then(deliver, error => {
+          console.warn('Failed to read changed storage item:', error);
+        });
+      }
+    };
+
+    if (!changeSubscriptions.has(id)) changeSubscriptions.set(id, new Set());
+    changeSubscriptions.get(id)!.add(callback);
+    listenForChanges();
+
+    return () => {
+      const callbacks = changeSubscriptions.get(id);
+      callbacks?.delete(callback);
+      if (callbacks?.size === 0) changeSubscriptions.delete(id);
+    };
   }
 
   /**
-   * Get all keys in localStorage
+   * Get the keys of non-expired values, without the prefix
    */
-  static getKeys(): string[] {
+  getKeys(): string[] {
     try {
-      return Object.keys(localStorage);
+      const backend = this.getBackend();
+      if (!backend) return [];
+
+      return this.getBackendKeys(backend)
+        .filter(key => {
+          try {
+            return this.read(backend, key) !== null;
+          } catch {
+            return true;
+          }
+        })
+        .map(key => key.slice(this.prefix.length));
     } catch {
       return [];
     }
   }
 
   /**
-   * Get storage size in bytes (approximate)
+   * Remove all expired values, returning how many were removed
+   */
+  sweep(): number {
+    const backend = this.getBackend();
+    if (!backend) return 0;
+
+    let removed = 0;
+    for (const key of this.getBackendKeys(backend)) {
+      try {
+        if (this.read(backend, key) === null) removed++;
+      } catch {
+        // Leave values that are not JSON alone
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Sweep expired values periodically; returns a function that stops it
+   */
+  startSweep(intervalMs = 60000): () => void {
+    const timer = setInterval(() => this.sweep(), intervalMs);
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Get the size of this store's keys and values in bytes (approximate)
+   */
+  getSize(): number {
+    return this.getSizeReport().size;
+  }
+
+  /**
+   * Get stored and uncompressed sizes of this store's entries
    */
-  static getSize(): number {
+  getSizeReport(): StorageSizeReport {
+    const report: StorageSizeReport = { size: 0, rawSize: 0, items: 0, compressedItems: 0 };
+
     try {
-      let total = 0;
-      for (const key in localStorage) {
-        if (localStorage.hasOwnProperty(key)) {
-          total += localStorage[key].length + key.length;
+      const backend = this.getBackend();
+      if (!backend) return report;
+
+      for (const key of this.getBackendKeys(backend)) {
+        const raw = backend.getItem(key) || '';
+        report.items++;
+        report.size += key.length + raw.length;
+        report.rawSize += key.length + raw.length;
+
+        try {
+          const item = JSON.parse(raw);
+          if (isStorageItem(item) && item.compression) {
+            report.compressedItems++;
+            report.rawSize += item.compression.rawSize - JSON.stringify(item.value).length;
+          }
+        } catch {
+          // Not JSON; counted as stored
         }
       }
-      return total;
     } catch {
-      return 0;
+      // Report what was counted so far
+    }
+
+    return report;
+  }
+
+  /**
+   * Check if the backend can be written to
+   */
+  isAvailable(): boolean {
+    try {
+      const backend = this.getBackend();
+      if (!backend) return false;
+
+      const testKey = '__test__';
+      backend.setItem(testKey, 'test');
+      backend.removeItem(testKey);
+      return true;
+    } catch {
+      return false;
     }
   }
 }
 
+/**
+ * Create a namespaced store, e.g.
+ * `createStore({ prefix: 'cart:', backend: 'session', defaultTTL: 3600000 })`
+ */
+export function createStore(options: StoreOptions = {}): Store {
+  return new Store(options);
+}
+
+let localStore = createStore({ backend: 'local' });
+const sessionStore = createStore({ backend: 'session' });
+
+/**
+ * Safe localStorage wrapper with JSON serialization
+ */
+export class LocalStorage {
+  /**
+   * Set item in localStorage with JSON serialization
+   */
+  static set<T>(key: string, value: T, options: StoreSetOptions = {}): boolean {
+    return localStore.set(key, value, options);
+  }
+
+  /**
+   * Listen for changes to a key, including writes from other tabs
+   */
+  static subscribe<T>(key: string, listener: StorageChangeListener<T>): () => void {
+    return localStore.subscribe(key, listener);
+  }
+
+  /**
+   * Evict entries by the policy when a write exceeds the quota; null
+   * turns eviction off
+   */
+  static setEvictionPolicy(policy: EvictionPolicy | null): void {
+    localStore = createStore({ backend: 'local', ...(policy && { eviction: policy }) });
+  }
+
+  /**
+   * Get item from localStorage with JSON deserialization
+   */
+  static get<T>(key: string): T | null {
+    return localStore.get<T>(key);
+  }
+
+  /**
+   * Get item with default value
+   */
+  static getWithDefault<T>(key: string, defaultValue: T): T {
+    return localStore.getWithDefault(key, defaultValue);
+  }
+
+  /**
+   * Remove item from localStorage
+   */
+  static remove(key: string): boolean {
+    return localStore.remove(key);
+  }
+
+  /**
+   * Clear all localStorage items
+   */
+  static clear(): boolean {
+    return localStore.clear();
+  }
+
+  /**
+   * Check if localStorage is available
+   */
+  static isAvailable(): boolean {
+    return localStore.isAvailable();
+  }
+
+  /**
+   * Get all keys in localStorage
+   */
+  static getKeys(): string[] {
+    return localStore.getKeys();
+  }
+
+  /**
+   * Get storage size in bytes (approximate), or a report comparing stored
+   * and uncompressed sizes
+   */
+  static getSize(): number;
+  static getSize(detailed: true): StorageSizeReport;
+  static getSize(detailed = false): number | StorageSizeReport {
+    return detailed ? localStore.getSizeReport() : localStore.getSize();
+  }
+}
+
 /**
  * Safe sessionStorage wrapper with JSON serialization
  */
@@ -118,163 +1215,105 @@ export class SessionStorage {
   /**
    * Set item in sessionStorage with JSON serialization
    */
-  static set<T>(key: string, value: T): boolean {
-    try {
-      const serializedValue = JSON.stringify(value);
-      sessionStorage.setItem(key, serializedValue);
-      return true;
-    } catch (error) {
-      console.warn('Failed to set sessionStorage item:', error);
-      return false;
-    }
+  static set<T>(key: string, value: T, options: StoreSetOptions = {}): boolean {
+    return sessionStore.set(key, value, options);
+  }
+
+  /**
+   * Listen for changes to a key made in this tab
+   */
+  static subscribe<T>(key: string, listener: StorageChangeListener<T>): () => void {
+    return sessionStore.subscribe(key, listener);
   }
 
   /**
    * Get item from sessionStorage with JSON deserialization
    */
   static get<T>(key: string): T | null {
-    try {
-      const item = sessionStorage.getItem(key);
-      if (item === null) return null;
-      return JSON.parse(item) as T;
-    } catch (error) {
-      console.warn('Failed to get sessionStorage item:', error);
-      return null;
-    }
+    return sessionStore.get<T>(key);
   }
 
   /**
    * Get item with default value
    */
   static getWithDefault<T>(key: string, defaultValue: T): T {
-    const value = this.get<T>(key);
-    return value !== null ? value : defaultValue;
+    return sessionStore.getWithDefault(key, defaultValue);
   }
 
   /**
    * Remove item from sessionStorage
    */
   static remove(key: string): boolean {
-    try {
-      sessionStorage.removeItem(key);
-      return true;
-    } catch (error) {
-      console.warn('Failed to remove sessionStorage item:', error);
-      return false;
-    }
+    return sessionStore.remove(key);
   }
 
   /**
    * Clear all sessionStorage items
    */
   static clear(): boolean {
-    try {
-      sessionStorage.clear();
-      return true;
-    } catch (error) {
-      console.warn('Failed to clear sessionStorage:', error);
-      return false;
-    }
+    return sessionStore.clear();
   }
 
   /**
    * Check if sessionStorage is available
    */
   static isAvailable(): boolean {
-    try {
-      const testKey = '__test__';
-      sessionStorage.setItem(testKey, 'test');
-      sessionStorage.removeItem(testKey);
-      return true;
-    } catch {
-      return false;
-    }
+    return sessionStore.isAvailable();
   }
 
   /**
    * Get all keys in sessionStorage
    */
   static getKeys(): string[] {
-    try {
-      return Object.keys(sessionStorage);
-    } catch {
-      return [];
-    }
+    return sessionStore.getKeys();
   }
 }
 
 /**
- * Cookie management utilities
+ * URI-encode a cookie name, including the `(` and `)` that
+ * encodeURIComponent keeps but cookie names may not contain
+ */
+function encodeCookieName(name: string): string {
+  return encodeURIComponent(name).replace(/[()]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Cookie management utilities for `document.cookie`; names may contain
+ * any character as they are URI-encoded
  */
 export class CookieStorage {
+  private static jar(): CookieJar {
+    return createDocumentCookieJar();
+  }
+
   /**
-   * Set cookie with options
+   * Set cookie with options; false if the cookie could not be written,
+   * e.g. for options that break the `__Secure-`/`__Host-` prefix rules
    */
-  static set(
-    name: string,
-    value: string,
-    options: {
-      expires?: Date;
-      maxAge?: number;
-      path?: string;
-      domain?: string;
-      secure?: boolean;
-      sameSite?: 'strict' | 'lax' | 'none';
-    } = {}
-  ): void {
-    let cookieString = `${encodeURIComponent(name)}=${encodeURIComponent(value)}`;
-
-    if (options.expires) {
-      cookieString += `; expires=${options.expires.toUTCString()}`;
-    }
-
-    if (options.maxAge !== undefined) {
-      cookieString += `; max-age=${options.maxAge}`;
-    }
-
-    if (options.path) {
-      cookieString += `; path=${options.path}`;
-    }
-
-    if (options.domain) {
-      cookieString += `; domain=${options.domain}`;
-    }
-
-    if (options.secure) {
-      cookieString += '; secure';
-    }
-
-    if (options.sameSite) {
-      cookieString += `; samesite=${options.sameSite}`;
+  static set(name: string, value: string, options: CookieOptions = {}): boolean {
+    try {
+      this.jar().set(encodeCookieName(name), value, options);
+      return true;
+    } catch (error) {
+      console.warn(`Failed to set cookie "${name}":`, error);
+      return false;
     }
-
-    document.cookie = cookieString;
   }
 
   /**
    * Get cookie value
    */
   static get(name: string): string | null {
-    const cookies = document.cookie.split(';');
-    
-    for (const cookie of cookies) {
-      const [cookieName, cookieValue] = cookie.trim().split('=');
-      if (decodeURIComponent(cookieName) === name) {
-        return decodeURIComponent(cookieValue);
-      }
-    }
-    
-    return null;
+    return this.jar().get(encodeCookieName(name));
   }
 
   /**
    * Remove cookie
    */
   static remove(name: string, path?: string, domain?: string): void {
-    this.set(name, '', {
-      expires: new Date(0),
-      path,
-      domain
+    this.jar().remove(encodeCookieName(name), {
+      ...(path !== undefined && { path }),
+      ...(domain !== undefined && { domain })
     });
   }
 
@@ -290,15 +1329,16 @@ export class CookieStorage {
    */
   static getAll(): Record<string, string> {
     const cookies: Record<string, string> = {};
-    const cookieStrings = document.cookie.split(';');
-    
-    for (const cookie of cookieStrings) {
-      const [name, value] = cookie.trim().split('=');
-      if (name && value) {
-        cookies[decodeURIComponent(name)] = decodeURIComponent(value);
+    const all = this.jar().getAll();
+
+    for (const name of Object.keys(all)) {
+      try {
+        cookies[decodeURIComponent(name)] = all[name];
+      } catch {
+        cookies[name] = all[name];
       }
     }
-    
+
     return cookies;
   }
 }
@@ -307,26 +1347,37 @@ export class CookieStorage {
  * Unified storage interface that automatically falls back to alternatives
  */
 export class Storage {
+  private static local = createStore({ backend: 'local' });
+  private static session = createStore({ backend: 'session' });
+
+  /**
+   * Set the namespace and default TTL used for local and session values,
+   * e.g. from `SupportConfig.storage`
+   */
+  static configure(options: Omit<StoreOptions, 'backend'>): void {
+    this.local = createStore({ ...options, backend: 'local' });
+    this.session = createStore({ ...options, backend: 'session' });
+  }
+
   /**
    * Set item with automatic fallback
    */
-  static set<T>(key: string, value: T, preferSession = false): boolean {
-    if (preferSession && SessionStorage.isAvailable()) {
-      return SessionStorage.set(key, value);
+  static set<T>(key: string, value: T, preferSession = false, options: StoreSetOptions = {}): boolean {
+    if (preferSession && this.session.isAvailable()) {
+      return this.session.set(key, value, options);
     }
     
-    if (LocalStorage.isAvailable()) {
-      return LocalStorage.set(key, value);
+    if (this.local.isAvailable()) {
+      return this.local.set(key, value, options);
     }
     
-    if (SessionStorage.isAvailable()) {
-      return SessionStorage.set(key, value);
+    if (this.session.isAvailable()) {
+      return this.session.set(key, value, options);
     }
     
     // Fallback to cookies for simple values
     if (typeof value === 'string' || typeof value === 'number') {
-      CookieStorage.set(key, String(value));
-      return true;
+      return CookieStorage.set(key, String(value));
     }
     
     return false;
@@ -336,18 +1387,18 @@ export class Storage {
    * Get item with automatic fallback
    */
   static get<T>(key: string, preferSession = false): T | null {
-    if (preferSession && SessionStorage.isAvailable()) {
-      const value = SessionStorage.get<T>(key);
+    if (preferSession && this.session.isAvailable()) {
+      const value = this.session.get<T>(key);
       if (value !== null) return value;
     }
     
-    if (LocalStorage.isAvailable()) {
-      const value = LocalStorage.get<T>(key);
+    if (this.local.isAvailable()) {
+      const value = this.local.get<T>(key);
       if (value !== null) return value;
     }
     
-    if (SessionStorage.isAvailable()) {
-      const value = SessionStorage.get<T>(key);
+    if (this.session.isAvailable()) {
+      const value = this.session.get<T>(key);
       if (value !== null) return value;
     }
     
@@ -364,12 +1415,66 @@ export class Storage {
     return null;
   }
 
+  /**
+   * Set item in local (or session) storage, encrypting it when
+   * `configure` was given encryption keys
+   */
+  static async setAsync<T>(key: string, value: T, preferSession = false, options: StoreSetOptions = {}): Promise<boolean> {
+    const store = preferSession || !this.local.isAvailable() ? this.session : this.local;
+    return store.setAsync(key, value, options);
+  }
+
+  /**
+   * Get item from local or session storage, decrypting it if needed
+   */
+  static async getAsync<T>(key: string, preferSession = false): Promise<T | null> {
+    const stores = preferSession ? [this.session, this.local] : [this.local, this.session];
+    for (const store of stores) {
+      const value = await store.getAsync<T>(key);
+      if (value !== null) return value;
+    }
+    return null;
+  }
+
   /**
    * Remove item from all storage types
    */
   static remove(key: string): void {
-    LocalStorage.remove(key);
-    SessionStorage.remove(key);
+    this.local.remove(key);
+    this.session.remove(key);
     CookieStorage.remove(key);
   }
+
+  /**
+   * Clear the configured namespace in local and session storage
+   */
+  static clear(): void {
+    this.local.clear();
+    this.session.clear();
+  }
+
+  /**
+   * Remove expired local and session values
+   */
+  static sweep(): number {
+    return this.local.sweep() + this.session.sweep();
+  }
+
+  /**
+   * Give a key a version, migrations and schema, applied whenever it is read
+   */
+  static defineVersion<T>(key: string, options: VersionedKeyOptions<T>): void {
+    defineStorageVersion(key, options);
+  }
+
+  /**
+   * Migrate every stored versioned key in local and session storage now
+   */
+  static async migrate(): Promise<StorageMigrationRecord[]> {
+    return [...(await this.local.migrate()), ...(await this.session.migrate())];
+  }
+
+  static getMigrationReport(): StorageMigrationReport {
+    return getStorageMigrationReport();
+  }
 }
@@ -0,0 +1,565 @@
+/**
+ * Log transports: where logger entries are written to
+ */
+
+import type { LogEntry, LogLevel } from './logger';
+import { createStore } from './storage';
+
+export interface LogTransport {
+  /**
+   * Lowest level written by this transport (default: every level the
+   * logger logs)
+   */
+  level?: LogLevel;
+  write(entry: LogEntry): void;
+  /**
+   * Deliver buffered entries
+   */
+  flush?(): Promise<void>;
+  /**
+   * Flush and release timers and listeners
+   */
+  close?(): Promise<void>;
+}
+
+/**
+ * Structured form of an entry: bound context and object data become
+ * top-level fields, errors are serialized
+ */
+export interface LogRecord {
+  level: LogLevel;
+  /**
+   * ISO 8601 timestamp
+   */
+  time: string;
+  msg: string;
+  /**
+   * Logger prefix
+   */
+  name?: string;
+  [field: string]: any;
+}
+
+export interface SerializedError {
+  type: string;
+  message: string;
+  stack?: string;
+  cause?: unknown;
+  errors?: unknown[];
+  [field: string]: unknown;
+}
+
+export interface ConsoleTransportOptions {
+  level?: LogLevel;
+  /**
+   * Print one NDJSON record per entry instead of text (default false)
+   */
+  json?: boolean;
+  /**
+   * Print entry timestamps (default true)
+   */
+  timestamp?: boolean;
+  /**
+   * Print the stack captured with error entries (default true)
+   */
+  stackTrace?: boolean;
+}
+
+export interface MemoryTransport extends LogTransport {
+  getEntries(): LogEntry[];
+  clear(): void;
+}
+
+export interface MemoryTransportOptions {
+  level?: LogLevel;
+  /**
+   * Entries kept; the oldest are overwritten (default 1000)
+   */
+  size?: number;
+}
+
+/**
+ * Key/value store entries are persisted to: a `Store` (localStorage or
+ * sessionStorage) or an `IndexedDBStore`
+ */
+export interface LogStore {
+  get<T>(key: string): T | null | Promise<T | null>;
+  set<T>(key: string, value: T): boolean | Promise<boolean>;
+  remove(key: string): boolean | Promise<boolean>;
+}
+
+export interface StorageTransport extends LogTransport {
+  flush(): Promise<void>;
+  getEntries(): Promise<LogEntry[]>;
+  clear(): Promise<void>;
+}
+
+export interface StorageTransportOptions {
+  level?: LogLevel;
+  /**
+   * Default: a localStorage store
+   */
+  store?: LogStore;
+  key?: string;
+  /**
+   * Entries kept; the oldest are dropped (default 500)
+   */
+  maxEntries?: number;
+}
+
+export interface HttpTransportOptions {
+  url: string;
+  level?: LogLevel;
+  headers?: Record<string, string>;
+  /**
+   * Entries sent per request; a full batch is sent right away (default 20)
+   */
+  batchSize?: number;
+  /**
+   * Delay in ms before a partial batch is sent (default 5000)
+   */
+  flushInterval?: number;
+  /**
+   * Retries of a failed batch, with exponential backoff (default 3)
+   */
+  maxRetries?: number;
+  /**
+   * Delay in ms before the first retry (default 1000)
+   */
+  retryDelay?: number;
+  /**
+   * Entries kept while requests fail; the oldest are dropped (default 1000)
+   */
+  maxQueueSize?: number;
+  /**
+   * Send queued entries with `navigator.sendBeacon` when the page is
+   * hidden or unloaded (default true)
+   */
+  beacon?: boolean;
+  /**
+   * Send NDJSON records instead of `{ entries }` (default false)
+   */
+  ndjson?: boolean;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Anything with a Node-style `write`, e.g. `process.stdout` or
+ * `fs.createWriteStream('app.log', { flags: 'a' })`
+ */
+export interface WritableLike {
+  write(chunk: string): unknown;
+  end?(): unknown;
+}
+
+export interface StreamTransportOptions {
+  stream: WritableLike;
+  level?: LogLevel;
+  /**
+   * `text` (default: prefix, timestamp, level, message and JSON data),
+   * `ndjson` or a function formatting an entry as one line
+   */
+  format?: 'text' | 'ndjson' | ((entry: LogEntry) => string);
+}
+
+/**
+ * Format an entry as `[prefix] timestamp [LEVEL] message`
+ */
+export function formatLogEntry(entry: LogEntry, timestamp = true): string {
+  let formatted = '';
+
+  if (entry.prefix) {
+    formatted += `[${entry.prefix}] `;
+  }
+
+  if (timestamp) {
+    formatted += `${entry.timestamp.toISOString()} `;
+  }
+
+  return formatted + `[${entry.level.toUpperCase()}] ${entry.message}`;
+}
+
+export const REDACTED = '[Redacted]';
+
+const RECORD_FIELDS = ['level', 'time', 'msg', 'name'];
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Instances of user-defined classes, whose own fields are logged like those
+ * of plain objects (built-ins such as Date or Map are left as they are)
+ */
+function isClassInstance(value: unknown): value is object {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  const ctor = proto && proto.constructor;
+  return typeof ctor === 'function' && !/\[native code\]/.test(Function.prototype.toString.call(ctor));
+}
+
+/**
+ * Serialize an error with its own fields and its `cause` chain (and the
+ * `errors` of an AggregateError)
+ */
+export function serializeError(error: unknown, seen: Set<unknown> = new Set()): unknown {
+  if (!(error instanceof Error)) return error;
+  if (seen.has(error)) return '[Circular]';
+  seen.add(error);
+
+  const serialized: SerializedError = { type: error.name, message: error.message };
+  if (error.stack) serialized.stack = error.stack;
+
+  for (const key of Object.keys(error)) {
+    if (key === 'cause' || key === 'errors') continue;
+    serialized[key] = serializeError((error as unknown as Record<string, unknown>)[key], seen);
+  }
+
+  const { cause, errors } = error as { cause?: unknown; errors?: unknown };
+  if (cause !== undefined) serialized.cause = serializeError(cause, seen);
+  if (Array.isArray(errors)) serialized.errors = errors.map(item => serializeError(item, seen));
+
+  // Only errors that contain themselves are circular
+  seen.delete(error);
+  return serialized;
+}
+
+/**
+ * Replace the values at key paths with `[Redacted]`. A path matches the
+ * end of a key's path, case-insensitively: `password` matches that key at
+ * any depth, `headers.authorization` only inside `headers`; `*` matches
+ * any key or index. Errors (with their `cause` and `errors`) and class
+ * instances are copied with the same prototype and redacted fields.
+ */
+export function redact<T>(value: T, paths: string[]): T {
+  if (paths.length === 0) return value;
+  const patterns = paths.map(path => path.toLowerCase().split('.'));
+
+  const matches = (keys: string[]): boolean =>
+    patterns.some(
+      pattern =>
+        pattern.length <= keys.length &&
+        pattern.every((segment, i) => segment === '*' || segment === keys[keys.length - pattern.length + i])
+    );
+
+  const walk = (current: any, keys: string[], ancestors: object[]): any => {
+    const error = current instanceof Error;
+    if (!Array.isArray(current) && !isPlainObject(current) && !error && !isClassInstance(current)) return current;
+    if (ancestors.includes(current)) return '[Circular]';
+
+    const nested = [...ancestors, current];
+    const visit = (item: any, key: string): any => {
+      const itemKeys = [...keys, key.toLowerCase()];
+      return matches(itemKeys) ? REDACTED : walk(item, itemKeys, nested);
+    };
+
+    if (Array.isArray(current)) return current.map((item, index) => visit(item, String(index)));
+
+    if (isPlainObject(current)) {
+      const copy: Record<string, any> = {};
+      for (const key of Object.keys(current)) {
+        copy[key] = visit(current[key], key);
+      }
+      return copy;
+    }
+
+    // Keep the prototype and the non-enumerable message, stack and cause
+    const copy = Object.create(Object.getPrototypeOf(current));
+    for (const key of Object.getOwnPropertyNames(current)) {
+      const descriptor = Object.getOwnPropertyDescriptor(current, key)!;
+      if ('value' in descriptor && (descriptor.enumerable || (error && (key === 'cause' || key === 'errors')))) {
+        descriptor.value = visit(descriptor.value, key);
+      }
+      Object.defineProperty(copy, key, descriptor);
+    }
+    return copy;
+  };
+
+  return walk(value, [], []);
+}
+
+/**
+ * JSON that survives circular references and errors
+ */
+function stringifyData(data: any): string {
+  const ancestors: object[] = [];
+  return JSON.stringify(data, function (this: unknown, _key, value) {
+    if (value instanceof Error) value = serializeError(value);
+    if (typeof value !== 'object' || value === null) return value;
+
+    // Drop the objects whose properties have all been written
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) ancestors.pop();
+    if (ancestors.includes(value)) return '[Circular]';
+    ancestors.push(value);
+    return value;
+  });
+}
+
+/**
+ * Convert an entry to a structured record; error data is written as
+ * `err` and object data is merged unless it uses a record field name
+ */
+export function toLogRecord(entry: LogEntry): LogRecord {
+  const record: LogRecord = {
+    level: entry.level,
+    time: entry.timestamp.toISOString(),
+    msg: entry.message,
+    ...(entry.prefix && { name: entry.prefix })
+  };
+
+  if (entry.context) {
+    for (const key of Object.keys(entry.context)) {
+      if (!RECORD_FIELDS.includes(key)) record[key] = entry.context[key];
+    }
+  }
+
+  const { data } = entry;
+  if (data instanceof Error) {
+    record.err = serializeError(data);
+  } else if (isPlainObject(data) && !Object.keys(data).some(key => RECORD_FIELDS.includes(key))) {
+    Object.assign(record, data);
+  } else if (data !== undefined) {
+    record.data = data;
+  }
+
+  if (entry.stack !== undefined) record.stack = entry.stack;
+
+  return record;
+}
+
+/**
+ * Format an entry as one NDJSON line (without the trailing newline)
+ */
+export function formatNDJSON(entry: LogEntry): string {
+  return stringifyData(toLogRecord(entry));
+}
+
+/**
+ * Write entries to the console method matching their level
+ */
+export function createConsoleTransport(options: ConsoleTransportOptions = {}): LogTransport {
+  const { timestamp = true, stackTrace = true, json = false } = options;
+
+  return {
+    ...(options.level && { level: options.level }),
+    write(entry) {
+      const logMethod = entry.level === 'debug' ? console.debug :
+                       entry.level === 'info' ? console.info :
+                       entry.level === 'warn' ? console.warn :
+                       console.error;
+
+      if (json) {
+        logMethod(formatNDJSON(entry));
+        return;
+      }
+
+      const args: any[] = [formatLogEntry(entry, timestamp)];
+      if (entry.data !== undefined) args.push(entry.data);
+      if (entry.context) args.push(entry.context);
+      logMethod(...args);
+
+      if (entry.stack !== undefined && stackTrace) {
+        console.error('Stack trace:', entry.stack);
+      }
+    }
+  };
+}
+
+/**
+ * Keep the latest entries in a ring buffer
+ */
+export function createMemoryTransport(options: MemoryTransportOptions = {}): MemoryTransport {
+  const size = Math.max(1, options.size ?? 1000);
+  let buffer: LogEntry[] = [];
+  let next = 0;
+
+  return {
+    ...(options.level && { level: options.level }),
+    write(entry) {
+      buffer[next] = entry;
+      next = (next + 1) % size;
+    },
+    getEntries() {
+      return buffer.length < size ? [...buffer] : [...buffer.slice(next), ...buffer.slice(0, next)];
+    },
+    clear() {
+      buffer = [];
+      next = 0;
+    }
+  };
+}
+
+/**
+ * Persist entries to localStorage, sessionStorage or IndexedDB; writes
+ * are batched and applied in order
+ */
+export function createStorageTransport(options: StorageTransportOptions = {}): StorageTransport {
+  const { key = 'logs', maxEntries = 500 } = options;
+  const store = options.store || createStore({ backend: 'local', prefix: 'support-js:' });
+  let pending: LogEntry[] = [];
+  let queue = Promise.resolve();
+
+  const flush = (): Promise<void> => {
+    queue = queue.then(async () => {
+      if (pending.length === 0) return;
+      const entries = pending;
+      pending = [];
+
+      try {
+        const stored = (await store.get<LogEntry[]>(key)) || [];
+        await store.set(key, stored.concat(entries).slice(-maxEntries));
+      } catch (error) {
+        console.warn('Failed to persist log entries:', error);
+      }
+    });
+    return queue;
+  };
+
+  return {
+    ...(options.level && { level: options.level }),
+    write(entry) {
+      pending.push(entry);
+      if (pending.length === 1) void flush();
+    },
+    flush,
+    close: flush,
+    async getEntries() {
+      await flush();
+      const stored = (await store.get<LogEntry[]>(key)) || [];
+      return stored.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp) }));
+    },
+    async clear() {
+      pending = [];
+      await queue;
+      await store.remove(key);
+    }
+  };
+}
+
+/**
+ * Send entries to an HTTP endpoint as `{ entries: [...] }` batches,
+ * retrying failed requests and using `sendBeacon` when the page goes away
+ */
+export function createHttpTransport(options: HttpTransportOptions): LogTransport & { flush(): Promise<void>; close(): Promise<void> } {
+  const {
+    url,
+    batchSize = 20,
+    flushInterval = 5000,
+    maxRetries = 3,
+    retryDelay = 1000,
+    maxQueueSize = 1000,
+    beacon = true
+  } = options;
+  let queue: LogEntry[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let sending = Promise.resolve();
+
+  const serialize = (entries: LogEntry[]): string =>
+    options.ndjson ? entries.map(formatNDJSON).join('\n') + '\n' : stringifyData({ entries });
+
+  const post = async (entries: LogEntry[]): Promise<void> => {
+    const send = options.fetch || fetch;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await send(url, {
+          method: 'POST',
+          headers: { 'Content-Type': options.ndjson ? 'application/x-ndjson' : 'application/json', ...options.headers },
+          body: serialize(entries)
+        });
+        // Client errors are not retried: the same batch would fail again
+        if (response.ok || (response.status >= 400 && response.status < 500)) return;
+        throw new Error(`Log request failed with status ${response.status}`);
+      } catch (error) {
+        if (attempt >= maxRetries) {
+          console.warn(`Dropped ${entries.length} log entries:`, error);
+          return;
+        }
+        await new Promise(resolve => setTimeout(resolve, retryDelay * 2 ** attempt));
+      }
+    }
+  };
+
+  const flush = (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    while (queue.length > 0) {
+      const batch = queue.splice(0, batchSize);
+      sending = sending.then(() => post(batch));
+    }
+    return sending;
+  };
+
+  const sendBeacon = (): void => {
+    if (queue.length === 0) return;
+    const body = serialize(queue);
+    const type = options.ndjson ? 'application/x-ndjson' : 'application/json';
+
+    if (typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function') {
+      if (navigator.sendBeacon(url, new Blob([body], { type }))) {
+        queue = [];
+        return;
+      }
+    }
+    void flush();
+  };
+
+  const onVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') sendBeacon();
+  };
+
+  const listening = beacon && typeof window !== 'undefined' && typeof document !== 'undefined';
+  if (listening) {
+    window.addEventListener('pagehide', sendBeacon);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+  }
+
+  return {
+    ...(options.level && { level: options.level }),
+    write(entry) {
+      queue.push(entry);
+      if (queue.length > maxQueueSize) queue.shift();
+
+      if (queue.length >= batchSize) {
+        void flush();
+      } else if (!timer) {
+        timer = setTimeout(() => void flush(), flushInterval);
+      }
+    },
+    flush,
+    async close() {
+      if (listening) {
+        window.removeEventListener('pagehide', sendBeacon);
+        document.removeEventListener('visibilitychange', onVisibilityChange);
+      }
+      await flush();
+    }
+  };
+}
+
+/**
+ * Write one line per entry to a Node stream or file
+ */
+export function createStreamTransport(options: StreamTransportOptions): LogTransport {
+  const format =
+    typeof options.format === 'function' ? options.format :
+    options.format === 'ndjson' ? formatNDJSON :
+    (entry: LogEntry) =>
+      formatLogEntry(entry) +
+      (entry.data !== undefined ? ` ${stringifyData(entry.data)}` : '') +
+      (entry.context ? ` ${stringifyData(entry.context)}` : '') +
+      (entry.stack !== undefined ? `\n${entry.stack}` : '');
+
+  return {
+    ...(options.level && { level: options.level }),
+    write(entry) {
+      options.stream.write(format(entry) + '\n');
+    },
+    async close() {
+      if (options.stream.end) options.stream.end();
+    }
+  };
+}
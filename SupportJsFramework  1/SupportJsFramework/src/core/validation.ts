@@ -2,45 +2,257 @@
  * Validation utility functions
  */
 
+import { estimatePasswordEntropy, isCommonPassword } from './password';
+import { isValidPhoneNumber } from './phone';
+import { parseIPAddress, domainToASCII, isValidHostname, IPOptions } from './network';
+import { luhnCheck } from './card';
+import { isIBAN, isBIC, isPostalCode, hasValidCheckDigit } from './identifiers';
+
+/**
+ * Phone number plausibility pattern: E.164 allows at most 15 digits
+ */
+const PHONE_REGEX = /^[\+]?[1-9][\d]{6,14}$/;
+
 /**
- * Email validation regex pattern
+ * Unquoted email local part: dot-separated atoms (RFC 5322), plus any
+ * non-ASCII characters (RFC 6531)
  */
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const EMAIL_DOT_ATOM_REGEX = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~\u0080-\uffff-]+(?:\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~\u0080-\uffff-]+)*$/;
+
+/**
+ * Quoted email local part, e.g. `"john doe"`
+ */
+const EMAIL_QUOTED_REGEX = /^"(?:[\x20\x21\x23-\x5b\x5d-\x7e\u0080-\uffff]|\\[\x20-\x7e])*"$/;
+
+/**
+ * URL split into scheme, credentials, host, port and the rest
+ */
+const URL_PARTS_REGEX = /^([a-z][a-z\d+.-]*):\/\/(?:([^\s/?#@]*)@)?(\[[^\]\s]*\]|[^\s/?#:@]*)(?::([^\s/?#]*))?([/?#]\S*)?$/i;
+
+export interface ValidatorResult<R extends string> {
+  isValid: boolean;
+  reason?: R;
+}
+
+export interface EmailOptions {
+  /**
+   * Accept quoted local parts such as `"john doe"@example.com` (default true)
+   */
+  allowQuotedLocalPart?: boolean;
+  /**
+   * Accept address literals such as `user@[192.168.0.1]` (default false)
+   */
+  allowIPDomain?: boolean;
+  /**
+   * Require a top-level domain (default true)
+   */
+  requireTLD?: boolean;
+  /**
+   * Accept internationalized domains and local parts (default true)
+   */
+  allowUnicode?: boolean;
+}
+
+export type EmailErrorReason =
+  | 'EMPTY'
+  | 'MISSING_AT'
+  | 'TOO_LONG'
+  | 'LOCAL_PART_TOO_LONG'
+  | 'INVALID_LOCAL_PART'
+  | 'QUOTED_LOCAL_PART_NOT_ALLOWED'
+  | 'INVALID_DOMAIN'
+  | 'DOMAIN_TOO_LONG'
+  | 'TLD_REQUIRED'
+  | 'IP_DOMAIN_NOT_ALLOWED'
+  | 'UNICODE_NOT_ALLOWED';
+
+export interface URLOptions {
+  /**
+   * Accepted schemes (default `['http', 'https']`)
+   */
+  protocols?: string[];
+  /**
+   * Reject URLs without a scheme (default true); without one `http` is assumed
+   */
+  requireProtocol?: boolean;
+  /**
+   * Require a top-level domain, which rules out `localhost` (default true)
+   */
+  requireTLD?: boolean;
+  /**
+   * Accept IP address hosts (default true)
+   */
+  allowIP?: boolean;
+  /**
+   * Accept an explicit port (default true)
+   */
+  allowPort?: boolean;
+  /**
+   * Accept `user:password@` credentials (default false)
+   */
+  allowCredentials?: boolean;
+  /**
+   * Accept internationalized domain names (default true)
+   */
+  allowIDN?: boolean;
+}
+
+export type URLErrorReason =
+  | 'EMPTY'
+  | 'INVALID_FORMAT'
+  | 'PROTOCOL_REQUIRED'
+  | 'PROTOCOL_NOT_ALLOWED'
+  | 'CREDENTIALS_NOT_ALLOWED'
+  | 'INVALID_HOST'
+  | 'IP_NOT_ALLOWED'
+  | 'TLD_REQUIRED'
+  | 'IDN_NOT_ALLOWED'
+  | 'PORT_NOT_ALLOWED'
+  | 'INVALID_PORT';
+
+export type IPErrorReason = 'EMPTY' | 'INVALID_ADDRESS' | 'VERSION_NOT_ALLOWED';
 
 /**
- * Phone number validation regex pattern (supports various formats)
+ * Length of a string in UTF-8 octets
  */
-const PHONE_REGEX = /^[\+]?[1-9][\d]{0,15}$/;
+function getOctetLength(value: string): number {
+  return encodeURIComponent(value).replace(/%[\dA-F]{2}/g, '_').length;
+}
 
 /**
- * URL validation regex pattern
+ * Check if a string contains non-ASCII characters
  */
-const URL_REGEX = /^https?:\/\/(www\.)?[-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b([-a-zA-Z0-9()@:%_\+.~#?&//=]*)$/;
+function hasUnicode(value: string): boolean {
+  return /[^\x00-\x7f]/.test(value);
+}
+
+/**
+ * Validate email address with the reason for failures. Applies the RFC 5321
+ * limits of 64 octets for the local part and 254 for the whole address.
+ */
+export function validateEmail(email: string, options: EmailOptions = {}): ValidatorResult<EmailErrorReason> {
+  const {
+    allowQuotedLocalPart = true,
+    allowIPDomain = false,
+    requireTLD = true,
+    allowUnicode = true
+  } = options;
+  const address = email.trim();
+
+  if (!address) return { isValid: false, reason: 'EMPTY' };
+
+  const at = address.lastIndexOf('@');
+  if (at <= 0 || at === address.length - 1) return { isValid: false, reason: 'MISSING_AT' };
+
+  const localPart = address.slice(0, at);
+  const domain = address.slice(at + 1);
+
+  if (!allowUnicode && hasUnicode(address)) return { isValid: false, reason: 'UNICODE_NOT_ALLOWED' };
+  if (getOctetLength(address) > 254) return { isValid: false, reason: 'TOO_LONG' };
+  if (getOctetLength(localPart) > 64) return { isValid: false, reason: 'LOCAL_PART_TOO_LONG' };
+
+  if (localPart.startsWith('"')) {
+    if (!allowQuotedLocalPart) return { isValid: false, reason: 'QUOTED_LOCAL_PART_NOT_ALLOWED' };
+    if (!EMAIL_QUOTED_REGEX.test(localPart)) return { isValid: false, reason: 'INVALID_LOCAL_PART' };
+  } else if (!EMAIL_DOT_ATOM_REGEX.test(localPart)) {
+    return { isValid: false, reason: 'INVALID_LOCAL_PART' };
+  }
+
+  if (domain.startsWith('[')) {
+    if (!allowIPDomain) return { isValid: false, reason: 'IP_DOMAIN_NOT_ALLOWED' };
+    const literal = /^\[(?:IPv6:([^\]]+)|([^\]]+))\]$/i.exec(domain);
+    const valid = literal !== null && (literal[1] ? isIPv6(literal[1]) : isIPv4(literal[2]));
+    return valid ? { isValid: true } : { isValid: false, reason: 'INVALID_DOMAIN' };
+  }
+
+  if (domainToASCII(domain).length > 253) return { isValid: false, reason: 'DOMAIN_TOO_LONG' };
+  if (!isValidHostname(domain, { requireTLD: false })) return { isValid: false, reason: 'INVALID_DOMAIN' };
+  if (requireTLD && !isValidHostname(domain)) return { isValid: false, reason: 'TLD_REQUIRED' };
+
+  return { isValid: true };
+}
 
 /**
  * Validate email address
  */
-export function isEmail(email: string): boolean {
-  return EMAIL_REGEX.test(email.trim());
+export function isEmail(email: string, options: EmailOptions = {}): boolean {
+  return validateEmail(email, options).isValid;
 }
 
 /**
  * Validate phone number
  */
-export function isPhone(phone: string): boolean {
+export function isPhone(phone: string, country?: string): boolean {
+  if (country) {
+    return isValidPhoneNumber(phone, country);
+  }
+
   const cleaned = phone.replace(/[\s\-\(\)\.]/g, '');
   return PHONE_REGEX.test(cleaned);
 }
 
+/**
+ * Validate URL with the reason for failures
+ */
+export function validateURL(url: string, options: URLOptions = {}): ValidatorResult<URLErrorReason> {
+  const {
+    protocols = ['http', 'https'],
+    requireProtocol = true,
+    requireTLD = true,
+    allowIP = true,
+    allowPort = true,
+    allowCredentials = false,
+    allowIDN = true
+  } = options;
+  let text = url.trim();
+
+  if (!text) return { isValid: false, reason: 'EMPTY' };
+
+  if (!/^[a-z][a-z\d+.-]*:\/\//i.test(text)) {
+    if (requireProtocol) return { isValid: false, reason: 'PROTOCOL_REQUIRED' };
+    text = `http://${text.replace(/^\/\//, '')}`;
+  }
+
+  const match = URL_PARTS_REGEX.exec(text);
+  if (!match) return { isValid: false, reason: 'INVALID_FORMAT' };
+
+  const [, protocol, credentials, host, port] = match;
+
+  if (!protocols.map(name => name.toLowerCase()).includes(protocol.toLowerCase())) {
+    return { isValid: false, reason: 'PROTOCOL_NOT_ALLOWED' };
+  }
+  if (credentials !== undefined && !allowCredentials) {
+    return { isValid: false, reason: 'CREDENTIALS_NOT_ALLOWED' };
+  }
+
+  if (port !== undefined) {
+    if (!allowPort) return { isValid: false, reason: 'PORT_NOT_ALLOWED' };
+    if (!/^\d{1,5}$/.test(port) || Number(port) > 65535) return { isValid: false, reason: 'INVALID_PORT' };
+  }
+
+  const isIPLiteral = host.startsWith('[') ? isIPv6(host.slice(1, -1)) : isIPv4(host);
+  if (isIPLiteral) {
+    return allowIP ? { isValid: true } : { isValid: false, reason: 'IP_NOT_ALLOWED' };
+  }
+
+  if (!host || host.startsWith('[') || /^[\d.]+$/.test(host)) return { isValid: false, reason: 'INVALID_HOST' };
+  if (!allowIDN && (hasUnicode(host) || /(^|\.)xn--/i.test(host))) return { isValid: false, reason: 'IDN_NOT_ALLOWED' };
+  if (!isValidHostname(host, { requireTLD: false })) return { isValid: false, reason: 'INVALID_HOST' };
+  if (requireTLD && !isValidHostname(host)) return { isValid: false, reason: 'TLD_REQUIRED' };
+
+  return { isValid: true };
+}
+
 /**
  * Validate URL
  */
-export function isURL(url: string): boolean {
-  return URL_REGEX.test(url.trim());
+export function isURL(url: string, options: URLOptions = {}): boolean {
+  return validateURL(url, options).isValid;
 }
 
 /**
- * Validate credit card number using Luhn algorithm
+ * Validate credit card number using Luhn algorithm. See validateCardNumber
+ * for brand-specific length rules.
  */
 export function isCreditCard(number: string): boolean {
   const cleaned = number.replace(/\s/g, '');
@@ -49,25 +261,7 @@ export function isCreditCard(number: string): boolean {
     return false;
   }
   
-  // Luhn algorithm
-  let sum = 0;
-  let isEvenPosition = false;
-  
-  for (let i = cleaned.length - 1; i >= 0; i--) {
-    let digit = parseInt(cleaned[i], 10);
-    
-    if (isEvenPosition) {
-      digit *= 2;
-      if (digit > 9) {
-        digit -= 9;
-      }
-    }
-    
-    sum += digit;
-    isEvenPosition = !isEvenPosition;
-  }
-  
-  return sum % 10 === 0;
+  return luhnCheck(cleaned);
 }
 
 /**
@@ -103,77 +297,341 @@ export function isHexColor(color: string): boolean {
   return /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/.test(color);
 }
 
+/**
+ * Validate IP address with the reason for failures, optionally of one version
+ */
+export function validateIP(ip: string, version?: 4 | 6, options: IPOptions = {}): ValidatorResult<IPErrorReason> {
+  if (!ip.trim()) return { isValid: false, reason: 'EMPTY' };
+
+  const address = parseIPAddress(ip, options);
+  if (!address) return { isValid: false, reason: 'INVALID_ADDRESS' };
+  if (version && address.version !== version) return { isValid: false, reason: 'VERSION_NOT_ALLOWED' };
+
+  return { isValid: true };
+}
+
 /**
  * Validate if string is a valid IP address (IPv4)
  */
 export function isIPv4(ip: string): boolean {
-  const parts = ip.split('.');
-  if (parts.length !== 4) return false;
-  
-  return parts.every(part => {
-    const num = parseInt(part, 10);
-    return num >= 0 && num <= 255 && part === num.toString();
-  });
+  return validateIP(ip, 4).isValid;
+}
+
+/**
+ * Validate if string is a valid IP address (IPv6); zone suffixes such as
+ * `%eth0` are only accepted with `allowZone`
+ */
+export function isIPv6(ip: string, options: IPOptions = {}): boolean {
+  return validateIP(ip, 6, options).isValid;
+}
+
+/**
+ * Validation messages
+ */
+
+export type PasswordMessageId =
+  | 'password.minLength'
+  | 'password.maxLength'
+  | 'password.lowercase'
+  | 'password.uppercase'
+  | 'password.number'
+  | 'password.special'
+  | 'password.banned'
+  | 'password.repeated'
+  | 'password.common'
+  | 'password.weak'
+  | 'password.dictionary'
+  | 'password.l33t'
+  | 'password.keyboard'
+  | 'password.sequence'
+  | 'password.repeat'
+  | 'password.date'
+  | 'password.addLength';
+
+export type ValidationMessageId = RuleName | PasswordMessageId;
+
+export type ValidationMessages = Partial<Record<ValidationMessageId, string>>;
+
+/**
+ * English schema messages. `{field}` and the rule's own option names
+ * (`{minLength}`, `{min}`...) are replaced when the message is built.
+ */
+export const DEFAULT_VALIDATION_MESSAGES: Record<RuleName, string> = {
+  required: '{field} is required',
+  type: '{field} must be a {type}',
+  minLength: '{field} must be at least {minLength} characters',
+  maxLength: '{field} must be no more than {maxLength} characters',
+  pattern: '{field} format is invalid',
+  min: '{field} must be at least {min}',
+  max: '{field} must be at most {max}',
+  integer: '{field} must be a whole number',
+  range: '{field} must be between {rangeMin} and {rangeMax}',
+  minItems: '{field} must contain at least {minItems} items',
+  maxItems: '{field} must contain no more than {maxItems} items',
+  oneOf: '{field} must be one of {oneOf}',
+  anyOf: '{field} does not match any of the allowed types',
+  email: '{field} must be a valid email address',
+  url: '{field} must be a valid URL',
+  phone: '{field} must be a valid phone number',
+  creditCard: '{field} must be a valid card number',
+  iban: '{field} must be a valid IBAN',
+  bic: '{field} must be a valid BIC',
+  postalCode: '{field} must be a valid postal code',
+  checkDigit: '{field} has an invalid check digit',
+  ipv4: '{field} must be a valid IPv4 address',
+  ipv6: '{field} must be a valid IPv6 address',
+  json: '{field} must be valid JSON',
+  alpha: '{field} must contain only letters',
+  alphanumeric: '{field} must contain only letters and numbers',
+  hexColor: '{field} must be a valid hex color',
+  custom: '{field} is invalid'
+};
+
+const DEFAULT_PASSWORD_MESSAGES: Record<PasswordMessageId, string> = {
+  'password.minLength': 'Password must be at least {minLength} characters long',
+  'password.lowercase': 'Password must contain at least one lowercase letter',
+  'password.uppercase': 'Password must contain at least one uppercase letter',
+  'password.number': 'Password must contain at least one number',
+  'password.maxLength': 'Password must be no more than {maxLength} characters long',
+  'password.special': 'Password must contain at least one special character',
+  'password.banned': 'Password must not contain "{value}"',
+  'password.repeated': 'Password must not repeat a character more than {max} times in a row',
+  'password.common': 'Password is too common',
+  'password.weak': 'Password is too easy to guess',
+  'password.dictionary': 'Avoid common words and passwords such as "{token}"',
+  'password.l33t': 'Swapping letters for symbols, like "@" for "a", does not make "{token}" much harder to guess',
+  'password.keyboard': 'Avoid keyboard patterns such as "{token}"',
+  'password.sequence': 'Avoid sequences such as "{token}"',
+  'password.repeat': 'Avoid repeated characters such as "{token}"',
+  'password.date': 'Avoid dates and years such as "{token}"',
+  'password.addLength': 'Add another word or a few more characters'
+};
+
+const DEFAULT_MESSAGE_LOCALE = 'en';
+
+const messageCatalogs: Record<string, ValidationMessages> = {
+  [DEFAULT_MESSAGE_LOCALE]: { ...DEFAULT_VALIDATION_MESSAGES, ...DEFAULT_PASSWORD_MESSAGES }
+};
+
+let activeLocale = DEFAULT_MESSAGE_LOCALE;
+
+/**
+ * Add or override messages for a locale such as `de` or `pt-BR`
+ */
+export function registerValidationMessages(locale: string, messages: ValidationMessages): void {
+  messageCatalogs[locale] = { ...messageCatalogs[locale], ...messages };
+}
+
+/**
+ * Set the locale used when a call does not pass one
+ */
+export function setValidationLocale(locale: string): void {
+  activeLocale = locale;
+}
+
+/**
+ * Get the locale used when a call does not pass one
+ */
+export function getValidationLocale(): string {
+  return activeLocale;
 }
 
 /**
- * Validate if string is a valid IPv6 address
+ * Get a message template, falling back from `de-AT` to `de` to English
  */
-export function isIPv6(ip: string): boolean {
-  const ipv6Regex = /^(([0-9a-fA-F]{1,4}:){7,7}[0-9a-fA-F]{1,4}|([0-9a-fA-F]{1,4}:){1,7}:|([0-9a-fA-F]{1,4}:){1,6}:[0-9a-fA-F]{1,4}|([0-9a-fA-F]{1,4}:){1,5}(:[0-9a-fA-F]{1,4}){1,2}|([0-9a-fA-F]{1,4}:){1,4}(:[0-9a-fA-F]{1,4}){1,3}|([0-9a-fA-F]{1,4}:){1,3}(:[0-9a-fA-F]{1,4}){1,4}|([0-9a-fA-F]{1,4}:){1,2}(:[0-9a-fA-F]{1,4}){1,5}|[0-9a-fA-F]{1,4}:((:[0-9a-fA-F]{1,4}){1,6})|:((:[0-9a-fA-F]{1,4}){1,7}|:)|fe80:(:[0-9a-fA-F]{0,4}){0,4}%[0-9a-zA-Z]{1,}|::(ffff(:0{1,4}){0,1}:){0,1}((25[0-5]|(2[0-4]|1{0,1}[0-9]){0,1}[0-9])\.){3,3}(25[0-5]|(2[0-4]|1{0,1}[0-9]){0,1}[0-9])|([0-9a-fA-F]{1,4}:){1,4}:((25[0-5]|(2[0-4]|1{0,1}[0-9]){0,1}[0-9])\.){3,3}(25[0-5]|(2[0-4]|1{0,1}[0-9]){0,1}[0-9]))$/;
-  return ipv6Regex.test(ip);
+export function getValidationMessageTemplate(id: ValidationMessageId, locale = activeLocale): string {
+  const candidates = [locale, locale.split('-')[0], DEFAULT_MESSAGE_LOCALE];
+
+  for (const candidate of candidates) {
+    const template = messageCatalogs[candidate]?.[id];
+    if (template !== undefined) return template;
+  }
+
+  return id;
 }
 
 /**
- * Validate password strength
+ * Replace `{name}` placeholders in a message template
  */
+export function formatValidationMessage(template: string, params: Record<string, unknown>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Get a message in the given (or active) locale with its placeholders filled
+ */
+export function getValidationMessage(
+  id: ValidationMessageId,
+  params: Record<string, unknown> = {},
+  locale?: string
+): string {
+  return formatValidationMessage(getValidationMessageTemplate(id, locale), params);
+}
+
 export interface PasswordStrength {
   score: number; // 0-4
+  /**
+   * Policy violations; with a policy the password is invalid while any are
+   * present
+   */
   feedback: string[];
   isValid: boolean;
+  /**
+   * Estimated entropy in bits
+   */
+  entropy: number;
+  /**
+   * Hints on how to make the password harder to guess
+   */
+  suggestions: string[];
 }
 
+export interface PasswordPolicy {
+  minLength?: number;
+  maxLength?: number;
+  requireLowercase?: boolean;
+  requireUppercase?: boolean;
+  requireNumber?: boolean;
+  requireSpecial?: boolean;
+  /**
+   * Characters accepted for `requireSpecial`
+   */
+  specialCharacters?: string;
+  /**
+   * Strings the password must not contain, such as the username or email
+   */
+  bannedSubstrings?: string[];
+  /**
+   * Longest allowed run of the same character (at least 1)
+   */
+  maxRepeatedCharacters?: number;
+  /**
+   * Reject passwords from the common password list
+   */
+  blockCommonPasswords?: boolean;
+  /**
+   * Lowest estimated strength score (0-4) accepted
+   */
+  minScore?: number;
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireNumber: true,
+  requireSpecial: true,
+  specialCharacters: '!@#$%^&*(),.?":{}|<>',
+  blockCommonPasswords: true,
+  minScore: 2
+};
+
+/**
+ * Checks applied when only a minimum length is passed
+ */
+const LEGACY_PASSWORD_POLICY: PasswordPolicy = {
+  ...DEFAULT_PASSWORD_POLICY,
+  blockCommonPasswords: false,
+  minScore: 0
+};
+
+/**
+ * Expand banned values so an email address also bans its local part
+ */
+function getBannedSubstrings(values: string[]): string[] {
+  const banned: string[] = [];
+  for (const value of values) {
+    banned.push(value);
+    const at = value.indexOf('@');
+    if (at > 0) banned.push(value.slice(0, at));
+  }
+  return banned.filter(value => value.length >= 3);
+}
+
+/**
+ * Validate a password against a policy and estimate its strength. Passing a
+ * number keeps the original checks (length, lowercase, uppercase, number
+ * and special character) with that minimum length, and the password stays
+ * valid while at most one of them fails.
+ */
 export function validatePasswordStrength(
   password: string,
-  minLength = 8
+  policy: number | PasswordPolicy = 8,
+  locale?: string
 ): PasswordStrength {
+  const legacy = typeof policy === 'number';
+  const rules: PasswordPolicy = typeof policy === 'number'
+    ? { ...LEGACY_PASSWORD_POLICY, minLength: policy }
+    : { ...DEFAULT_PASSWORD_POLICY, ...policy };
+  if (rules.maxRepeatedCharacters !== undefined && rules.maxRepeatedCharacters < 1) {
+    throw new Error('maxRepeatedCharacters must be at least 1');
+  }
+  const message = (id: PasswordMessageId, params: Record<string, unknown> = {}): string =>
+    getValidationMessage(id, params, locale);
+
   const feedback: string[] = [];
-  let score = 0;
+  const banned = getBannedSubstrings(rules.bannedSubstrings || []);
+  const lower = password.toLowerCase();
 
-  if (password.length < minLength) {
-    feedback.push(`Password must be at least ${minLength} characters long`);
-  } else {
-    score++;
+  if (rules.minLength !== undefined && password.length < rules.minLength) {
+    feedback.push(message('password.minLength', { minLength: rules.minLength }));
   }
-
-  if (!/[a-z]/.test(password)) {
-    feedback.push('Password must contain at least one lowercase letter');
-  } else {
-    score++;
+  if (rules.maxLength !== undefined && password.length > rules.maxLength) {
+    feedback.push(message('password.maxLength', { maxLength: rules.maxLength }));
   }
-
-  if (!/[A-Z]/.test(password)) {
-    feedback.push('Password must contain at least one uppercase letter');
-  } else {
-    score++;
+  if (rules.requireLowercase && !/[a-z]/.test(password)) {
+    feedback.push(message('password.lowercase'));
+  }
+  if (rules.requireUppercase && !/[A-Z]/.test(password)) {
+    feedback.push(message('password.uppercase'));
+  }
+  if (rules.requireNumber && !/\d/.test(password)) {
+    feedback.push(message('password.number'));
+  }
+  if (rules.requireSpecial && ![...password].some(char => (rules.specialCharacters || '').includes(char))) {
+    feedback.push(message('password.special'));
+  }
+  for (const value of banned) {
+    if (lower.includes(value.toLowerCase())) {
+      feedback.push(message('password.banned', { value }));
+    }
+  }
+  if (rules.maxRepeatedCharacters !== undefined && new RegExp(`(.)\\1{${rules.maxRepeatedCharacters}}`).test(password)) {
+    feedback.push(message('password.repeated', { max: rules.maxRepeatedCharacters }));
+  }
+  if (rules.blockCommonPasswords && isCommonPassword(password)) {
+    feedback.push(message('password.common'));
   }
 
-  if (!/\d/.test(password)) {
-    feedback.push('Password must contain at least one number');
-  } else {
-    score++;
+  const estimate = estimatePasswordEntropy(password, banned);
+  const minScore = rules.minScore || 0;
+  if (password.length > 0 && estimate.score < minScore && feedback.length === 0) {
+    feedback.push(message('password.weak'));
   }
 
-  if (!/[!@#$%^&*(),.?":{}|<>]/.test(password)) {
-    feedback.push('Password must contain at least one special character');
-  } else {
-    score++;
+  const suggestions: string[] = [];
+  for (const match of estimate.matches) {
+    // Banned strings are already reported as policy violations
+    if (match.pattern === 'banned') continue;
+
+    const id: PasswordMessageId = match.pattern === 'dictionary' && match.l33t
+      ? 'password.l33t'
+      : `password.${match.pattern}`;
+    const text = message(id, { token: match.token });
+    if (!suggestions.includes(text)) suggestions.push(text);
+  }
+  if (estimate.score < 3) {
+    suggestions.push(message('password.addLength'));
   }
 
   return {
-    score: Math.max(0, score - 1), // Adjust to 0-4 scale
+    score: estimate.score,
     feedback,
-    isValid: score >= 4
+    isValid: legacy ? feedback.length <= 1 : feedback.length === 0 && estimate.score >= minScore,
+    entropy: estimate.entropy,
+    suggestions
   };
 }
 
@@ -190,3 +648,642 @@ export function isInRange(value: number, min: number, max: number): boolean {
 export function matchesPattern(str: string, pattern: RegExp): boolean {
   return pattern.test(str);
 }
+
+/**
+ * Schema validation
+ */
+
+export type ValueType = 'string' | 'number' | 'boolean' | 'date' | 'object' | 'array';
+
+/**
+ * Names of the built-in rules, also used as message template keys
+ */
+export type RuleName =
+  | 'required'
+  | 'type'
+  | 'minLength'
+  | 'maxLength'
+  | 'pattern'
+  | 'min'
+  | 'max'
+  | 'integer'
+  | 'range'
+  | 'minItems'
+  | 'maxItems'
+  | 'oneOf'
+  | 'anyOf'
+  | 'email'
+  | 'url'
+  | 'phone'
+  | 'creditCard'
+  | 'iban'
+  | 'bic'
+  | 'postalCode'
+  | 'checkDigit'
+  | 'ipv4'
+  | 'ipv6'
+  | 'json'
+  | 'alpha'
+  | 'alphanumeric'
+  | 'hexColor'
+  | 'custom';
+
+export interface ValidationContext {
+  path: string;
+  data: any;
+}
+
+export interface ValidationRule {
+  required?: boolean;
+  /**
+   * Reject only absent, null and undefined values; unlike `required`,
+   * empty strings pass
+   */
+  presence?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: RegExp;
+  custom?: (value: any) => boolean | string;
+  /**
+   * Async-capable custom rule; return false or a message to fail
+   */
+  validate?: (value: any, context: ValidationContext) => boolean | string | Promise<boolean | string>;
+  type?: ValueType;
+  /**
+   * Accept null even when the value is required
+   */
+  nullable?: boolean;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  range?: [number, number];
+  minItems?: number;
+  maxItems?: number;
+  oneOf?: readonly any[];
+  /**
+   * Alternative rules; the value must satisfy at least one
+   */
+  anyOf?: ValidationRule[];
+  email?: boolean | EmailOptions;
+  url?: boolean | URLOptions;
+  /**
+   * true, or a country code to require a valid number of that region
+   */
+  phone?: boolean | string;
+  creditCard?: boolean;
+  iban?: boolean;
+  bic?: boolean;
+  /**
+   * Country code whose postal code format the value must match
+   */
+  postalCode?: string;
+  /**
+   * Name of a registered check-digit algorithm, e.g. `isbn13`
+   */
+  checkDigit?: string;
+  ipv4?: boolean;
+  ipv6?: boolean;
+  json?: boolean;
+  alpha?: boolean;
+  alphanumeric?: boolean;
+  hexColor?: boolean;
+  /**
+   * Rules for the keys of a nested object
+   */
+  properties?: ValidationSchema;
+  /**
+   * Rule applied to every element of an array
+   */
+  items?: ValidationRule;
+  /**
+   * Field name used in messages instead of the path
+   */
+  label?: string;
+  messages?: Partial<Record<RuleName, string>>;
+}
+
+export type ValidationSchema = Record<string, ValidationRule>;
+
+export interface ValidationResult {
+  isValid: boolean;
+  errors: Record<string, string[]>;
+}
+
+export interface ValidateOptions {
+  /**
+   * Message catalog locale; defaults to the active validation locale
+   */
+  locale?: string;
+  /**
+   * Message templates overriding the catalog for every field
+   */
+  messages?: Partial<Record<RuleName, string>>;
+}
+
+type PredicateRuleName =
+  | 'email'
+  | 'url'
+  | 'phone'
+  | 'creditCard'
+  | 'iban'
+  | 'bic'
+  | 'postalCode'
+  | 'checkDigit'
+  | 'ipv4'
+  | 'ipv6'
+  | 'json'
+  | 'alpha'
+  | 'alphanumeric'
+  | 'hexColor';
+
+/**
+ * String predicates switched on by a rule flag; the flag's value is passed
+ * as the predicate's option
+ */
+const PREDICATE_RULES: Record<PredicateRuleName, (value: string, option: any) => boolean> = {
+  email: (value, options) => isEmail(value, typeof options === 'object' ? options : {}),
+  url: (value, options) => isURL(value, typeof options === 'object' ? options : {}),
+  phone: (value, country) => isPhone(value, typeof country === 'string' ? country : undefined),
+  creditCard: value => isCreditCard(value),
+  iban: value => isIBAN(value),
+  bic: value => isBIC(value),
+  postalCode: (value, country) => isPostalCode(value, country),
+  checkDigit: (value, algorithm) => hasValidCheckDigit(value, algorithm),
+  ipv4: value => isIPv4(value),
+  ipv6: value => isIPv6(value),
+  json: value => isJSON(value),
+  alpha: value => isAlpha(value),
+  alphanumeric: value => isAlphanumeric(value),
+  hexColor: value => isHexColor(value)
+};
+
+/**
+ * Check if a value counts as missing for the `required` rule
+ */
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Check a value against a value type
+ */
+function matchesType(value: unknown, type: ValueType): boolean {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' && !isNaN(value);
+    case 'date':
+      return value instanceof Date && !isNaN(value.getTime());
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Join a parent path and a key into `a.b` / `a[0]` notation
+ */
+function joinPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+interface ValidationRun {
+  data: any;
+  options: ValidateOptions;
+  errors: Record<string, string[]>;
+  pending: Promise<void>[];
+}
+
+/**
+ * Record an error message for a path
+ */
+function addError(run: ValidationRun, path: string, rule: ValidationRule, name: RuleName, params: Record<string, unknown> = {}, message?: string): void {
+  const template = message
+    || rule.messages?.[name]
+    || run.options.messages?.[name]
+    || getValidationMessageTemplate(name, run.options.locale);
+  const text = formatValidationMessage(template, { field: rule.label || path || 'value', ...rule, ...params });
+  (run.errors[path] = run.errors[path] || []).push(text);
+}
+
+/**
+ * Record the outcome of a custom rule
+ */
+function handleCustomResult(run: ValidationRun, path: string, rule: ValidationRule, result: boolean | string): void {
+  if (result === true) return;
+  addError(run, path, rule, 'custom', {}, typeof result === 'string' ? result : undefined);
+}
+
+/**
+ * Turn an error thrown or rejected by a custom rule into a failing result
+ */
+function errorToResult(error: unknown): string | false {
+  return error instanceof Error ? error.message : false;
+}
+
+/**
+ * Call a custom rule, treating a synchronous throw like a rejected promise
+ */
+function callCustomRule<R>(call: () => R): R | string | false {
+  try {
+    return call();
+  } catch (error) {
+    return errorToResult(error);
+  }
+}
+
+/**
+ * Validate one value against one rule, recursing into nested schemas
+ */
+function runRule(run: ValidationRun, value: any, rule: ValidationRule, path: string): void {
+  if (isEmptyValue(value)) {
+    const missing = rule.required || (rule.presence && (value === undefined || value === null));
+    if (missing && !(rule.nullable && value === null)) addError(run, path, rule, 'required');
+    return;
+  }
+
+  if (rule.type && !matchesType(value, rule.type)) {
+    addError(run, path, rule, 'type');
+    return;
+  }
+
+  if (typeof value === 'string') {
+    if (rule.minLength !== undefined && value.length < rule.minLength) addError(run, path, rule, 'minLength');
+    if (rule.maxLength !== undefined && value.length > rule.maxLength) addError(run, path, rule, 'maxLength');
+    if (rule.pattern && !matchesPattern(value, rule.pattern)) addError(run, path, rule, 'pattern');
+
+    for (const name of Object.keys(PREDICATE_RULES) as PredicateRuleName[]) {
+      if (rule[name] && !PREDICATE_RULES[name](value, rule[name])) addError(run, path, rule, name);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (rule.min !== undefined && value < rule.min) addError(run, path, rule, 'min');
+    if (rule.max !== undefined && value > rule.max) addError(run, path, rule, 'max');
+    if (rule.integer && !Number.isInteger(value)) addError(run, path, rule, 'integer');
+    if (rule.range && !isInRange(value, rule.range[0], rule.range[1])) {
+      addError(run, path, rule, 'range', { rangeMin: rule.range[0], rangeMax: rule.range[1] });
+    }
+  }
+
+  if (rule.oneOf && !rule.oneOf.includes(value)) {
+    addError(run, path, rule, 'oneOf', { oneOf: rule.oneOf.join(', ') });
+  }
+
+  if (rule.anyOf) {
+    runAlternatives(run, value, rule, path);
+  }
+
+  if (rule.custom) {
+    const custom = rule.custom;
+    handleCustomResult(run, path, rule, callCustomRule(() => custom(value)));
+  }
+
+  if (rule.validate) {
+    const validator = rule.validate;
+    const result = callCustomRule(() => validator(value, { path, data: run.data }));
+    if (result instanceof Promise) {
+      run.pending.push(result.then(
+        resolved => handleCustomResult(run, path, rule, resolved),
+        error => handleCustomResult(run, path, rule, errorToResult(error))
+      ));
+    } else {
+      handleCustomResult(run, path, rule, result);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (rule.minItems !== undefined && value.length < rule.minItems) addError(run, path, rule, 'minItems');
+    if (rule.maxItems !== undefined && value.length > rule.maxItems) addError(run, path, rule, 'maxItems');
+    if (rule.items) {
+      const items = rule.items;
+      value.forEach((item, index) => runRule(run, item, items, joinPath(path, index)));
+    }
+  }
+
+  if (rule.properties && typeof value === 'object') {
+    runSchema(run, value, rule.properties, path);
+  }
+}
+
+/**
+ * Check a value against each alternative of an `anyOf` rule in isolation
+ */
+function runAlternatives(run: ValidationRun, value: any, rule: ValidationRule, path: string): void {
+  const branches = (rule.anyOf || []).map(alternative => {
+    const branch = createRun(run.data, run.options);
+    runRule(branch, value, alternative, path);
+    return branch;
+  });
+
+  const settle = (): void => {
+    if (!branches.some(branch => Object.keys(branch.errors).length === 0)) {
+      addError(run, path, rule, 'anyOf');
+    }
+  };
+
+  const pending = branches.reduce<Promise<void>[]>((all, branch) => all.concat(branch.pending), []);
+  if (pending.length > 0) {
+    run.pending.push(Promise.all(pending).then(settle));
+  } else {
+    settle();
+  }
+}
+
+/**
+ * Validate every key of a schema
+ */
+function runSchema(run: ValidationRun, data: any, schema: ValidationSchema, path: string): void {
+  for (const [key, rule] of Object.entries(schema)) {
+    runRule(run, data ? data[key] : undefined, rule, joinPath(path, key));
+  }
+}
+
+/**
+ * Start an empty validation run
+ */
+function createRun(data: any, options: ValidateOptions): ValidationRun {
+  return { data, options, errors: {}, pending: [] };
+}
+
+/**
+ * Build a validation result from collected errors
+ */
+function toResult(errors: Record<string, string[]>): ValidationResult {
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors
+  };
+}
+
+/**
+ * Validate data against a schema, awaiting async rules
+ */
+export async function validate(
+  data: any,
+  schema: ValidationSchema,
+  options: ValidateOptions = {}
+): Promise<ValidationResult> {
+  const run = createRun(data, options);
+  runSchema(run, data, schema, '');
+  await Promise.all(run.pending);
+  return toResult(run.errors);
+}
+
+/**
+ * Validate data against a schema synchronously. Throws if a rule returns a
+ * promise; use validate() for schemas with async rules.
+ */
+export function validateSync(
+  data: any,
+  schema: ValidationSchema,
+  options: ValidateOptions = {}
+): ValidationResult {
+  const run = createRun(data, options);
+  runSchema(run, data, schema, '');
+
+  if (run.pending.length > 0) {
+    throw new Error('Schema contains async rules; use validate() instead of validateSync()');
+  }
+
+  return toResult(run.errors);
+}
+
+/**
+ * Get the first error message of each path
+ */
+export function getFirstErrors(result: ValidationResult): Record<string, string> {
+  const first: Record<string, string> = {};
+  for (const [path, messages] of Object.entries(result.errors)) {
+    first[path] = messages[0];
+  }
+  return first;
+}
+
+/**
+ * Schema builders
+ */
+
+export type ParseResult<T> =
+  | { isValid: true; data: T; errors: Record<string, string[]> }
+  | { isValid: false; data: null; errors: Record<string, string[]> };
+
+/**
+ * Build a parse result from a finished validation run
+ */
+function toParseResult<T>(data: any, errors: Record<string, string[]>): ParseResult<T> {
+  return Object.keys(errors).length === 0
+    ? { isValid: true, data: data as T, errors }
+    : { isValid: false, data: null, errors };
+}
+
+/**
+ * A validation rule carrying the static type of the values it accepts.
+ * Values are required unless the schema is made optional.
+ */
+export class SchemaType<T> {
+  declare readonly _type: T;
+
+  constructor(readonly rule: ValidationRule) {}
+
+  /**
+   * Copy this schema with extra rule options
+   */
+  protected extend(rule: ValidationRule): this {
+    const Constructor = this.constructor as new (rule: ValidationRule) => this;
+    return new Constructor({ ...this.rule, ...rule });
+  }
+
+  /**
+   * Accept undefined (and other empty values)
+   */
+  optional(): SchemaType<T | undefined> {
+    return new SchemaType<T | undefined>({ ...this.rule, required: false });
+  }
+
+  /**
+   * Accept null
+   */
+  nullable(): SchemaType<T | null> {
+    return new SchemaType<T | null>({ ...this.rule, nullable: true });
+  }
+
+  /**
+   * Name used for the value in error messages
+   */
+  label(label: string): this {
+    return this.extend({ label });
+  }
+
+  /**
+   * Override message templates for this schema
+   */
+  messages(messages: Partial<Record<RuleName, string>>): this {
+    return this.extend({ messages: { ...this.rule.messages, ...messages } });
+  }
+
+  /**
+   * Add a custom check; return false or a message to fail. May be async.
+   */
+  refine(
+    check: (value: T, context: ValidationContext) => boolean | string | Promise<boolean | string>
+  ): this {
+    const previous = this.rule.validate;
+    if (!previous) {
+      return this.extend({ validate: check });
+    }
+
+    return this.extend({
+      validate: (value, context) => {
+        const first = previous(value, context);
+        return first instanceof Promise
+          ? first.then(result => (result === true ? check(value, context) : result))
+          : first === true ? check(value, context) : first;
+      }
+    });
+  }
+
+  /**
+   * Validate a value synchronously. Throws if the schema has async checks.
+   */
+  parse(data: unknown, options: ValidateOptions = {}): ParseResult<T> {
+    const run = createRun(data, options);
+    runRule(run, data, this.rule, '');
+
+    if (run.pending.length > 0) {
+      throw new Error('Schema contains async rules; use parseAsync() instead of parse()');
+    }
+
+    return toParseResult<T>(data, run.errors);
+  }
+
+  /**
+   * Validate a value, awaiting async checks
+   */
+  async parseAsync(data: unknown, options: ValidateOptions = {}): Promise<ParseResult<T>> {
+    const run = createRun(data, options);
+    runRule(run, data, this.rule, '');
+    await Promise.all(run.pending);
+    return toParseResult<T>(data, run.errors);
+  }
+}
+
+export class StringSchema extends SchemaType<string> {
+  min(length: number): this {
+    return this.extend({ minLength: length });
+  }
+
+  max(length: number): this {
+    return this.extend({ maxLength: length });
+  }
+
+  pattern(pattern: RegExp): this {
+    return this.extend({ pattern });
+  }
+
+  email(options?: EmailOptions): this {
+    return this.extend({ email: options || true });
+  }
+
+  url(options?: URLOptions): this {
+    return this.extend({ url: options || true });
+  }
+
+  phone(country?: string): this {
+    return this.extend({ phone: country || true });
+  }
+
+  iban(): this {
+    return this.extend({ iban: true });
+  }
+
+  postalCode(country: string): this {
+    return this.extend({ postalCode: country });
+  }
+
+  checkDigit(algorithm: string): this {
+    return this.extend({ checkDigit: algorithm });
+  }
+}
+
+export class NumberSchema extends SchemaType<number> {
+  min(min: number): this {
+    return this.extend({ min });
+  }
+
+  max(max: number): this {
+    return this.extend({ max });
+  }
+
+  int(): this {
+    return this.extend({ integer: true });
+  }
+}
+
+export class ArraySchema<T> extends SchemaType<T[]> {
+  min(count: number): this {
+    return this.extend({ minItems: count });
+  }
+
+  max(count: number): this {
+    return this.extend({ maxItems: count });
+  }
+}
+
+export type ObjectShape = Record<string, SchemaType<any>>;
+
+/**
+ * Static type of a schema
+ */
+export type Infer<S> = S extends SchemaType<infer T> ? T : never;
+
+type OptionalKeys<S extends ObjectShape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+export type InferShape<S extends ObjectShape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+/**
+ * Build the rules for the keys of an object shape
+ */
+function shapeToSchema(shape: ObjectShape): ValidationSchema {
+  const properties: ValidationSchema = {};
+  for (const [key, type] of Object.entries(shape)) {
+    properties[key] = type.rule;
+  }
+  return properties;
+}
+
+/**
+ * Schema builders whose static type can be read with `Infer<typeof schema>`
+ */
+export const schema = {
+  string: (): StringSchema => new StringSchema({ required: true, type: 'string' }),
+  number: (): NumberSchema => new NumberSchema({ required: true, type: 'number' }),
+  boolean: (): SchemaType<boolean> => new SchemaType<boolean>({ required: true, type: 'boolean' }),
+  date: (): SchemaType<Date> => new SchemaType<Date>({ required: true, type: 'date' }),
+  enum: <const V extends readonly [string | number, ...(string | number)[]]>(values: V): SchemaType<V[number]> =>
+    new SchemaType<V[number]>({ required: true, oneOf: values }),
+  literal: <V extends string | number | boolean>(value: V): SchemaType<V> =>
+    new SchemaType<V>({ required: true, oneOf: [value] }),
+  object: <S extends ObjectShape>(shape: S): SchemaType<InferShape<S>> =>
+    new SchemaType<InferShape<S>>({ required: true, type: 'object', properties: shapeToSchema(shape) }),
+  array: <T>(items: SchemaType<T>): ArraySchema<T> =>
+    new ArraySchema<T>({ required: true, type: 'array', items: items.rule }),
+  union: <S extends [SchemaType<any>, ...SchemaType<any>[]]>(...options: S): SchemaType<Infer<S[number]>> =>
+    new SchemaType<Infer<S[number]>>({
+      required: options.every(option => option.rule.required),
+      nullable: options.some(option => option.rule.nullable),
+      anyOf: options.map(option => option.rule)
+    }),
+  optional: <T>(type: SchemaType<T>): SchemaType<T | undefined> => type.optional(),
+  nullable: <T>(type: SchemaType<T>): SchemaType<T | null> => type.nullable()
+};
@@ -3,10 +3,13 @@
  */
 
 import { Pipe, PipeTransform } from '@angular/core';
-import { formatDate, DateFormat } from '../../core/date';
+import { formatDate, parseDate, DateFormat } from '../../core/date';
+import { formatRelativeTime } from '../../core/duration';
 import { formatCurrency, CurrencyOptions, formatPercentage } from '../../core/number';
 import { capitalize, truncate, camelCase, kebabCase } from '../../core/string';
 import { formatBytes } from '../../core/number';
+import { parsePhoneNumber, formatPhoneNumber, PhoneNumberFormat } from '../../core/phone';
+import { formatCardNumber, maskCardNumber } from '../../core/card';
 
 /**
  * Date formatting pipe
@@ -16,13 +19,23 @@ import { formatBytes } from '../../core/number';
   pure: true
 })
 export class SupportDatePipe implements PipeTransform {
-  transform(value: Date | string | number, format: DateFormat = 'MMM DD, YYYY'): string {
+  transform(
+    value: Date | string | number,
+    format: DateFormat | (string & {}) = 'MMM DD, YYYY',
+    locale?: string,
+    inputFormat?: DateFormat | (string & {})
+  ): string {
     if (!value) return '';
     
-    const date = value instanceof Date ? value : new Date(value);
-    if (isNaN(date.getTime())) return '';
+    let date: Date | null;
+    if (typeof value === 'string' && inputFormat) {
+      date = parseDate(value, inputFormat, locale ? { locale } : {}).date;
+    } else {
+      date = value instanceof Date ? value : new Date(value);
+    }
+    if (!date || isNaN(date.getTime())) return '';
     
-    return formatDate(date, format);
+    return formatDate(date, format, locale ? { locale } : {});
   }
 }
 
@@ -176,48 +189,20 @@ export class SupportSafeHtmlPipe implements PipeTransform {
 }
 
 /**
- * Time ago pipe
+ * Time ago pipe ("3 days ago", "1 day ago"); under a minute reads "now"
  */
 @Pipe({
   name: 'supportTimeAgo',
   pure: true
 })
 export class SupportTimeAgoPipe implements PipeTransform {
-  transform(value: Date | string | number): string {
+  transform(value: Date | string | number, locale = 'en-US'): string {
     if (!value) return '';
     
     const date = value instanceof Date ? value : new Date(value);
     if (isNaN(date.getTime())) return '';
     
-    const now = new Date();
-    const diffInSeconds = Math.floor((now.getTime() - date.getTime()) / 1000);
-    
-    if (diffInSeconds < 60) {
-      return 'just now';
-    }
-    
-    const diffInMinutes = Math.floor(diffInSeconds / 60);
-    if (diffInMinutes < 60) {
-      return `${diffInMinutes} ${diffInMinutes === 1 ? 'minute' : 'minutes'} ago`;
-    }
-    
-    const diffInHours = Math.floor(diffInMinutes / 60);
-    if (diffInHours < 24) {
-      return `${diffInHours} ${diffInHours === 1 ? 'hour' : 'hours'} ago`;
-    }
-    
-    const diffInDays = Math.floor(diffInHours / 24);
-    if (diffInDays < 30) {
-      return `${diffInDays} ${diffInDays === 1 ? 'day' : 'days'} ago`;
-    }
-    
-    const diffInMonths = Math.floor(diffInDays / 30);
-    if (diffInMonths < 12) {
-      return `${diffInMonths} ${diffInMonths === 1 ? 'month' : 'months'} ago`;
-    }
-    
-    const diffInYears = Math.floor(diffInMonths / 12);
-    return `${diffInYears} ${diffInYears === 1 ? 'year' : 'years'} ago`;
+    return formatRelativeTime(date, new Date(), { locale, numeric: 'always' });
   }
 }
 
@@ -299,6 +284,41 @@ export class SupportDefaultPipe implements PipeTransform {
   }
 }
 
+/**
+ * Phone number formatting pipe
+ */
+@Pipe({
+  name: 'supportPhone',
+  pure: true
+})
+export class SupportPhonePipe implements PipeTransform {
+  transform(
+    value: string | null | undefined,
+    format: PhoneNumberFormat = 'INTERNATIONAL',
+    defaultCountry?: string
+  ): string {
+    if (!value) return '';
+
+    const phone = parsePhoneNumber(value, defaultCountry);
+    return phone ? formatPhoneNumber(phone, format) : value;
+  }
+}
+
+/**
+ * Card number pipe: groups digits by brand, or masks all but the last four
+ */
+@Pipe({
+  name: 'supportCardNumber',
+  pure: true
+})
+export class SupportCardNumberPipe implements PipeTransform {
+  transform(value: string | null | undefined, mode: 'format' | 'mask' = 'format', maskChar = '•'): string {
+    if (!value) return '';
+
+    return mode === 'mask' ? maskCardNumber(value, { maskChar }) : formatCardNumber(value);
+  }
+}
+
 /**
  * Highlight search text pipe
  */
@@ -2,13 +2,20 @@
  * Angular services for support-js-framework
  */
 
-import { Injectable, Optional } from '@angular/core';
+import { Injectable, InjectionToken, Optional, LOCALE_ID, inject } from '@angular/core';
 import { BehaviorSubject, Observable, fromEvent } from 'rxjs';
 import { debounceTime, throttleTime, distinctUntilChanged } from 'rxjs/operators';
 
 import { Logger, createLogger, LoggerConfig } from '../../core/logger';
-import { LocalStorage, SessionStorage } from '../../core/storage';
+import { Store, StoreOptions, StoreSetOptions, createStore } from '../../core/storage';
 import { getBrowserInfo, BrowserInfo } from '../../core/browser';
+import {
+  validate,
+  validateSync,
+  getFirstErrors,
+  ValidationSchema,
+  ValidationResult
+} from '../../core/validation';
 
 /**
  * Logger service for Angular
@@ -57,6 +64,19 @@ export class SupportLoggerService {
   }
 }
 
+/**
+ * Options for the stores of SupportStorageService. Encryption is not
+ * supported because its methods are synchronous; use `createStore` with
+ * `getAsync`/`setAsync` for encrypted values.
+ */
+export type SupportStorageConfig = Omit<StoreOptions, 'backend' | 'encryption'>;
+
+/**
+ * Provide `{ provide: SUPPORT_STORAGE_CONFIG, useValue: { prefix: 'app:' } }`
+ * to configure SupportStorageService
+ */
+export const SUPPORT_STORAGE_CONFIG = new InjectionToken<SupportStorageConfig>('SUPPORT_STORAGE_CONFIG');
+
 /**
  * Storage service for Angular
  */
@@ -64,61 +84,99 @@ export class SupportLoggerService {
   providedIn: 'root'
 })
 export class SupportStorageService {
+  private local: Store;
+  private session: Store;
+
+  constructor() {
+    const config = inject(SUPPORT_STORAGE_CONFIG, { optional: true }) || {};
+    if ('encryption' in config) {
+      throw new Error('SupportStorageService does not support encryption; use createStore() with getAsync()/setAsync()');
+    }
+
+    this.local = createStore({ ...config, backend: 'local' });
+    this.session = createStore({ ...config, backend: 'session' });
+  }
+
   /**
    * Local storage methods
    */
-  setLocal<T>(key: string, value: T): boolean {
-    return LocalStorage.set(key, value);
+  setLocal<T>(key: string, value: T, options: StoreSetOptions = {}): boolean {
+    return this.local.set(key, value, options);
   }
 
   getLocal<T>(key: string): T | null {
-    return LocalStorage.get<T>(key);
+    return this.local.get<T>(key);
   }
 
   getLocalWithDefault<T>(key: string, defaultValue: T): T {
-    return LocalStorage.getWithDefault(key, defaultValue);
+    return this.local.getWithDefault(key, defaultValue);
   }
 
   removeLocal(key: string): boolean {
-    return LocalStorage.remove(key);
+    return this.local.remove(key);
   }
 
   clearLocal(): boolean {
-    return LocalStorage.clear();
+    return this.local.clear();
+  }
+
+  /**
+   * Emit the current value, then every change, including other tabs' writes
+   */
+  watchLocal<T>(key: string): Observable<T | null> {
+    return this.watch(this.local, key);
   }
 
   /**
    * Session storage methods
    */
-  setSession<T>(key: string, value: T): boolean {
-    return SessionStorage.set(key, value);
+  setSession<T>(key: string, value: T, options: StoreSetOptions = {}): boolean {
+    return this.session.set(key, value, options);
   }
 
   getSession<T>(key: string): T | null {
-    return SessionStorage.get<T>(key);
+    return this.session.get<T>(key);
   }
 
   getSessionWithDefault<T>(key: string, defaultValue: T): T {
-    return SessionStorage.getWithDefault(key, defaultValue);
+    return this.session.getWithDefault(key, defaultValue);
   }
 
   removeSession(key: string): boolean {
-    return SessionStorage.remove(key);
+    return this.session.remove(key);
   }
 
   clearSession(): boolean {
-    return SessionStorage.clear();
+    return this.session.clear();
+  }
+
+  watchSession<T>(key: string): Observable<T | null> {
+    return this.watch(this.session, key);
+  }
+
+  private watch<T>(store: Store, key: string): Observable<T | null> {
+    return new Observable<T | null>(subscriber => {
+      subscriber.next(store.get<T>(key));
+      return store.subscribe<T>(key, value => subscriber.next(value));
+    });
+  }
+
+  /**
+   * Create a separate namespaced store, e.g. per feature module
+   */
+  createStore(options: StoreOptions = {}): Store {
+    return createStore(options);
   }
 
   /**
    * Check storage availability
    */
   isLocalStorageAvailable(): boolean {
-    return LocalStorage.isAvailable();
+    return this.local.isAvailable();
   }
 
   isSessionStorageAvailable(): boolean {
-    return SessionStorage.isAvailable();
+    return this.session.isAvailable();
   }
 }
 
@@ -329,6 +387,8 @@ export class SupportErrorService {
   providedIn: 'root'
 })
 export class SupportUtilsService {
+  private locale = inject(LOCALE_ID, { optional: true }) ?? undefined;
+
   constructor(
     private storage: SupportStorageService,
     private logger: SupportLoggerService,
@@ -405,41 +465,29 @@ export class SupportUtilsService {
   }
 
   /**
-   * Validate form data
+   * Validate form data, returning the first error message of each field.
+   * Messages use the app's LOCALE_ID unless a locale is given.
    */
-  validateForm(data: Record<string, any>, rules: Record<string, any>): {
+  validateForm(data: Record<string, any>, rules: ValidationSchema, locale = this.locale): {
     isValid: boolean;
     errors: Record<string, string>;
   } {
-    const errors: Record<string, string> = {};
-    
-    for (const [field, rule] of Object.entries(rules)) {
-      const value = data[field];
-      
-      if (rule.required && (!value || value.toString().trim() === '')) {
-        errors[field] = `${field} is required`;
-        continue;
-      }
-      
-      if (rule.minLength && value && value.length < rule.minLength) {
-        errors[field] = `${field} must be at least ${rule.minLength} characters`;
-        continue;
-      }
-      
-      if (rule.maxLength && value && value.length > rule.maxLength) {
-        errors[field] = `${field} must be no more than ${rule.maxLength} characters`;
-        continue;
-      }
-      
-      if (rule.pattern && value && !rule.pattern.test(value)) {
-        errors[field] = `${field} format is invalid`;
-        continue;
-      }
-    }
-    
+    const result = validateSync(data, rules, locale ? { locale } : {});
+
     return {
-      isValid: Object.keys(errors).length === 0,
-      errors
+      isValid: result.isValid,
+      errors: getFirstErrors(result)
     };
   }
+
+  /**
+   * Validate form data with async rules
+   */
+  validateFormAsync(
+    data: Record<string, any>,
+    rules: ValidationSchema,
+    locale = this.locale
+  ): Promise<ValidationResult> {
+    return validate(data, rules, locale ? { locale } : {});
+  }
 }
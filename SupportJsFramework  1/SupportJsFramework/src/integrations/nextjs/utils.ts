@@ -4,8 +4,29 @@
 
 import { GetServerSidePropsContext, GetStaticPropsContext } from 'next';
 import { formatDate } from '../../core/date';
+import { formatRelativeTime } from '../../core/duration';
 import { Logger, createLogger } from '../../core/logger';
-import { Storage } from '../../core/storage';
+import type { LogTransport } from '../../core/transports';
+import { Storage, Store, StoreOptions, StoreSetOptions, createStore } from '../../core/storage';
+import {
+  CookieJar,
+  CookieOptions,
+  NodeCookieRequest,
+  NodeCookieResponse,
+  appendSetCookie,
+  createNodeCookieJar,
+  createWebCookieJar,
+  parseCookies,
+  serializeCookie
+} from '../../core/cookie';
+import {
+  validate,
+  validateSync,
+  SchemaType,
+  ParseResult,
+  ValidationSchema,
+  ValidationResult
+} from '../../core/validation';
 
 /**
  * SSR-safe storage utilities
@@ -29,39 +50,67 @@ export class SSRStorage {
   /**
    * SSR-safe localStorage set
    */
-  static setLocal<T>(key: string, value: T): boolean {
+  static setLocal<T>(key: string, value: T, options: StoreSetOptions = {}): boolean {
     if (this.isServer()) return false;
-    return Storage.set(key, value);
+    return Storage.set(key, value, false, options);
+  }
+
+  /**
+   * Create a store that is memory-backed during server rendering
+   */
+  static createStore(options: StoreOptions = {}): Store {
+    return createStore(this.isServer() ? { ...options, backend: 'memory' } : options);
   }
 }
 
 /**
  * SEO-friendly date formatting for Next.js
+ *
+ * Pass the same `timeZone` on the server and the client so SSR markup and
+ * hydrated output agree.
  */
-export function formatSEODate(date: Date): string {
-  return formatDate(date, 'YYYY-MM-DD');
+export function formatSEODate(date: Date, timeZone?: string): string {
+  return formatDate(date, 'YYYY-MM-DD', timeZone ? { timeZone } : {});
 }
 
 /**
  * Generate structured data for dates
  */
-export function generateDateStructuredData(date: Date): object {
+export function generateDateStructuredData(date: Date, timeZone?: string): object {
   return {
     '@type': 'Date',
-    'dateTime': date.toISOString(),
-    'datePublished': formatSEODate(date)
+    'dateTime': timeZone
+      ? formatDate(date, 'YYYY-MM-DD[T]HH:mm:ss.SSSZ', { timeZone })
+      : date.toISOString(),
+    'datePublished': formatSEODate(date, timeZone)
+  };
+}
+
+/**
+ * Relative time label that renders identically on server and client.
+ * Pass the request time from getServerSideProps as `now` so hydration matches.
+ */
+export function formatSSRRelativeTime(
+  date: Date,
+  now: Date | number,
+  locale = 'en-US'
+): { dateTime: string; label: string } {
+  return {
+    dateTime: date.toISOString(),
+    label: formatRelativeTime(date, new Date(now), { locale })
   };
 }
 
 /**
  * Next.js compatible logger that works in both SSR and client
  */
-export function createNextLogger(prefix?: string): Logger {
+export function createNextLogger(prefix?: string, transports: LogTransport[] = []): Logger {
   return createLogger({
     prefix: prefix ? `Next.js:${prefix}` : 'Next.js',
     enableConsole: true,
     enableStorage: !SSRStorage.isServer(),
-    level: process.env.NODE_ENV === 'development' ? 'debug' : 'info'
+    level: process.env.NODE_ENV === 'development' ? 'debug' : 'info',
+    transports
   });
 }
 
@@ -148,81 +197,50 @@ export function generateMetaTags(meta: MetaTags): Record<string, string> {
  */
 export class NextCookies {
   /**
-   * Set cookie in API route
+   * Defaults for cookies set on the server
    */
-  static set(
-    res: any,
-    name: string,
-    value: string,
-    options: {
-      maxAge?: number;
-      expires?: Date;
-      path?: string;
-      domain?: string;
-      secure?: boolean;
-      httpOnly?: boolean;
-      sameSite?: 'strict' | 'lax' | 'none';
-    } = {}
-  ): void {
-    const defaultOptions = {
+  private static defaults(): CookieOptions {
+    return {
       path: '/',
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax' as const
+      sameSite: 'lax'
     };
+  }
 
-    const cookieOptions = { ...defaultOptions, ...options };
-    
-    let cookieString = `${encodeURIComponent(name)}=${encodeURIComponent(value)}`;
-
-    if (cookieOptions.maxAge) {
-      cookieString += `; Max-Age=${cookieOptions.maxAge}`;
-    }
-
-    if (cookieOptions.expires) {
-      cookieString += `; Expires=${cookieOptions.expires.toUTCString()}`;
-    }
-
-    if (cookieOptions.path) {
-      cookieString += `; Path=${cookieOptions.path}`;
-    }
-
-    if (cookieOptions.domain) {
-      cookieString += `; Domain=${cookieOptions.domain}`;
-    }
-
-    if (cookieOptions.secure) {
-      cookieString += '; Secure';
-    }
-
-    if (cookieOptions.httpOnly) {
-      cookieString += '; HttpOnly';
-    }
-
-    if (cookieOptions.sameSite) {
-      cookieString += `; SameSite=${cookieOptions.sameSite}`;
-    }
+  /**
+   * Set cookie in API route, keeping the `Set-Cookie` headers already set
+   */
+  static set(res: NodeCookieResponse | Headers, name: string, value: string, options: CookieOptions = {}): void {
+    appendSetCookie(res, serializeCookie(name, value, { ...this.defaults(), ...options }));
+  }
 
-    res.setHeader('Set-Cookie', cookieString);
+  /**
+   * Remove cookie; `path` and `domain` must match the ones it was set with
+   */
+  static remove(res: NodeCookieResponse | Headers, name: string, options: Pick<CookieOptions, 'path' | 'domain'> = {}): void {
+    this.set(res, name, '', { ...options, expires: new Date(0), maxAge: 0 });
   }
 
   /**
    * Parse cookies from request
    */
   static parse(cookieHeader?: string): Record<string, string> {
-    if (!cookieHeader) return {};
-
-    const cookies: Record<string, string> = {};
-    const items = cookieHeader.split(';');
+    return parseCookies(cookieHeader);
+  }
 
-    for (const item of items) {
-      const [name, value] = item.trim().split('=');
-      if (name && value) {
-        cookies[decodeURIComponent(name)] = decodeURIComponent(value);
-      }
-    }
+  /**
+   * Cookie jar for an API route or `getServerSideProps` request/response
+   */
+  static fromNode(req: NodeCookieRequest, res?: NodeCookieResponse): CookieJar {
+    return createNodeCookieJar(req, res, this.defaults());
+  }
 
-    return cookies;
+  /**
+   * Cookie jar for middleware and route handlers
+   */
+  static fromRequest(request: Request | Headers, response?: Response | Headers): CookieJar {
+    return createWebCookieJar(request, response, this.defaults());
   }
 }
 
@@ -343,21 +361,41 @@ export class APIHelpers {
   }
 
   /**
-   * Validate required fields
+   * Validate required fields; only absent, null and undefined fields are
+   * missing (use `validateBody` with `required` to reject empty strings)
    */
   static validateRequired(
     data: Record<string, any>,
     requiredFields: string[]
   ): string[] {
-    const missing: string[] = [];
-    
+    const schema: ValidationSchema = {};
     for (const field of requiredFields) {
-      if (!(field in data) || data[field] === null || data[field] === undefined) {
-        missing.push(field);
-      }
+      schema[field] = { presence: true };
     }
-    
-    return missing;
+
+    const { errors } = validateSync(data, schema);
+    return requiredFields.filter(field => field in errors);
+  }
+
+  /**
+   * Validate a request body against a schema
+   */
+  static validateBody(
+    data: Record<string, any>,
+    schema: ValidationSchema
+  ): Promise<ValidationResult> {
+    return validate(data, schema);
+  }
+
+  /**
+   * Validate a request body against a schema built with `schema`, returning
+   * the typed body when it is valid
+   */
+  static parseBody<T>(
+    data: unknown,
+    bodySchema: SchemaType<T>
+  ): Promise<ParseResult<T>> {
+    return bodySchema.parseAsync(data);
   }
 }
 
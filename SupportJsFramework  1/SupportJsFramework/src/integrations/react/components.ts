@@ -4,8 +4,12 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { debounce } from '../../core/performance';
-import { formatDate } from '../../core/date';
+import { formatDate, DateFormat, FormatDateOptions } from '../../core/date';
+import { formatRelativeTime } from '../../core/duration';
 import { formatCurrency } from '../../core/number';
+import { parsePhoneNumber, formatPhoneNumber, PhoneNumberFormat } from '../../core/phone';
+import { formatCardNumber, validateCardNumber, CardNumberValidation } from '../../core/card';
+import { ValidationLocaleContext } from './hooks';
 
 /**
  * Props for LazyImage component
@@ -144,7 +148,9 @@ export class ErrorBoundary extends React.Component<
  */
 export interface DateDisplayProps {
   date: Date;
-  format?: 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD HH:mm:ss' | 'MMM DD, YYYY' | 'MMMM DD, YYYY';
+  format?: DateFormat | (string & {});
+  locale?: string;
+  timeZone?: string;
   className?: string;
   style?: React.CSSProperties;
 }
@@ -155,10 +161,16 @@ export interface DateDisplayProps {
 export const DateDisplay: React.FC<DateDisplayProps> = ({
   date,
   format = 'MMM DD, YYYY',
+  locale,
+  timeZone,
   className = '',
   style = {}
 }) => {
-  const formattedDate = formatDate(date, format);
+  const options: FormatDateOptions = {};
+  if (locale) options.locale = locale;
+  if (timeZone) options.timeZone = timeZone;
+
+  const formattedDate = formatDate(date, format, options);
   
   return React.createElement('span', {
     className,
@@ -167,6 +179,54 @@ export const DateDisplay: React.FC<DateDisplayProps> = ({
   }, formattedDate);
 };
 
+/**
+ * Props for RelativeTime component
+ */
+export interface RelativeTimeProps {
+  date: Date;
+  baseDate?: Date;
+  locale?: string;
+  style?: React.CSSProperties;
+  className?: string;
+  /**
+   * How often to refresh the label in milliseconds (0 disables updates)
+   */
+  updateInterval?: number;
+}
+
+/**
+ * Relative time component ("3 minutes ago") that keeps itself up to date
+ */
+export const RelativeTime: React.FC<RelativeTimeProps> = ({
+  date,
+  baseDate,
+  locale = 'en-US',
+  updateInterval = 60000,
+  className = '',
+  style = {}
+}) => {
+  const [now, setNow] = useState(() => baseDate || new Date());
+
+  useEffect(() => {
+    if (baseDate) {
+      setNow(baseDate);
+      return undefined;
+    }
+
+    if (!updateInterval) return undefined;
+
+    const timer = setInterval(() => setNow(new Date()), updateInterval);
+    return () => clearInterval(timer);
+  }, [baseDate, updateInterval]);
+
+  return React.createElement('time', {
+    className,
+    style,
+    dateTime: date.toISOString(),
+    title: date.toISOString()
+  }, formatRelativeTime(date, now, { locale }));
+};
+
 /**
  * Props for CurrencyDisplay component
  */
@@ -196,6 +256,91 @@ export const CurrencyDisplay: React.FC<CurrencyDisplayProps> = ({
   }, formattedAmount);
 };
 
+/**
+ * Props for PhoneNumberDisplay component
+ */
+export interface PhoneNumberDisplayProps {
+  value: string;
+  defaultCountry?: string;
+  format?: PhoneNumberFormat;
+  /**
+   * Render a `tel:` link instead of plain text
+   */
+  link?: boolean;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+/**
+ * Phone number display component; unparseable numbers are shown as given
+ */
+export const PhoneNumberDisplay: React.FC<PhoneNumberDisplayProps> = ({
+  value,
+  defaultCountry,
+  format = 'INTERNATIONAL',
+  link = false,
+  className = '',
+  style = {}
+}) => {
+  const phone = parsePhoneNumber(value, defaultCountry);
+  const text = phone ? formatPhoneNumber(phone, format) : value;
+
+  if (link && phone) {
+    return React.createElement('a', {
+      href: formatPhoneNumber(phone, 'RFC3966'),
+      className,
+      style
+    }, text);
+  }
+
+  return React.createElement('span', {
+    className,
+    style
+  }, text);
+};
+
+/**
+ * Props for CardNumberInput component
+ */
+export interface CardNumberInputProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'value' | 'defaultValue' | 'onChange'> {
+  value?: string;
+  /**
+   * Called with the bare digits and their validation on every change
+   */
+  onChange?: (digits: string, validation: CardNumberValidation) => void;
+}
+
+/**
+ * Card number input that groups digits by brand as the user types
+ */
+export const CardNumberInput: React.FC<CardNumberInputProps> = ({
+  value = '',
+  onChange,
+  ...props
+}) => {
+  const [text, setText] = useState(formatCardNumber(value));
+
+  useEffect(() => {
+    setText(formatCardNumber(value));
+  }, [value]);
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const formatted = formatCardNumber(event.target.value);
+    const digits = formatted.replace(/\s/g, '');
+    setText(formatted);
+    onChange?.(digits, validateCardNumber(digits));
+  };
+
+  return React.createElement('input', {
+    type: 'text',
+    inputMode: 'numeric',
+    autoComplete: 'cc-number',
+    ...props,
+    value: text,
+    onChange: handleChange
+  });
+};
+
 /**
  * Props for DebounceInput component
  */
@@ -316,6 +461,21 @@ export function For<T>({ each, children, fallback }: ForProps<T>): React.ReactEl
   return React.createElement(React.Fragment, null, each.map(children));
 }
 
+/**
+ * Props for ValidationLocaleProvider component
+ */
+export interface ValidationLocaleProviderProps {
+  locale: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Sets the locale of validation messages for the hooks below it
+ */
+export const ValidationLocaleProvider: React.FC<ValidationLocaleProviderProps> = ({ locale, children }) => {
+  return React.createElement(ValidationLocaleContext.Provider, { value: locale }, children);
+};
+
 // Helper function to use createPortal safely
 const createPortal = (
   typeof React !== 'undefined' && 'createPortal' in React
@@ -2,10 +2,11 @@
  * React hooks for support-js-framework
  */
 
-import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo, useContext, createContext } from 'react';
 import { debounce, throttle } from '../../core/performance';
-import { LocalStorage, SessionStorage } from '../../core/storage';
+import { createStore, VersionedKeyOptions } from '../../core/storage';
 import { createLogger, Logger } from '../../core/logger';
+import { validate, getValidationLocale, ValidationSchema } from '../../core/validation';
 
 /**
  * Hook for debounced values
@@ -50,79 +51,99 @@ export function useThrottle<T>(value: T, limit: number): T {
 }
 
 /**
- * Hook for localStorage with JSON serialization
+ * Options for useLocalStorage and useSessionStorage. With a `version`,
+ * `migrations` or `schema`, stored values are migrated and validated on
+ * read and fall back to the initial value when unusable.
  */
-export function useLocalStorage<T>(
+export interface StorageHookOptions<T = any> extends Omit<VersionedKeyOptions<T>, 'defaultValue'> {
+  /**
+   * Namespace prepended to the key
+   */
+  prefix?: string;
+  /**
+   * Time to live in ms for values written by the hook
+   */
+  ttl?: number;
+}
+
+/**
+ * Shared implementation of the storage hooks
+ */
+function useStoredValue<T>(
+  backend: 'local' | 'session',
   key: string,
-  initialValue: T
+  initialValue: T,
+  options: StorageHookOptions<T>
 ): [T, (value: T | ((prev: T) => T)) => void, () => void] {
+  const { prefix = '', ttl, ...versioning } = options;
+  // Migrations and schema are read once per version
+  const store = useMemo(() => createStore({
+    backend,
+    prefix,
+    ...(Object.keys(versioning).length > 0 && { versions: { [key]: { ...versioning, defaultValue: initialValue } } })
+  }), [backend, prefix, key, versioning.version]);
+
+  // Callers often pass a fresh `{}` or `[]` each render; keep the latest
+  // without resubscribing
+  const initialValueRef = useRef(initialValue);
+  initialValueRef.current = initialValue;
+
   const [storedValue, setStoredValue] = useState<T>(() => {
-    try {
-      const item = LocalStorage.get<T>(key);
-      return item !== null ? item : initialValue;
-    } catch {
-      return initialValue;
-    }
+    const item = store.get<T>(key);
+    return item !== null ? item : initialValue;
   });
 
   const setValue = useCallback((value: T | ((prev: T) => T)) => {
     try {
       const valueToStore = value instanceof Function ? value(storedValue) : value;
       setStoredValue(valueToStore);
-      LocalStorage.set(key, valueToStore);
+      store.set(key, valueToStore, ttl === undefined ? {} : { ttl });
     } catch (error) {
-      console.warn('Error setting localStorage:', error);
+      console.warn(`Error setting ${backend}Storage:`, error);
     }
-  }, [key, storedValue]);
+  }, [store, key, storedValue, ttl, backend]);
 
   const removeValue = useCallback(() => {
-    try {
-      LocalStorage.remove(key);
-      setStoredValue(initialValue);
-    } catch (error) {
-      console.warn('Error removing localStorage:', error);
-    }
-  }, [key, initialValue]);
+    store.remove(key);
+    setStoredValue(initialValueRef.current);
+  }, [store, key]);
+
+  // Follow writes from other components and tabs; equal values keep their identity
+  useEffect(() => {
+    const update = (value: T | null): void => {
+      const next = value !== null ? value : initialValueRef.current;
+      setStoredValue(prev => (JSON.stringify(prev) === JSON.stringify(next) ? prev : next));
+    };
+    const unsubscribe = store.subscribe<T>(key, update);
+
+    // Pick up writes made between the render that read the value and now
+    update(store.get<T>(key));
+    return unsubscribe;
+  }, [store, key]);
 
   return [storedValue, setValue, removeValue];
 }
 
+/**
+ * Hook for localStorage with JSON serialization
+ */
+export function useLocalStorage<T>(
+  key: string,
+  initialValue: T,
+  options: StorageHookOptions<T> = {}
+): [T, (value: T | ((prev: T) => T)) => void, () => void] {
+  return useStoredValue('local', key, initialValue, options);
+}
+
 /**
  * Hook for sessionStorage with JSON serialization
  */
 export function useSessionStorage<T>(
   key: string,
-  initialValue: T
+  initialValue: T,
+  options: StorageHookOptions<T> = {}
 ): [T, (value: T | ((prev: T) => T)) => void, () => void] {
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    try {
-      const item = SessionStorage.get<T>(key);
-      return item !== null ? item : initialValue;
-    } catch {
-      return initialValue;
-    }
-  });
-
-  const setValue = useCallback((value: T | ((prev: T) => T)) => {
-    try {
-      const valueToStore = value instanceof Function ? value(storedValue) : value;
-      setStoredValue(valueToStore);
-      SessionStorage.set(key, valueToStore);
-    } catch (error) {
-      console.warn('Error setting sessionStorage:', error);
-    }
-  }, [key, storedValue]);
-
-  const removeValue = useCallback(() => {
-    try {
-      SessionStorage.remove(key);
-      setStoredValue(initialValue);
-    } catch (error) {
-      console.warn('Error removing sessionStorage:', error);
-    }
-  }, [key, initialValue]);
-
-  return [storedValue, setValue, removeValue];
+  return useStoredValue('session', key, initialValue, options);
 }
 
 /**
@@ -338,3 +359,80 @@ export function useCopyToClipboard(): [boolean, (text: string) => Promise<void>]
 
   return [copied, copyToClipboard];
 }
+
+/**
+ * Locale for validation messages, provided by ValidationLocaleProvider
+ */
+export const ValidationLocaleContext = createContext<string | undefined>(undefined);
+
+/**
+ * Hook for the active validation message locale
+ */
+export function useValidationLocale(): string {
+  return useContext(ValidationLocaleContext) || getValidationLocale();
+}
+
+export interface FormValidationState<T> {
+  values: T;
+  errors: Record<string, string[]>;
+  isValid: boolean;
+  isValidating: boolean;
+  setFieldValue: <K extends keyof T>(field: K, value: T[K]) => void;
+  validate: () => Promise<boolean>;
+  reset: () => void;
+}
+
+/**
+ * Hook for form state validated against a schema
+ */
+export function useFormValidation<T extends Record<string, any>>(
+  initialValues: T,
+  schema: ValidationSchema
+): FormValidationState<T> {
+  const [values, setValues] = useState<T>(initialValues);
+  const [errors, setErrors] = useState<Record<string, string[]>>({});
+  const [isValidating, setIsValidating] = useState(false);
+  const runId = useRef(0);
+  const locale = useValidationLocale();
+
+  const setFieldValue = useCallback(<K extends keyof T>(field: K, value: T[K]) => {
+    setValues(current => ({ ...current, [field]: value }));
+  }, []);
+
+  const validateValues = useCallback(async () => {
+    const id = ++runId.current;
+    setIsValidating(true);
+
+    try {
+      const result = await validate(values, schema, { locale });
+
+      // Ignore results of runs superseded by a newer one
+      if (id === runId.current) {
+        setErrors(result.errors);
+      }
+
+      return result.isValid;
+    } finally {
+      if (id === runId.current) {
+        setIsValidating(false);
+      }
+    }
+  }, [values, schema, locale]);
+
+  const reset = useCallback(() => {
+    runId.current++;
+    setValues(initialValues);
+    setErrors({});
+    setIsValidating(false);
+  }, [initialValues]);
+
+  return {
+    values,
+    errors,
+    isValid: Object.keys(errors).length === 0,
+    isValidating,
+    setFieldValue,
+    validate: validateValues,
+    reset
+  };
+}
@@ -3,11 +3,91 @@
  */
 
 // Core utility types
-export type { DateFormat } from '../core/date';
+export type {
+  DateFormat,
+  DateParts,
+  DateUnit,
+  DurationInput,
+  CalendarOptions,
+  HolidayList,
+  BusinessDayOptions,
+  FormatDateOptions,
+  ParseDateOptions,
+  ParseDateResult,
+  ParseDateError,
+  ParseDateErrorCode
+} from '../core/date';
+export type { DurationUnit, HumanizeOptions } from '../core/duration';
+export type {
+  Frequency,
+  WeekdayCode,
+  WeekdaySpec,
+  RecurrenceRule,
+  RecurrenceOptions,
+  RecurrenceSet
+} from '../core/recurrence';
 export type { CurrencyOptions } from '../core/number';
 export type { LogLevel, LogEntry, LoggerConfig } from '../core/logger';
+export type {
+  LogTransport,
+  LogRecord,
+  SerializedError,
+  ConsoleTransportOptions,
+  MemoryTransport,
+  MemoryTransportOptions,
+  LogStore,
+  StorageTransport,
+  StorageTransportOptions,
+  HttpTransportOptions,
+  WritableLike,
+  StreamTransportOptions
+} from '../core/transports';
 export type { RGB, HSL } from '../core/color';
 export type { BrowserInfo } from '../core/browser';
+export type {
+  ValueType,
+  RuleName,
+  ValidationContext,
+  ValidationRule,
+  ValidationSchema,
+  ValidationResult,
+  ValidateOptions,
+  ValidationMessageId,
+  ValidationMessages,
+  PasswordMessageId,
+  ParseResult,
+  ObjectShape,
+  Infer,
+  InferShape,
+  PasswordStrength,
+  PasswordPolicy,
+  ValidatorResult,
+  EmailOptions,
+  EmailErrorReason,
+  URLOptions,
+  URLErrorReason,
+  IPErrorReason
+} from '../core/validation';
+export type { IPAddress, IPOptions, HostnameOptions } from '../core/network';
+export type {
+  CardBrand,
+  CardBrandInfo,
+  CardNumberErrorReason,
+  CardNumberValidation,
+  CardExpiry,
+  CardExpiryErrorReason,
+  CardExpiryValidation,
+  MaskCardOptions
+} from '../core/card';
+export type { IBANErrorReason, CheckDigitAlgorithm } from '../core/identifiers';
+export type { PasswordPattern, PasswordPatternMatch, PasswordEstimate } from '../core/password';
+export type {
+  PhoneNumber,
+  PhoneNumberType,
+  PhoneNumberFormat,
+  PhoneNumberFormatRule,
+  PhoneCountryMetadata
+} from '../core/phone';
 
 // Framework integration types
 export interface FrameworkIntegration {
@@ -50,11 +130,48 @@ export interface ApiError {
 }
 
 // Storage types
-export interface StorageItem<T = any> {
-  value: T;
-  timestamp: number;
-  expiry?: number;
-}
+export type {
+  StorageItem,
+  StorageBackend,
+  StorageBackendName,
+  StoreOptions,
+  StoreSetOptions,
+  StorageCompression,
+  CompressionOptions,
+  StorageSizeReport,
+  EvictionPolicy,
+  StorageQuotaEvent,
+  StorageChangeEvent,
+  StorageChangeListener,
+  StorageMigration,
+  VersionedKeyOptions,
+  StorageMigrationStatus,
+  StorageMigrationRecord,
+  StorageMigrationReport
+} from '../core/storage';
+import type { CompressionOptions, EvictionPolicy } from '../core/storage';
+export type {
+  CookieSameSite,
+  CookiePriority,
+  CookieOptions,
+  Cookie,
+  CookieParseOptions,
+  CookieSource,
+  NodeCookieRequest,
+  NodeCookieResponse
+} from '../core/cookie';
+export type { CryptoErrorCode, EncryptionKey, EncryptionOptions, SigningOptions } from '../core/crypto';
+import type { EncryptionOptions } from '../core/crypto';
+export type { CompressionMethod } from '../core/compression';
+export type {
+  IndexedDBMigration,
+  IndexedDBIndexSchema,
+  IndexedDBObjectStoreSchema,
+  IndexedDBStoreOptions,
+  IndexedDBRange,
+  IndexedDBQuery,
+  IndexedDBTransaction
+} from '../core/indexeddb';
 
 // Performance types
 export interface PerformanceMetrics {
@@ -64,20 +181,6 @@ export interface PerformanceMetrics {
   memoryUsage?: number;
 }
 
-// Validation types
-export interface ValidationRule {
-  required?: boolean;
-  minLength?: number;
-  maxLength?: number;
-  pattern?: RegExp;
-  custom?: (value: any) => boolean | string;
-}
-
-export interface ValidationResult {
-  isValid: boolean;
-  errors: Record<string, string>;
-}
-
 // Color types
 export interface ColorPalette {
   primary: string;
@@ -93,8 +196,14 @@ export interface SupportConfig {
   logger?: Partial<LoggerConfig>;
   storage?: {
     prefix?: string;
+    defaultTTL?: number;
+    /**
+     * @deprecated Has no effect; pass keys in `encryption` instead
+     */
     encrypt?: boolean;
-    compression?: boolean;
+    encryption?: EncryptionOptions;
+    compression?: boolean | CompressionOptions;
+    eviction?: EvictionPolicy;
   };
   performance?: {
     enableMetrics?: boolean;
@@ -0,0 +1,138 @@
+import {
+  getCardBrand,
+  getCardBrandInfo,
+  validateCardNumber,
+  isValidCVC,
+  parseCardExpiry,
+  validateCardExpiry,
+  formatCardNumber,
+  maskCardNumber,
+  luhnCheck
+} from '../../src/core/card';
+
+describe('Payment card utilities', () => {
+  describe('getCardBrand', () => {
+    it('should detect brands from IIN ranges', () => {
+      expect(getCardBrand('4242424242424242')).toBe('visa');
+      expect(getCardBrand('5555555555554444')).toBe('mastercard');
+      expect(getCardBrand('2223003122003222')).toBe('mastercard');
+      expect(getCardBrand('378282246310005')).toBe('amex');
+      expect(getCardBrand('6011111111111117')).toBe('discover');
+      expect(getCardBrand('6445644564456445')).toBe('discover');
+      expect(getCardBrand('3530111333300000')).toBe('jcb');
+      expect(getCardBrand('6200000000000005')).toBe('unionpay');
+      expect(getCardBrand('30569309025904')).toBe('diners');
+      expect(getCardBrand('36227206271667')).toBe('diners');
+      expect(getCardBrand('6759649826438453')).toBe('maestro');
+      expect(getCardBrand('5018000000000009')).toBe('maestro');
+    });
+
+    it('should prefer the most specific prefix', () => {
+      // 622126-622925 is co-branded Discover inside the UnionPay 62 range
+      expect(getCardBrand('6221260000000000')).toBe('discover');
+      expect(getCardBrand('6220000000000000')).toBe('unionpay');
+    });
+
+    it('should detect brands from partial input', () => {
+      expect(getCardBrand('4')).toBe('visa');
+      expect(getCardBrand('37')).toBe('amex');
+      expect(getCardBrand('3')).toBe(null);
+      expect(getCardBrand('9999')).toBe(null);
+      expect(getCardBrand('abc')).toBe(null);
+    });
+  });
+
+  describe('validateCardNumber', () => {
+    it('should accept valid numbers', () => {
+      expect(validateCardNumber('4242 4242 4242 4242')).toEqual({ isValid: true, brand: 'visa' });
+      expect(validateCardNumber('3782-822463-10005')).toEqual({ isValid: true, brand: 'amex' });
+      expect(validateCardNumber('4222222222222')).toEqual({ isValid: true, brand: 'visa' });
+    });
+
+    it('should report why numbers are rejected', () => {
+      expect(validateCardNumber('').reason).toBe('EMPTY');
+      expect(validateCardNumber('4242abcd').reason).toBe('INVALID_CHARACTERS');
+      expect(validateCardNumber('9999999999999995').reason).toBe('UNKNOWN_BRAND');
+      expect(validateCardNumber('37828224631000')).toEqual({ isValid: false, brand: 'amex', reason: 'INVALID_LENGTH' });
+      expect(validateCardNumber('4242424242424241')).toEqual({ isValid: false, brand: 'visa', reason: 'CHECKSUM_FAILED' });
+    });
+
+    it('should skip the checksum for brands without one', () => {
+      expect(validateCardNumber('6200000000000001').isValid).toBe(true);
+    });
+  });
+
+  describe('luhnCheck', () => {
+    it('should verify the checksum', () => {
+      expect(luhnCheck('79927398713')).toBe(true);
+      expect(luhnCheck('79927398710')).toBe(false);
+    });
+  });
+
+  describe('isValidCVC', () => {
+    it('should check the length for the brand', () => {
+      expect(isValidCVC('123', 'visa')).toBe(true);
+      expect(isValidCVC('1234', 'visa')).toBe(false);
+      expect(isValidCVC('1234', 'amex')).toBe(true);
+      expect(isValidCVC('123', 'amex')).toBe(false);
+      expect(isValidCVC('1234')).toBe(true);
+      expect(isValidCVC('12a')).toBe(false);
+    });
+  });
+
+  describe('card expiry', () => {
+    const now = new Date(2024, 5, 15);
+
+    it('should parse common expiry formats', () => {
+      expect(parseCardExpiry('04/27')).toEqual({ month: 4, year: 2027 });
+      expect(parseCardExpiry('4/2027')).toEqual({ month: 4, year: 2027 });
+      expect(parseCardExpiry('0427')).toEqual({ month: 4, year: 2027 });
+      expect(parseCardExpiry('13/27')).toBe(null);
+      expect(parseCardExpiry('427')).toBe(null);
+      expect(parseCardExpiry('soon')).toBe(null);
+    });
+
+    it('should treat cards as valid through the end of the expiry month', () => {
+      expect(validateCardExpiry('06/24', now)).toEqual({ isValid: true });
+      expect(validateCardExpiry('05/24', now)).toEqual({ isValid: false, reason: 'EXPIRED' });
+      expect(validateCardExpiry({ month: 1, year: 2025 }, now)).toEqual({ isValid: true });
+    });
+
+    it('should reject dates too far ahead or malformed', () => {
+      expect(validateCardExpiry('06/2050', now)).toEqual({ isValid: false, reason: 'TOO_FAR_IN_FUTURE' });
+      expect(validateCardExpiry('06/2050', now, 30).isValid).toBe(true);
+      expect(validateCardExpiry('00/25', now)).toEqual({ isValid: false, reason: 'INVALID_FORMAT' });
+    });
+  });
+
+  describe('formatCardNumber', () => {
+    it('should group digits by brand', () => {
+      expect(formatCardNumber('4242424242424242')).toBe('4242 4242 4242 4242');
+      expect(formatCardNumber('378282246310005')).toBe('3782 822463 10005');
+      expect(formatCardNumber('36227206271667')).toBe('3622 720627 1667');
+    });
+
+    it('should format partial input and drop extra digits', () => {
+      expect(formatCardNumber('42424')).toBe('4242 4');
+      expect(formatCardNumber('3782 82')).toBe('3782 82');
+      expect(formatCardNumber('37828224631000599')).toBe('3782 822463 10005');
+      expect(formatCardNumber('4242-42a')).toBe('4242 42');
+      expect(formatCardNumber('')).toBe('');
+    });
+  });
+
+  describe('maskCardNumber', () => {
+    it('should mask all but the last digits', () => {
+      expect(maskCardNumber('4242424242424242')).toBe('•••• •••• •••• 4242');
+      expect(maskCardNumber('378282246310005')).toBe('•••• •••••• •0005');
+      expect(maskCardNumber('4242424242424242', { maskChar: '*', visibleDigits: 2, format: false }))
+        .toBe('**************42');
+    });
+  });
+
+  describe('getCardBrandInfo', () => {
+    it('should expose brand rules', () => {
+      expect(getCardBrandInfo('amex')).toMatchObject({ name: 'American Express', lengths: [15], cvcLength: 4 });
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  compressToUTF16,
+  decompressFromUTF16,
+  deflateToUTF16,
+  inflateFromUTF16,
+  isCompressionStreamSupported
+} from '../../src/core/compression';
+import { createStore } from '../../src/core/storage';
+import { TextEncoder, TextDecoder } from 'util';
+import { deflateSync, inflateSync } from 'zlib';
+
+Object.assign(global, { TextEncoder, TextDecoder });
+
+// jsdom has no CompressionStream; emulate the parts used with zlib
+const createZlibStream = (transform: (data: Buffer) => Buffer) =>
+  class {
+    private readonly chunks: Uint8Array[] = [];
+    private done = false;
+
+    readonly writable = {
+      getWriter: () => ({
+        write: async (chunk: Uint8Array) => {
+          this.chunks.push(chunk);
+        },
+        close: async () => undefined
+      })
+    };
+
+    readonly readable = {
+      getReader: () => ({
+        read: async () => {
+          if (this.done) return { done: true, value: undefined };
+          this.done = true;
+          return { done: false, value: transform(Buffer.concat(this.chunks)) };
+        }
+      })
+    };
+  };
+
+const samples = [
+  '',
+  'a',
+  'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+  JSON.stringify({ users: Array.from({ length: 50 }, (_, i) => ({ id: i, name: `User ${i}`, active: i % 2 === 0 })) }),
+  'Ünïcödé 日本語 text with emoji 🎉🎉🎉 and more 日本語'
+];
+
+describe('Compression utilities', () => {
+  describe('compressToUTF16', () => {
+    it('should round-trip strings', () => {
+      samples.forEach(sample => {
+        expect(decompressFromUTF16(compressToUTF16(sample))).toBe(sample);
+      });
+    });
+
+    it('should produce storage-safe characters', () => {
+      const compressed = compressToUTF16(samples[3]);
+      expect(compressed.length).toBeLessThan(samples[3].length / 2);
+      for (let i = 0; i < compressed.length; i++) {
+        const code = compressed.charCodeAt(i);
+        expect(code >= 32 && code < 0xd800).toBe(true);
+      }
+    });
+
+    it('should return null for corrupt input', () => {
+      expect(decompressFromUTF16('')).toBe(null);
+      expect(decompressFromUTF16(compressToUTF16(samples[3]).slice(0, 10))).toBe(null);
+    });
+  });
+
+  describe('deflateToUTF16', () => {
+    beforeAll(() => {
+      Object.assign(global, {
+        CompressionStream: createZlibStream(data => deflateSync(data)),
+        DecompressionStream: createZlibStream(data => inflateSync(data))
+      });
+    });
+
+    afterAll(() => {
+      delete (global as any).CompressionStream;
+      delete (global as any).DecompressionStream;
+    });
+
+    it('should detect CompressionStream support', () => {
+      expect(isCompressionStreamSupported()).toBe(true);
+    });
+
+    it('should round-trip strings', async () => {
+      for (const sample of samples) {
+        expect(await inflateFromUTF16(await deflateToUTF16(sample))).toBe(sample);
+      }
+    });
+
+    it('should be used by stores when configured', async () => {
+      const store = createStore({ backend: 'memory', compression: { threshold: 100, useCompressionStream: true } });
+
+      expect(await store.setAsync('big', samples[3])).toBe(true);
+      expect(await store.getAsync('big')).toBe(samples[3]);
+      expect(() => store.get('big')).toThrow(/getItemAsync/);
+    });
+  });
+});
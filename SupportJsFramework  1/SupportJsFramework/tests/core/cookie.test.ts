@@ -0,0 +1,227 @@
+import { TextEncoder, TextDecoder } from 'util';
+import { webcrypto } from 'crypto';
+import { createEncryptor, createSigner } from '../../src/core/crypto';
+import {
+  parseCookies,
+  serializeCookie,
+  parseSetCookie,
+  splitSetCookieHeader,
+  createCookieJar,
+  createNodeCookieJar,
+  createWebCookieJar,
+  appendSetCookie,
+  NodeCookieResponse
+} from '../../src/core/cookie';
+
+Object.assign(global, { TextEncoder, TextDecoder });
+
+const crypto = webcrypto as unknown as Crypto;
+
+describe('Cookie utilities', () => {
+  describe('parseCookies', () => {
+    it('should keep "=" inside values', () => {
+      expect(parseCookies('token=a=b==; theme=dark')).toEqual({ token: 'a=b==', theme: 'dark' });
+    });
+
+    it('should unquote and decode values', () => {
+      expect(parseCookies('name="hello%20world"; empty=')).toEqual({ name: 'hello world', empty: '' });
+    });
+
+    it('should keep the first of duplicate names and raw values that fail to decode', () => {
+      expect(parseCookies('id=1; id=2; bad=%E0%A4%A')).toEqual({ id: '1', bad: '%E0%A4%A' });
+    });
+
+    it('should handle missing headers', () => {
+      expect(parseCookies(undefined)).toEqual({});
+    });
+  });
+
+  describe('serializeCookie', () => {
+    it('should serialize attributes', () => {
+      const header = serializeCookie('session', 'a b', {
+        maxAge: 3600,
+        expires: new Date(Date.UTC(2030, 0, 1)),
+        domain: 'example.com',
+        path: '/',
+        secure: true,
+        httpOnly: true,
+        partitioned: true,
+        sameSite: 'none',
+        priority: 'high'
+      });
+
+      expect(header).toBe(
+        'session=a%20b; Max-Age=3600; Expires=Tue, 01 Jan 2030 00:00:00 GMT; Domain=example.com; Path=/; ' +
+          'Secure; HttpOnly; Partitioned; SameSite=None; Priority=High'
+      );
+    });
+
+    it('should reject invalid names and values', () => {
+      expect(() => serializeCookie('bad name', 'x')).toThrow('Invalid cookie name');
+      expect(() => serializeCookie('name', 'a;b', { encode: value => value })).toThrow('Invalid value');
+    });
+
+    it('should enforce cookie prefixes', () => {
+      expect(() => serializeCookie('__Secure-id', '1')).toThrow('secure');
+      expect(() => serializeCookie('__Host-id', '1', { secure: true })).toThrow('path "/"');
+      expect(() => serializeCookie('__Host-id', '1', { secure: true, path: '/', domain: 'example.com' })).toThrow();
+      expect(serializeCookie('__Host-id', '1', { secure: true, path: '/' })).toBe('__Host-id=1; Path=/; Secure');
+    });
+
+    it('should require secure for partitioned cookies', () => {
+      expect(() => serializeCookie('id', '1', { partitioned: true })).toThrow('secure');
+    });
+  });
+
+  describe('parseSetCookie', () => {
+    it('should round-trip serialized cookies', () => {
+      const cookie = parseSetCookie(
+        serializeCookie('id', 'x=1', { path: '/app', maxAge: 60, secure: true, sameSite: 'lax', priority: 'low' })
+      );
+
+      expect(cookie).toEqual({ name: 'id', value: 'x=1', path: '/app', maxAge: 60, secure: true, sameSite: 'lax', priority: 'low' });
+    });
+
+    it('should return null without a name', () => {
+      expect(parseSetCookie('=value')).toBe(null);
+    });
+  });
+
+  describe('splitSetCookieHeader', () => {
+    it('should not split on the comma of Expires dates', () => {
+      expect(splitSetCookieHeader('a=1; Expires=Tue, 01 Jan 2030 00:00:00 GMT, b=2')).toEqual([
+        'a=1; Expires=Tue, 01 Jan 2030 00:00:00 GMT',
+        'b=2'
+      ]);
+    });
+  });
+
+  describe('CookieJar', () => {
+    const createResponse = (): NodeCookieResponse & { headers: Record<string, string | string[]> } => {
+      const headers: Record<string, string | string[]> = {};
+      return {
+        headers,
+        getHeader: name => headers[name.toLowerCase()],
+        setHeader: (name, value) => {
+          headers[name.toLowerCase()] = value;
+        }
+      };
+    };
+
+    it('should append a Set-Cookie header per cookie on Node responses', () => {
+      const res = createResponse();
+      res.setHeader('Set-Cookie', 'existing=1');
+      const jar = createNodeCookieJar({ headers: { cookie: 'theme=dark; lang=en' } }, res, { path: '/' });
+
+      jar.set('theme', 'light');
+      jar.remove('lang');
+
+      expect(res.headers['set-cookie']).toEqual([
+        'existing=1',
+        'theme=light; Path=/',
+        'lang=; Max-Age=0; Expires=Thu, 01 Jan 1970 00:00:00 GMT; Path=/'
+      ]);
+      expect(jar.getAll()).toEqual({ theme: 'light' });
+      expect(jar.has('lang')).toBe(false);
+    });
+
+    it('should refuse to set cookies without a response', () => {
+      const jar = createNodeCookieJar({ headers: {} });
+      expect(jar.get('theme')).toBe(null);
+      expect(() => jar.set('theme', 'dark')).toThrow('without a response');
+    });
+
+    it('should read requests and append to response headers', () => {
+      const request = new Headers({ cookie: 'session=abc' });
+      const response = new Headers();
+      const jar = createWebCookieJar(request, response);
+
+      jar.set('a', '1');
+      jar.set('b', '2', { expires: new Date(Date.UTC(2030, 0, 1)) });
+
+      expect(jar.get('session')).toBe('abc');
+      expect(splitSetCookieHeader(response.get('set-cookie') || '')).toEqual([
+        'a=1',
+        'b=2; Expires=Tue, 01 Jan 2030 00:00:00 GMT'
+      ]);
+    });
+
+    it('should read live sources without tracking writes', () => {
+      let header = 'a=1';
+      const jar = createCookieJar({ read: () => header, write: () => undefined, live: true });
+
+      jar.set('b', '2');
+      expect(jar.get('b')).toBe(null);
+
+      header = 'a=1; b=2';
+      expect(jar.getAll()).toEqual({ a: '1', b: '2' });
+    });
+
+    it('should append to Headers directly', () => {
+      const headers = new Headers();
+      appendSetCookie(headers, 'a=1');
+      appendSetCookie(headers, 'b=2');
+      expect(headers.get('set-cookie')).toBe('a=1, b=2');
+    });
+
+    describe('signed and sealed cookies', () => {
+      const signer = createSigner({ secrets: ['cookie secret'], crypto });
+      const encryptor = createEncryptor({ keys: [{ id: 'k1', secret: 'seal secret' }], iterations: 1000, crypto });
+
+      const createJar = () => createWebCookieJar(new Headers(), new Headers());
+
+      it('should read signed cookies only when the signature verifies', async () => {
+        const res = createResponse();
+        await createNodeCookieJar(null, res).setSigned('user', '42', signer);
+
+        const header = (res.headers['set-cookie'] as string[])[0].split(';')[0];
+        const jar = createNodeCookieJar({ headers: { cookie: header } });
+        expect(await jar.getSigned('user', signer)).toBe('42');
+
+        const forged = createNodeCookieJar({ headers: { cookie: header.replace('42', '43') } });
+        expect(await forged.getSigned('user', signer)).toBe(null);
+        expect(await forged.getSigned('missing', signer)).toBe(null);
+      });
+
+      it('should reject signed values moved to another cookie name', async () => {
+        const jar = createJar();
+        await jar.setSigned('role', 'admin', signer);
+
+        const moved = createNodeCookieJar({ headers: { cookie: `plan=${jar.get('role')}` } });
+        expect(await moved.getSigned('plan', signer)).toBe(null);
+        expect(await jar.getSigned('role', signer)).toBe('admin');
+      });
+
+      it('should seal JSON values bound to the cookie name', async () => {
+        const res = createResponse();
+        await createNodeCookieJar(null, res).setSealed('session', { userId: 42 }, encryptor, { maxAge: 60 });
+
+        const header = (res.headers['set-cookie'] as string[])[0].split(';')[0];
+        expect(header).not.toContain('userId');
+
+        const jar = createNodeCookieJar({ headers: { cookie: `${header}; other=${header.split('=')[1]}` } });
+        expect(await jar.getSealed('session', encryptor)).toEqual({ userId: 42 });
+        expect(await jar.getSealed('other', encryptor)).toBe(null);
+      });
+
+      it('should expire sealed values with their sealed expiry', async () => {
+        const jar = createJar();
+        await jar.setSealed('session', 'value', encryptor, { expires: new Date(Date.now() + 1000) });
+        expect(await jar.getSealed('session', encryptor)).toBe('value');
+
+        const now = Date.now();
+        jest.spyOn(Date, 'now').mockReturnValue(now + 2000);
+        try {
+          expect(await jar.getSealed('session', encryptor)).toBe(null);
+        } finally {
+          jest.restoreAllMocks();
+        }
+      });
+
+      it('should refuse sealed values too large for a cookie', async () => {
+        const jar = createJar();
+        await expect(jar.setSealed('big', 'x'.repeat(4000), encryptor)).rejects.toThrow('exceeds');
+      });
+    });
+  });
+});
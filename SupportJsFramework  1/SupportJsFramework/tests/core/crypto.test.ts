@@ -0,0 +1,110 @@
+import { TextEncoder, TextDecoder } from 'util';
+import { webcrypto } from 'crypto';
+import {
+  createEncryptor,
+  createSigner,
+  deriveKey,
+  CryptoError,
+  toBase64Url,
+  fromBase64Url
+} from '../../src/core/crypto';
+
+Object.assign(global, { TextEncoder, TextDecoder });
+
+const crypto = webcrypto as unknown as Crypto;
+
+describe('Crypto utilities', () => {
+  describe('base64url', () => {
+    it('should round-trip bytes without padding', () => {
+      const bytes = Uint8Array.from([251, 255, 0, 1, 2]);
+      expect(toBase64Url(bytes)).toBe('-_8AAQI');
+      expect(Array.from(fromBase64Url('-_8AAQI'))).toEqual([251, 255, 0, 1, 2]);
+    });
+  });
+
+  describe('Encryptor', () => {
+    const encryptor = createEncryptor({ keys: [{ id: 'k1', secret: 'correct horse' }], iterations: 1000, crypto });
+
+    it('should encrypt and decrypt text', async () => {
+      const payload = await encryptor.encrypt('secret ✓', 'token');
+      expect(payload).toMatch(/^k1\.[\w-]+\.[\w-]+$/);
+      expect(payload).not.toContain('secret');
+      expect(await encryptor.decrypt(payload, 'token')).toBe('secret ✓');
+    });
+
+    it('should use a fresh IV for every payload', async () => {
+      expect(await encryptor.encrypt('same')).not.toBe(await encryptor.encrypt('same'));
+    });
+
+    it('should reject tampered payloads and mismatched associated data', async () => {
+      const payload = await encryptor.encrypt('secret', 'token');
+      const [id, iv, data] = payload.split('.');
+      const tampered = `${id}.${iv}.${data.startsWith('A') ? 'B' : 'A'}${data.slice(1)}`;
+
+      await expect(encryptor.decrypt(tampered, 'token')).rejects.toMatchObject({ code: 'DECRYPTION_FAILED' });
+      await expect(encryptor.decrypt(payload, 'other')).rejects.toBeInstanceOf(CryptoError);
+      await expect(encryptor.decrypt('plain text')).rejects.toMatchObject({ code: 'INVALID_PAYLOAD' });
+    });
+
+    it('should decrypt with older keys after rotation', async () => {
+      const old = await encryptor.encrypt('value');
+      const rotated = createEncryptor({
+        keys: [{ id: 'k2', secret: 'new secret' }, { id: 'k1', secret: 'correct horse' }],
+        iterations: 1000,
+        crypto
+      });
+
+      expect(rotated.needsRotation(old)).toBe(true);
+      expect(await rotated.decrypt(old)).toBe('value');
+      expect(rotated.needsRotation(await rotated.encrypt('value'))).toBe(false);
+
+      const retired = createEncryptor({ keys: [{ id: 'k2', secret: 'new secret' }], iterations: 1000, crypto });
+      await expect(retired.decrypt(old)).rejects.toMatchObject({ code: 'UNKNOWN_KEY' });
+    });
+
+    it('should accept CryptoKeys and fail with the wrong key', async () => {
+      const key = await deriveKey('other secret', 'salt', 1000, crypto);
+      const other = createEncryptor({ keys: [{ id: 'k1', secret: key }], crypto });
+      const payload = await encryptor.encrypt('value');
+
+      await expect(other.decrypt(payload)).rejects.toMatchObject({ code: 'DECRYPTION_FAILED' });
+    });
+
+    it('should report missing Web Crypto', async () => {
+      const unavailable = createEncryptor({ keys: [{ id: 'k1', secret: 'x' }] });
+      await expect(unavailable.encrypt('value')).rejects.toMatchObject({ code: 'CRYPTO_UNAVAILABLE' });
+    });
+
+    it('should validate key ids', () => {
+      expect(() => createEncryptor({ keys: [] })).toThrow();
+      expect(() => createEncryptor({ keys: [{ id: 'a.b', secret: 'x' }] })).toThrow();
+    });
+  });
+
+  describe('Signer', () => {
+    const signer = createSigner({ secrets: ['secret one'], crypto });
+
+    it('should sign and verify values containing dots', async () => {
+      const signed = await signer.sign('user.42');
+      expect(signed).toMatch(/^user\.42\.[\w-]{43}$/);
+      expect(await signer.unsign(signed)).toBe('user.42');
+    });
+
+    it('should reject tampered values and signatures', async () => {
+      const signed = await signer.sign('user.42');
+      expect(await signer.unsign(signed.replace('42', '43'))).toBe(null);
+      expect(await signer.unsign(signed.slice(0, -2))).toBe(null);
+      expect(await signer.unsign('unsigned')).toBe(null);
+    });
+
+    it('should verify with older secrets after rotation', async () => {
+      const old = await signer.sign('value');
+      const rotated = createSigner({ secrets: ['secret two', 'secret one'], crypto });
+
+      expect(await rotated.unsign(old)).toBe('value');
+      expect(await rotated.needsRotation(old)).toBe(true);
+      expect(await rotated.needsRotation(await rotated.sign('value'))).toBe(false);
+      expect(await createSigner({ secrets: ['secret two'], crypto }).unsign(old)).toBe(null);
+    });
+  });
+});
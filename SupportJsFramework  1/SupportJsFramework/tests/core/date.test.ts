@@ -8,7 +8,45 @@ import {
   daysDifference,
   isLeapYear,
   startOfDay,
-  endOfDay
+  endOfDay,
+  getMonthNames,
+  getWeekdayNames,
+  parseDate,
+  DateFormat,
+  getDateParts,
+  fromDateParts,
+  getTimeZoneOffset,
+  toZonedTime,
+  fromZonedTime,
+  convertTimeZone,
+  isValidTimeZone,
+  getDaysInMonth,
+  add,
+  subtract,
+  addMonths,
+  addYears,
+  addWeeks,
+  addHours,
+  addMinutes,
+  addSeconds,
+  startOf,
+  endOf,
+  isSame,
+  isSameDay,
+  isSameWeek,
+  isSameMonth,
+  isSameQuarter,
+  isSameYear,
+  isBefore,
+  isAfter,
+  isBetween,
+  eachDayOfInterval,
+  isWeekend,
+  isHoliday,
+  isBusinessDay,
+  addBusinessDays,
+  businessDaysBetween,
+  DurationInput
 } from '../../src/core/date';
 
 describe('Date utilities', () => {
@@ -35,9 +73,234 @@ describe('Date utilities', () => {
       expect(formatDate(testDate, 'MMMM DD, YYYY')).toBe('June 15, 2023');
     });
 
+    it('should keep the unpadded day of the built-in month name formats', () => {
+      const date = new Date(2023, 0, 5);
+      expect(formatDate(date, 'MMM DD, YYYY')).toBe('Jan 5, 2023');
+      expect(formatDate(date, 'MMMM DD, YYYY')).toBe('January 5, 2023');
+      expect(formatDate(date, 'MMM DD YYYY')).toBe('Jan 05 2023');
+    });
+
     it('should format date with time', () => {
       expect(formatDate(testDate, 'YYYY-MM-DD HH:mm:ss')).toBe('2023-06-15 14:30:00');
     });
+
+    it('should format arbitrary token patterns', () => {
+      const date = new Date(2023, 0, 5, 9, 7, 3, 42);
+      expect(formatDate(date, 'D/M/YY')).toBe('5/1/23');
+      expect(formatDate(date, 'dddd, MMMM Do YYYY')).toBe('Thursday, January 5th 2023');
+      expect(formatDate(date, 'ddd h:mm A')).toBe('Thu 9:07 AM');
+      expect(formatDate(date, 'hh:mm:ss.SSS a')).toBe('09:07:03.042 am');
+      expect(formatDate(date, 'H:m:s')).toBe('9:7:3');
+    });
+
+    it('should use 12-hour clock correctly around noon and midnight', () => {
+      expect(formatDate(new Date(2023, 0, 1, 0, 0), 'h A')).toBe('12 AM');
+      expect(formatDate(new Date(2023, 0, 1, 12, 0), 'h A')).toBe('12 PM');
+      expect(formatDate(new Date(2023, 0, 1, 23, 0), 'hh A')).toBe('11 PM');
+    });
+
+    it('should output ordinal suffixes', () => {
+      expect(formatDate(new Date(2023, 0, 1), 'Do')).toBe('1st');
+      expect(formatDate(new Date(2023, 0, 2), 'Do')).toBe('2nd');
+      expect(formatDate(new Date(2023, 0, 3), 'Do')).toBe('3rd');
+      expect(formatDate(new Date(2023, 0, 11), 'Do')).toBe('11th');
+      expect(formatDate(new Date(2023, 0, 22), 'Do')).toBe('22nd');
+    });
+
+    it('should keep escaped literals as-is', () => {
+      const date = new Date(2023, 5, 15, 14, 30);
+      expect(formatDate(date, '[Today is] dddd [at] HH:mm')).toBe('Today is Thursday at 14:30');
+      expect(formatDate(date, 'YYYY[M]MM')).toBe('2023M06');
+    });
+
+    it('should format the UTC offset', () => {
+      const date = new Date(2023, 5, 15);
+      const offset = -date.getTimezoneOffset();
+      const sign = offset >= 0 ? '+' : '-';
+      const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+      const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+      expect(formatDate(date, 'Z')).toBe(`${sign}${hours}:${minutes}`);
+      expect(formatDate(date, 'ZZ')).toBe(`${sign}${hours}${minutes}`);
+    });
+
+    it('should localize month and weekday names', () => {
+      const date = new Date(2023, 5, 15);
+      expect(formatDate(date, 'dddd D MMMM YYYY', { locale: 'fr-FR' })).toBe('jeudi 15 juin 2023');
+      expect(formatDate(date, 'D. MMMM YYYY', { locale: 'de-DE' })).toBe('15. Juni 2023');
+    });
+  });
+
+  describe('getMonthNames and getWeekdayNames', () => {
+    it('should return localized names in calendar order', () => {
+      expect(getMonthNames()[0]).toBe('January');
+      expect(getMonthNames('en-US', 'short')[11]).toBe('Dec');
+      expect(getWeekdayNames()[0]).toBe('Sunday');
+      expect(getWeekdayNames('es-ES')[1]).toBe('lunes');
+    });
+  });
+
+  describe('parseDate', () => {
+    const builtInFormats: DateFormat[] = [
+      'YYYY-MM-DD',
+      'MM/DD/YYYY',
+      'DD/MM/YYYY',
+      'YYYY-MM-DD HH:mm:ss',
+      'MMM DD, YYYY',
+      'MMMM DD, YYYY'
+    ];
+
+    it.each(builtInFormats)('should round-trip with formatDate for %s', format => {
+      const date = new Date(2023, 2, 7, 9, 5, 3);
+      const result = parseDate(formatDate(date, format), format, { strict: true });
+      expect(result.isValid).toBe(true);
+      expect(formatDate(result.date!, format)).toBe(formatDate(date, format));
+    });
+
+    it('should parse time, meridiem and milliseconds', () => {
+      const result = parseDate('2023-06-15 2:30:15.250 PM', 'YYYY-MM-DD h:mm:ss.SSS A');
+      expect(result.date).toEqual(new Date(2023, 5, 15, 14, 30, 15, 250));
+      expect(parseDate('12:00 am', 'hh:mm a').date!.getHours()).toBe(0);
+    });
+
+    it('should round-trip lowercase meridiems in strict mode', () => {
+      const date = new Date(2023, 5, 15, 21, 7);
+      const result = parseDate(formatDate(date, 'YYYY-MM-DD h:mm a'), 'YYYY-MM-DD h:mm a', { strict: true });
+      expect(result.date).toEqual(date);
+    });
+
+    it('should apply UTC offsets', () => {
+      const result = parseDate('2023-06-15T14:30:00+02:00', 'YYYY-MM-DD[T]HH:mm:ssZ');
+      expect(result.date!.toISOString()).toBe('2023-06-15T12:30:00.000Z');
+      expect(parseDate('2023-06-15 14:30 Z', 'YYYY-MM-DD HH:mm Z').date!.toISOString())
+        .toBe('2023-06-15T14:30:00.000Z');
+    });
+
+    it('should parse two-digit years with a 1969/2068 pivot', () => {
+      expect(parseDate('01/02/23', 'DD/MM/YY').date!.getFullYear()).toBe(2023);
+      expect(parseDate('01/02/85', 'DD/MM/YY').date!.getFullYear()).toBe(1985);
+    });
+
+    it('should parse localized month and weekday names', () => {
+      const result = parseDate('jeudi 15 juin 2023', 'dddd D MMMM YYYY', { locale: 'fr-FR', strict: true });
+      expect(result.date).toEqual(new Date(2023, 5, 15));
+    });
+
+    it('should be lenient about widths, case and separators by default', () => {
+      expect(parseDate('6.5.2023', 'MM/DD/YYYY').date).toEqual(new Date(2023, 5, 5));
+      expect(parseDate(' june 5th,  2023 ', 'MMMM Do, YYYY').date).toEqual(new Date(2023, 5, 5));
+      expect(parseDate('2023-06-05 and more', 'YYYY-MM-DD').isValid).toBe(true);
+    });
+
+    it('should reject loose input in strict mode', () => {
+      expect(parseDate('6/5/2023', 'MM/DD/YYYY', { strict: true }).error).toMatchObject({
+        code: 'UNEXPECTED_INPUT',
+        token: 'MM',
+        index: 0
+      });
+      expect(parseDate('06.05.2023', 'MM/DD/YYYY', { strict: true }).error?.code).toBe('UNEXPECTED_INPUT');
+      expect(parseDate('2023-06-05 and more', 'YYYY-MM-DD', { strict: true }).error?.code).toBe('TRAILING_INPUT');
+    });
+
+    it('should report out of range values', () => {
+      expect(parseDate('2023-02-29', 'YYYY-MM-DD').error).toMatchObject({ code: 'OUT_OF_RANGE', token: 'D' });
+      expect(parseDate('2024-02-29', 'YYYY-MM-DD').isValid).toBe(true);
+      expect(parseDate('2023-13-01', 'YYYY-MM-DD').error?.code).toBe('OUT_OF_RANGE');
+      expect(parseDate('25:00', 'HH:mm').error?.code).toBe('OUT_OF_RANGE');
+    });
+
+    it('should detect weekday mismatches in strict mode', () => {
+      const result = parseDate('Monday, June 15, 2023', 'dddd, MMMM D, YYYY', { strict: true });
+      expect(result.error?.code).toBe('WEEKDAY_MISMATCH');
+    });
+
+    it('should default missing fields from the reference date', () => {
+      const referenceDate = new Date(2023, 5, 15);
+      expect(parseDate('14:30', 'HH:mm', { referenceDate }).date).toEqual(new Date(2023, 5, 15, 14, 30));
+      expect(parseDate('2020', 'YYYY', { referenceDate }).date).toEqual(new Date(2020, 0, 1));
+    });
+
+    it('should reject empty input', () => {
+      expect(parseDate('', 'YYYY-MM-DD')).toEqual({
+        isValid: false,
+        date: null,
+        error: { code: 'INVALID_INPUT', message: 'Input must be a non-empty string', index: 0 }
+      });
+    });
+  });
+
+  describe('time zones', () => {
+    it('should validate IANA time zone names', () => {
+      expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+
+    it('should read date parts in a time zone', () => {
+      expect(getDateParts(testDate, 'Asia/Tokyo')).toEqual({
+        year: 2023,
+        month: 6,
+        day: 15,
+        weekday: 4,
+        hours: 23,
+        minutes: 30,
+        seconds: 0,
+        milliseconds: 0,
+        offset: 540
+      });
+      expect(getDateParts(testDate, 'Pacific/Honolulu').hours).toBe(4);
+    });
+
+    it('should carry overflowing clock fields into the date', () => {
+      const parts = { year: 2023, month: 1, day: 31, hours: 25, minutes: 0, seconds: 0, milliseconds: 0 };
+      expect(fromDateParts(parts, 'UTC').toISOString()).toBe('2023-02-01T01:00:00.000Z');
+      expect(fromDateParts(parts)).toEqual(new Date(2023, 1, 1, 1, 0));
+      expect(fromDateParts({ ...parts, day: 28, hours: 0, minutes: 24 * 60 * 2 }, 'Asia/Tokyo').toISOString())
+        .toBe('2023-01-29T15:00:00.000Z');
+    });
+
+    it('should follow DST changes when computing offsets', () => {
+      expect(getTimeZoneOffset(new Date('2023-01-15T12:00:00Z'), 'Europe/Berlin')).toBe(60);
+      expect(getTimeZoneOffset(new Date('2023-07-15T12:00:00Z'), 'Europe/Berlin')).toBe(120);
+      expect(getTimeZoneOffset(testDate, 'Asia/Kolkata')).toBe(330);
+    });
+
+    it('should format dates in a time zone', () => {
+      expect(formatDate(testDate, 'YYYY-MM-DD HH:mm Z', { timeZone: 'America/New_York' }))
+        .toBe('2023-06-15 10:30 -04:00');
+      expect(formatDate(new Date('2023-06-15T23:30:00Z'), 'YYYY-MM-DD', { timeZone: 'Asia/Kolkata' }))
+        .toBe('2023-06-16');
+    });
+
+    it('should convert between zoned wall time and instants', () => {
+      const zoned = toZonedTime(testDate, 'Asia/Tokyo');
+      expect(zoned.getHours()).toBe(23);
+      expect(fromZonedTime(zoned, 'Asia/Tokyo').getTime()).toBe(testDate.getTime());
+
+      const wallTime = new Date(2023, 2, 26, 12, 0);
+      expect(fromZonedTime(wallTime, 'Europe/Berlin').toISOString()).toBe('2023-03-26T10:00:00.000Z');
+      expect(convertTimeZone(wallTime, 'Europe/Berlin', 'America/New_York').getHours()).toBe(6);
+    });
+
+    it('should compute start and end of day in a time zone', () => {
+      expect(startOfDay(testDate, 'America/Los_Angeles').toISOString()).toBe('2023-06-15T07:00:00.000Z');
+      expect(endOfDay(testDate, 'Asia/Tokyo').toISOString()).toBe('2023-06-15T14:59:59.999Z');
+    });
+
+    it('should keep wall-clock time when adding days across DST', () => {
+      const beforeDst = new Date('2023-03-25T09:00:00Z'); // 10:00 in Berlin
+      const result = addDays(beforeDst, 1, 'Europe/Berlin');
+      expect(result.toISOString()).toBe('2023-03-26T08:00:00.000Z');
+      expect(formatDate(result, 'HH:mm', { timeZone: 'Europe/Berlin' })).toBe('10:00');
+    });
+
+    it('should check today in a time zone', () => {
+      expect(isToday(new Date(), 'Pacific/Kiritimati')).toBe(true);
+      expect(isToday(addDays(new Date(), 2), 'UTC')).toBe(false);
+    });
+
+    it('should parse wall time in a time zone', () => {
+      const result = parseDate('2023-06-15 10:30', 'YYYY-MM-DD HH:mm', { timeZone: 'America/New_York' });
+      expect(result.date!.toISOString()).toBe('2023-06-15T14:30:00.000Z');
+    });
   });
 
   describe('addDays', () => {
@@ -156,4 +419,128 @@ describe('Date utilities', () => {
       expect(result.getMilliseconds()).toBe(999);
     });
   });
+
+  describe('date arithmetic', () => {
+    const base = new Date(2024, 0, 31, 10, 30);
+
+    it('should add years and months with end-of-month clamping', () => {
+      expect(addMonths(base, 1)).toEqual(new Date(2024, 1, 29, 10, 30));
+      expect(addMonths(base, 13)).toEqual(new Date(2025, 1, 28, 10, 30));
+      expect(addMonths(base, -2)).toEqual(new Date(2023, 10, 30, 10, 30));
+      expect(addYears(new Date(2024, 1, 29), 1)).toEqual(new Date(2025, 1, 28));
+    });
+
+    it('should add weeks and time units', () => {
+      expect(addWeeks(base, 2)).toEqual(new Date(2024, 1, 14, 10, 30));
+      expect(addHours(base, 15)).toEqual(new Date(2024, 1, 1, 1, 30));
+      expect(addMinutes(base, -45)).toEqual(new Date(2024, 0, 31, 9, 45));
+      expect(addSeconds(base, 90)).toEqual(new Date(2024, 0, 31, 10, 31, 30));
+    });
+
+    it('should add and subtract combined durations', () => {
+      expect(add(base, { years: 1, months: 1, days: 1, hours: 1 })).toEqual(new Date(2025, 2, 1, 11, 30));
+      expect(subtract(base, { months: 1, weeks: 1, minutes: 30 })).toEqual(new Date(2023, 11, 24, 10, 0));
+      // Plain JavaScript callers may pass unset fields
+      const partial = { days: 1, hours: undefined } as unknown as DurationInput;
+      expect(subtract(base, partial)).toEqual(addDays(base, -1));
+    });
+
+    it('should report days in month', () => {
+      expect(getDaysInMonth(2024, 2)).toBe(29);
+      expect(getDaysInMonth(2023, 2)).toBe(28);
+      expect(getDaysInMonth(2023, 12)).toBe(31);
+    });
+  });
+
+  describe('startOf and endOf', () => {
+    const date = new Date(2023, 7, 16, 15, 45, 30, 500); // Wednesday
+
+    it('should get the start of calendar units', () => {
+      expect(startOf(date, 'year')).toEqual(new Date(2023, 0, 1));
+      expect(startOf(date, 'quarter')).toEqual(new Date(2023, 6, 1));
+      expect(startOf(date, 'month')).toEqual(new Date(2023, 7, 1));
+      expect(startOf(date, 'week')).toEqual(new Date(2023, 7, 13));
+      expect(startOf(date, 'week', { weekStartsOn: 1 })).toEqual(new Date(2023, 7, 14));
+      expect(startOf(date, 'hour')).toEqual(new Date(2023, 7, 16, 15));
+    });
+
+    it('should get the end of calendar units', () => {
+      expect(endOf(date, 'year')).toEqual(new Date(2023, 11, 31, 23, 59, 59, 999));
+      expect(endOf(date, 'quarter')).toEqual(new Date(2023, 8, 30, 23, 59, 59, 999));
+      expect(endOf(date, 'month')).toEqual(new Date(2023, 7, 31, 23, 59, 59, 999));
+      expect(endOf(date, 'week', { weekStartsOn: 1 })).toEqual(new Date(2023, 7, 20, 23, 59, 59, 999));
+      expect(endOf(new Date(2024, 0, 31), 'month')).toEqual(new Date(2024, 0, 31, 23, 59, 59, 999));
+    });
+
+    it('should respect time zones', () => {
+      const instant = new Date('2023-07-01T02:00:00Z');
+      expect(startOf(instant, 'month', { timeZone: 'America/New_York' }).toISOString())
+        .toBe('2023-06-01T04:00:00.000Z');
+    });
+  });
+
+  describe('comparisons', () => {
+    const a = new Date(2023, 5, 15, 8);
+    const b = new Date(2023, 5, 15, 20);
+    const c = new Date(2023, 5, 18, 9);
+
+    it('should compare by calendar unit', () => {
+      expect(isSameDay(a, b)).toBe(true);
+      expect(isSameDay(a, c)).toBe(false);
+      expect(isSameWeek(a, c)).toBe(false);
+      expect(isSameWeek(a, c, { weekStartsOn: 1 })).toBe(true);
+      expect(isSameMonth(a, c)).toBe(true);
+      expect(isSameQuarter(a, new Date(2023, 3, 1))).toBe(true);
+      expect(isSameYear(a, new Date(2024, 5, 15))).toBe(false);
+      expect(isSame(a, b, 'hour')).toBe(false);
+    });
+
+    it('should compare order', () => {
+      expect(isBefore(a, b)).toBe(true);
+      expect(isAfter(a, b)).toBe(false);
+      expect(isBetween(b, a, c)).toBe(true);
+      expect(isBetween(a, a, c)).toBe(true);
+      expect(isBetween(a, a, c, '()')).toBe(false);
+      expect(isBetween(c, a, c, '[)')).toBe(false);
+    });
+
+    it('should list each day of an interval', () => {
+      expect(eachDayOfInterval(a, c)).toEqual([
+        new Date(2023, 5, 15),
+        new Date(2023, 5, 16),
+        new Date(2023, 5, 17),
+        new Date(2023, 5, 18)
+      ]);
+      expect(eachDayOfInterval(c, a)).toEqual([]);
+    });
+  });
+
+  describe('business days', () => {
+    const friday = new Date(2023, 11, 22);
+    const holidays = ['2023-12-25', new Date(2023, 11, 26)];
+
+    it('should detect weekends and holidays', () => {
+      expect(isWeekend(new Date(2023, 11, 23))).toBe(true);
+      expect(isWeekend(friday)).toBe(false);
+      expect(isWeekend(friday, { weekendDays: [5, 6] })).toBe(true);
+      expect(isHoliday(new Date(2023, 11, 25), holidays)).toBe(true);
+      expect(isHoliday(new Date(2023, 11, 26), holidays)).toBe(true);
+      expect(isHoliday(new Date(2023, 11, 26), date => date.getDate() === 1)).toBe(false);
+      expect(isBusinessDay(new Date(2023, 11, 25), { holidays })).toBe(false);
+    });
+
+    it('should add business days skipping weekends and holidays', () => {
+      expect(addBusinessDays(friday, 1)).toEqual(new Date(2023, 11, 25));
+      expect(addBusinessDays(friday, 1, { holidays })).toEqual(new Date(2023, 11, 27));
+      expect(addBusinessDays(new Date(2023, 11, 27), -1, { holidays })).toEqual(friday);
+      expect(() => addBusinessDays(friday, 1, { weekendDays: [0, 1, 2, 3, 4, 5, 6] })).toThrow(RangeError);
+      expect(() => addBusinessDays(friday, 1, { holidays: () => true })).toThrow(RangeError);
+    });
+
+    it('should count business days between dates', () => {
+      expect(businessDaysBetween(friday, new Date(2023, 11, 29))).toBe(5);
+      expect(businessDaysBetween(friday, new Date(2023, 11, 29), { holidays })).toBe(3);
+      expect(businessDaysBetween(new Date(2023, 11, 29), friday, { holidays })).toBe(-3);
+    });
+  });
 });
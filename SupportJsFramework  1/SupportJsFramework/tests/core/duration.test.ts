@@ -0,0 +1,147 @@
+import { Duration, formatRelativeTime } from '../../src/core/duration';
+
+describe('Duration', () => {
+  describe('construction', () => {
+    it('should normalize milliseconds into units', () => {
+      const duration = Duration.fromMilliseconds(93784005);
+      expect(duration.toObject()).toEqual({
+        years: 0,
+        months: 0,
+        weeks: 0,
+        days: 1,
+        hours: 2,
+        minutes: 3,
+        seconds: 4,
+        milliseconds: 5
+      });
+    });
+
+    it('should carry overflowing units when normalizing', () => {
+      const duration = Duration.fromObject({ months: 14, hours: 30, seconds: 90 }).normalize();
+      expect(duration.get('years')).toBe(1);
+      expect(duration.get('months')).toBe(2);
+      expect(duration.get('days')).toBe(1);
+      expect(duration.get('hours')).toBe(6);
+      expect(duration.get('minutes')).toBe(1);
+      expect(duration.get('seconds')).toBe(30);
+    });
+
+    it('should normalize units with mixed signs', () => {
+      expect(Duration.fromObject({ hours: 1, minutes: -30 }).normalize().toObject())
+        .toMatchObject({ hours: 0, minutes: 30 });
+      expect(Duration.fromObject({ months: 1, days: -3 }).normalize().toObject())
+        .toMatchObject({ months: 0, days: 27 });
+      expect(Duration.fromObject({ months: -1, days: 3 }).normalize().toObject())
+        .toMatchObject({ months: 0, days: -27 });
+    });
+
+    it('should compute calendar durations between dates', () => {
+      const start = new Date(2023, 0, 31, 10, 0);
+      const end = new Date(2024, 2, 1, 12, 30);
+      expect(Duration.between(start, end).toObject()).toMatchObject({
+        years: 1,
+        months: 1,
+        days: 1,
+        hours: 2,
+        minutes: 30
+      });
+      expect(Duration.between(end, start).get('years')).toBe(-1);
+      expect(Duration.between(end, start).isNegative()).toBe(true);
+    });
+
+    it('should convert to milliseconds', () => {
+      expect(Duration.fromObject({ hours: 1, minutes: 30 }).toMilliseconds()).toBe(5400000);
+      expect(Duration.fromObject({ weeks: 1 }).toMilliseconds()).toBe(604800000);
+    });
+  });
+
+  describe('ISO 8601', () => {
+    it('should format ISO durations', () => {
+      expect(Duration.fromObject({ days: 1, hours: 2 }).toISOString()).toBe('P1DT2H');
+      expect(Duration.fromObject({ years: 1, months: 2, minutes: 5 }).toISOString()).toBe('P1Y2MT5M');
+      expect(Duration.fromObject({ seconds: 1, milliseconds: 500 }).toISOString()).toBe('PT1.5S');
+      expect(Duration.fromObject({ weeks: 2 }).toISOString()).toBe('P2W');
+      expect(Duration.fromObject({}).toISOString()).toBe('PT0S');
+      expect(Duration.fromObject({ hours: -3 }).toISOString()).toBe('-PT3H');
+    });
+
+    it('should format mixed signs as a single-signed duration', () => {
+      expect(Duration.fromObject({ months: 1, days: -3 }).toISOString()).toBe('P27D');
+      expect(Duration.fromObject({ hours: -1, minutes: 30 }).toISOString()).toBe('-PT30M');
+
+      for (const duration of [
+        Duration.fromObject({ months: 1, days: -3 }),
+        Duration.fromObject({ years: -1, hours: 5 }),
+        Duration.fromObject({ days: 2, seconds: -1, milliseconds: 250 })
+      ]) {
+        const parsed = Duration.parse(duration.toISOString());
+        expect(parsed).not.toBeNull();
+        expect(parsed!.toMilliseconds()).toBe(duration.toMilliseconds());
+      }
+    });
+
+    it('should parse ISO durations', () => {
+      expect(Duration.parse('P1Y2M3DT4H5M6S')!.toObject()).toEqual({
+        years: 1,
+        months: 2,
+        weeks: 0,
+        days: 3,
+        hours: 4,
+        minutes: 5,
+        seconds: 6,
+        milliseconds: 0
+      });
+      expect(Duration.parse('PT0.25S')!.get('milliseconds')).toBe(250);
+      expect(Duration.parse('P3W')!.get('weeks')).toBe(3);
+      expect(Duration.parse('-PT30M')!.get('minutes')).toBe(-30);
+    });
+
+    it('should round-trip through ISO strings', () => {
+      ['P1DT2H', 'P1Y2MT5M', 'PT1.5S', 'P2W', '-PT3H'].forEach(iso => {
+        expect(Duration.parse(iso)!.toISOString()).toBe(iso);
+      });
+    });
+
+    it('should reject invalid ISO durations', () => {
+      expect(Duration.parse('P')).toBe(null);
+      expect(Duration.parse('PT')).toBe(null);
+      expect(Duration.parse('P1DT')).toBe(null);
+      expect(Duration.parse('1 day')).toBe(null);
+    });
+  });
+
+  describe('humanize', () => {
+    it('should describe past and future durations', () => {
+      expect(Duration.fromObject({ minutes: -3 }).humanize()).toBe('3 minutes ago');
+      expect(Duration.fromObject({ days: 2 }).humanize()).toBe('in 2 days');
+      expect(Duration.fromObject({ days: -1 }).humanize()).toBe('yesterday');
+      expect(Duration.fromObject({ days: -1 }).humanize({ numeric: 'always' })).toBe('1 day ago');
+      expect(Duration.fromObject({ seconds: 20 }).humanize()).toBe('now');
+    });
+
+    it('should use the largest unit', () => {
+      expect(Duration.fromObject({ days: 45 }).humanize()).toBe('next month');
+      expect(Duration.fromObject({ days: -400 }).humanize()).toBe('last year');
+      expect(Duration.fromObject({ hours: 5, minutes: 59 }).humanize()).toBe('in 5 hours');
+    });
+
+    it('should humanize in other locales', () => {
+      expect(Duration.fromObject({ hours: -3 }).humanize({ locale: 'de-DE' })).toBe('vor 3 Stunden');
+      expect(Duration.fromObject({ days: 3 }).humanize({ locale: 'es-ES' })).toBe('dentro de 3 días');
+    });
+
+    it('should describe durations without a suffix', () => {
+      expect(Duration.fromObject({ hours: 2 }).humanize({ addSuffix: false })).toBe('2 hours');
+      expect(Duration.fromObject({ days: -3 }).humanize({ addSuffix: false, style: 'short' })).toBe('3 days');
+    });
+  });
+
+  describe('formatRelativeTime', () => {
+    it('should describe a date relative to a base date', () => {
+      const base = new Date(2023, 5, 15, 12, 0);
+      expect(formatRelativeTime(new Date(2023, 5, 15, 11, 0), base)).toBe('1 hour ago');
+      expect(formatRelativeTime(new Date(2023, 5, 15, 12, 10), base)).toBe('in 10 minutes');
+      expect(formatRelativeTime(new Date(2023, 5, 15, 11, 0), base, { locale: 'fr-FR' })).toBe('il y a 1 heure');
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  validateIBAN,
+  isIBAN,
+  formatIBAN,
+  isBIC,
+  isPostalCode,
+  registerPostalCodeFormat,
+  hasValidCheckDigit,
+  registerCheckDigitAlgorithm,
+  getCheckDigitAlgorithms
+} from '../../src/core/identifiers';
+
+describe('Identifier validators', () => {
+  describe('IBAN', () => {
+    it('should accept valid IBANs in any spacing or case', () => {
+      expect(isIBAN('GB82 WEST 1234 5698 7654 32')).toBe(true);
+      expect(isIBAN('de89370400440532013000')).toBe(true);
+      expect(isIBAN('NO9386011117947')).toBe(true);
+    });
+
+    it('should report why IBANs are rejected', () => {
+      expect(validateIBAN('not an iban')).toEqual({ isValid: false, reason: 'INVALID_FORMAT' });
+      expect(validateIBAN('ZZ82WEST12345698765432')).toEqual({ isValid: false, reason: 'UNKNOWN_COUNTRY' });
+      expect(validateIBAN('GB82WEST123456987654')).toEqual({ isValid: false, reason: 'INVALID_LENGTH' });
+      expect(validateIBAN('GB83WEST12345698765432')).toEqual({ isValid: false, reason: 'CHECKSUM_FAILED' });
+    });
+
+    it('should format IBANs in groups of four', () => {
+      expect(formatIBAN('de89370400440532013000')).toBe('DE89 3704 0044 0532 0130 00');
+    });
+  });
+
+  describe('isBIC', () => {
+    it('should validate BIC codes with and without branch', () => {
+      expect(isBIC('DEUTDEFF')).toBe(true);
+      expect(isBIC('deutdeff500')).toBe(true);
+      expect(isBIC('NEDSZAJJXXX')).toBe(true);
+      expect(isBIC('DEUT1EFF')).toBe(false);
+      expect(isBIC('DEUTDEFF5')).toBe(false);
+    });
+  });
+
+  describe('isPostalCode', () => {
+    it('should validate postal codes per country', () => {
+      expect(isPostalCode('90210', 'US')).toBe(true);
+      expect(isPostalCode('90210-1234', 'us')).toBe(true);
+      expect(isPostalCode('SW1A 1AA', 'GB')).toBe(true);
+      expect(isPostalCode('K1A 0B1', 'CA')).toBe(true);
+      expect(isPostalCode('1012 AB', 'NL')).toBe(true);
+      expect(isPostalCode('00-950', 'PL')).toBe(true);
+      expect(isPostalCode('1234', 'DE')).toBe(false);
+      expect(isPostalCode('D01 123', 'CA')).toBe(false);
+    });
+
+    it('should reject unknown countries until registered', () => {
+      expect(isPostalCode('1000', 'LU')).toBe(false);
+      registerPostalCodeFormat('lu', /^(?:L-)?\d{4}$/);
+      expect(isPostalCode('L-1000', 'LU')).toBe(true);
+    });
+  });
+
+  describe('hasValidCheckDigit', () => {
+    it('should check ISBNs', () => {
+      expect(hasValidCheckDigit('0-306-40615-2', 'isbn10')).toBe(true);
+      expect(hasValidCheckDigit('080442957X', 'isbn10')).toBe(true);
+      expect(hasValidCheckDigit('0-306-40615-3', 'isbn10')).toBe(false);
+      expect(hasValidCheckDigit('978-0-306-40615-7', 'isbn13')).toBe(true);
+      expect(hasValidCheckDigit('978-0-306-40615-6', 'isbn13')).toBe(false);
+    });
+
+    it('should check EAN and UPC codes', () => {
+      expect(hasValidCheckDigit('4006381333931', 'ean13')).toBe(true);
+      expect(hasValidCheckDigit('73513537', 'ean8')).toBe(true);
+      expect(hasValidCheckDigit('036000291452', 'upc')).toBe(true);
+      expect(hasValidCheckDigit('036000291453', 'upc')).toBe(false);
+    });
+
+    it('should check Verhoeff, mod-11, mod-97 and Luhn digits', () => {
+      expect(hasValidCheckDigit('2363', 'verhoeff')).toBe(true);
+      expect(hasValidCheckDigit('2364', 'verhoeff')).toBe(false);
+      expect(hasValidCheckDigit('86011117947', 'mod11')).toBe(true);
+      expect(hasValidCheckDigit('86011117948', 'mod11')).toBe(false);
+      expect(hasValidCheckDigit('370400440532013000131489', 'mod97')).toBe(true);
+      expect(hasValidCheckDigit('4242 4242 4242 4242', 'luhn')).toBe(true);
+    });
+
+    it('should not treat Object.prototype members as algorithms', () => {
+      for (const name of ['constructor', 'toString', 'valueOf', '__proto__', 'hasOwnProperty']) {
+        expect(hasValidCheckDigit('123', name)).toBe(false);
+      }
+    });
+
+    it('should support custom algorithms', () => {
+      expect(hasValidCheckDigit('12', 'even')).toBe(false);
+      registerCheckDigitAlgorithm('even', value => Number(value) % 2 === 0);
+      expect(getCheckDigitAlgorithms()).toContain('even');
+      expect(hasValidCheckDigit('12', 'even')).toBe(true);
+    });
+  });
+});
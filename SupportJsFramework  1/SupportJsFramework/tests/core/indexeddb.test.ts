@@ -0,0 +1,222 @@
+import 'fake-indexeddb/auto';
+import { serialize, deserialize } from 'v8';
+import { createIndexedDBStore, isIndexedDBSupported } from '../../src/core/indexeddb';
+import { MemoryStorageBackend } from '../../src/core/storage';
+
+// jsdom does not expose structuredClone, which fake-indexeddb relies on
+Object.assign(global, { structuredClone: (value: unknown) => deserialize(serialize(value)) });
+
+interface User {
+  id: number;
+  name: string;
+  age: number;
+}
+
+const users: User[] = [
+  { id: 1, name: 'Ada', age: 36 },
+  { id: 2, name: 'Alan', age: 41 },
+  { id: 3, name: 'Grace', age: 17 }
+];
+
+let databaseCount = 0;
+const uniqueName = () => `test-db-${++databaseCount}`;
+
+describe('IndexedDB storage', () => {
+  describe('key/value API', () => {
+    it('should store values as structured clones', async () => {
+      const store = createIndexedDBStore({ name: uniqueName() });
+      const date = new Date(2024, 0, 1);
+
+      expect(await store.set('user', { name: 'Ada', joined: date })).toBe(true);
+      expect(await store.get('user')).toEqual({ name: 'Ada', joined: date });
+      expect(await store.has('user')).toBe(true);
+      expect(await store.get('missing')).toBe(null);
+      expect(await store.getWithDefault('missing', 'fallback')).toBe('fallback');
+      expect(await store.isAvailable()).toBe(true);
+    });
+
+    it('should remove, clear and list keys', async () => {
+      const store = createIndexedDBStore({ name: uniqueName() });
+      await store.set('a', 1);
+      await store.set('b', 2);
+      await store.set('c', 3);
+
+      expect(await store.remove('a')).toBe(true);
+      expect((await store.getKeys()).sort()).toEqual(['b', 'c']);
+      expect(await store.clear()).toBe(true);
+      expect(await store.getKeys()).toEqual([]);
+    });
+
+    it('should expire values', async () => {
+      const store = createIndexedDBStore({ name: uniqueName(), defaultTTL: -1 });
+      await store.set('expired', 1);
+      await store.set('kept', 2, { ttl: null });
+      await store.set('alsoExpired', 3);
+
+      expect(await store.getKeys()).toEqual(['kept']);
+      expect(await store.sweep()).toBe(2);
+      expect(await store.get('expired')).toBe(null);
+      expect(await store.get('kept')).toBe(2);
+    });
+  });
+
+  describe('object stores', () => {
+    const options = () => ({
+      name: uniqueName(),
+      objectStores: {
+        users: { keyPath: 'id', indexes: [{ name: 'byAge', keyPath: 'age' }] }
+      }
+    });
+
+    it('should query by key, range and index', async () => {
+      const db = createIndexedDBStore(options());
+      const store = db.objectStore<User>('users');
+      for (const user of users) await store.put(user);
+
+      expect(await store.get(2)).toEqual(users[1]);
+      expect(await store.get(9)).toBe(null);
+      expect(await store.getAll({ gt: 1 })).toEqual([users[1], users[2]]);
+      expect(await store.getAll({ gte: 1, lt: 3 })).toEqual([users[0], users[1]]);
+      expect(await store.query('byAge', { gte: 18 })).toEqual([users[0], users[1]]);
+      expect(await store.count()).toBe(3);
+
+      await store.delete({ lte: 2 });
+      expect(await store.getAllKeys()).toEqual([3]);
+    });
+
+    it('should commit transactions atomically', async () => {
+      const db = createIndexedDBStore(options());
+
+      await db.transaction('users', 'readwrite', async transaction => {
+        const store = transaction.objectStore<User>('users');
+        await store.put(users[0]);
+        await store.put(users[1]);
+      });
+      expect(await db.objectStore('users').count()).toBe(2);
+
+      await expect(
+        db.transaction('users', 'readwrite', async transaction => {
+          const store = transaction.objectStore<User>('users');
+          await store.put(users[2]);
+          await store.add(users[0]);
+        })
+      ).rejects.toBeTruthy();
+      expect(await db.objectStore('users').count()).toBe(2);
+    });
+
+    it('should reject reserved store names', () => {
+      expect(() => createIndexedDBStore({ objectStores: { keyval: {} } })).toThrow(/reserved/);
+    });
+  });
+
+  describe('migrations', () => {
+    it('should run pending migrations in order', async () => {
+      const name = uniqueName();
+      const ran: number[] = [];
+
+      const v1 = createIndexedDBStore({
+        name,
+        migrations: { 1: database => database.createObjectStore('notes', { autoIncrement: true }) }
+      });
+      await v1.objectStore('notes').add({ text: 'hello' });
+      v1.close();
+
+      const v3 = createIndexedDBStore({
+        name,
+        migrations: {
+          1: () => ran.push(1),
+          3: (_, transaction) => {
+            ran.push(3);
+            transaction.objectStore('notes').createIndex('byText', 'text');
+          },
+          2: () => ran.push(2)
+        }
+      });
+
+      expect(await v3.objectStore('notes').query('byText', 'hello')).toEqual([{ text: 'hello' }]);
+      expect(ran).toEqual([2, 3]);
+      v3.close();
+    });
+
+    it('should fail instead of falling back when a migration throws', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const store = createIndexedDBStore({
+        name: uniqueName(),
+        migrations: {
+          1: () => {
+            throw new Error('broken migration');
+          }
+        }
+      });
+
+      expect(await store.isAvailable()).toBe(false);
+      expect(await store.set('a', 1)).toBe(false);
+      await expect(store.objectStore('keyval').count()).rejects.toThrow('broken migration');
+      warn.mockRestore();
+    });
+
+    it('should retry a failed migration on the next call', async () => {
+      let attempts = 0;
+      const store = createIndexedDBStore({
+        name: uniqueName(),
+        migrations: {
+          1: database => {
+            if (++attempts === 1) throw new Error('flaky migration');
+            database.createObjectStore('notes', { autoIncrement: true });
+          }
+        }
+      });
+
+      await expect(store.objectStore('notes').count()).rejects.toThrow('flaky migration');
+      expect(await store.objectStore('notes').count()).toBe(0);
+      expect(attempts).toBe(2);
+      store.close();
+    });
+
+    it('should fall back when an upgrade stays blocked', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      // An open request held up by another tab that never closes its connection
+      const open = jest.spyOn(indexedDB, 'open').mockImplementation(() => {
+        const request = {} as IDBOpenDBRequest;
+        setTimeout(() => (request.onblocked as any)(new Event('blocked')));
+        return request;
+      });
+
+      (window as any).localStorage = new MemoryStorageBackend();
+
+      const store = createIndexedDBStore({ name: uniqueName(), blockedTimeout: 20 });
+      expect(await store.set('a', 1)).toBe(true);
+      expect(await store.get('a')).toBe(1);
+      expect(await store.isAvailable()).toBe(false);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('blocked'));
+
+      open.mockRestore();
+      warn.mockRestore();
+    });
+  });
+
+  describe('fallback', () => {
+    const { indexedDB } = globalThis;
+
+    beforeEach(() => {
+      delete (globalThis as any).indexedDB;
+      (window as any).localStorage = new MemoryStorageBackend();
+    });
+
+    afterEach(() => {
+      globalThis.indexedDB = indexedDB;
+    });
+
+    it('should use the Storage chain without IndexedDB', async () => {
+      const store = createIndexedDBStore({ name: 'offline' });
+
+      expect(isIndexedDBSupported()).toBe(false);
+      expect(await store.isAvailable()).toBe(false);
+      expect(await store.set('a', { value: 1 })).toBe(true);
+      expect(await store.get('a')).toEqual({ value: 1 });
+      expect(await store.getKeys()).toEqual(['a']);
+      expect(localStorage.getItem('offline:a')).toContain('"value":1');
+      await expect(store.objectStore('users').count()).rejects.toThrow(/not available/);
+    });
+  });
+});
@@ -189,6 +189,86 @@ describe('Logger utilities', () => {
         expect(childConfig.level).toBe('debug');
         expect(childConfig.enableStorage).toBe(true);
       });
+
+      it('should merge bound context into child loggers', () => {
+        const child = testLogger.with({ requestId: 'r1', user: 'a' }).child('DB', { user: 'b' });
+        child.info('Query');
+
+        const [entry] = child.getEntries();
+        expect(entry.context).toEqual({ requestId: 'r1', user: 'b' });
+        expect(entry.prefix).toBe('TEST:DB');
+        expect(testLogger.getConfig().context).toEqual({});
+      });
+    });
+
+    describe('structured logging', () => {
+      it('should redact configured key paths in data and context', () => {
+        const redacting = createLogger({
+          enableConsole: false,
+          enableStorage: true,
+          redact: ['password', 'headers.authorization'],
+          context: { db: { password: 'secret' } }
+        });
+
+        const data = { user: 'ann', password: 'hunter2', headers: { Authorization: 'Bearer x', accept: '*/*' } };
+        redacting.info('Login', data);
+
+        const [entry] = redacting.getEntries();
+        expect(entry.data).toEqual({ user: 'ann', password: '[Redacted]', headers: { Authorization: '[Redacted]', accept: '*/*' } });
+        expect(entry.context).toEqual({ db: { password: '[Redacted]' } });
+        expect(data.password).toBe('hunter2');
+      });
+
+      it('should redact fields of errors, their causes and class instances', () => {
+        class Credentials {
+          constructor(public user: string, public password: string) {}
+        }
+        const redacting = createLogger({ enableConsole: false, enableStorage: true, redact: ['authorization', 'password'] });
+
+        const cause = Object.assign(new Error('login failed'), { password: 'hunter2' });
+        const error = Object.assign(new Error('Request failed', { cause }), {
+          config: { headers: { Authorization: 'Bearer SECRET' } },
+          credentials: new Credentials('ann', 'hunter2')
+        });
+        redacting.error('Request failed', error);
+
+        const line = redacting.exportLogs('ndjson');
+        expect(line).not.toContain('SECRET');
+        expect(line).not.toContain('hunter2');
+        expect(JSON.parse(line).err).toMatchObject({
+          message: 'Request failed',
+          config: { headers: { Authorization: '[Redacted]' } },
+          credentials: { user: 'ann', password: '[Redacted]' },
+          cause: { message: 'login failed', password: '[Redacted]' }
+        });
+
+        const [entry] = redacting.getEntries();
+        expect(entry.data).toBeInstanceOf(Error);
+        expect(entry.data.credentials).toBeInstanceOf(Credentials);
+        expect(error.config.headers.Authorization).toBe('Bearer SECRET');
+      });
+
+      it('should export NDJSON records', () => {
+        const bound = testLogger.with({ requestId: 'r1' });
+        bound.warn('Slow query', { ms: 120 });
+
+        const lines = bound.exportLogs('ndjson').trim().split('\n');
+        expect(lines).toHaveLength(1);
+        expect(JSON.parse(lines[0])).toEqual({
+          level: 'warn',
+          time: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+          msg: 'Slow query',
+          name: 'TEST',
+          requestId: 'r1',
+          ms: 120
+        });
+      });
+
+      it('should print JSON to the console when configured', () => {
+        createLogger({ format: 'json' }).info('Started', { port: 3000 });
+
+        expect(JSON.parse((console.info as jest.Mock).mock.calls[0][0])).toMatchObject({ level: 'info', msg: 'Started', port: 3000 });
+      });
     });
 
     describe('export functionality', () => {
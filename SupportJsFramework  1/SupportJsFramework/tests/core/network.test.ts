@@ -0,0 +1,72 @@
+import { parseIPAddress, isIPInRange, domainToASCII, isValidHostname } from '../../src/core/network';
+
+describe('Network utilities', () => {
+  describe('parseIPAddress', () => {
+    it('should parse IPv4 and IPv6 addresses', () => {
+      expect(parseIPAddress('192.168.0.1')).toEqual({ version: 4, bytes: [192, 168, 0, 1] });
+      expect(parseIPAddress('::1')!.bytes).toEqual([...new Array(15).fill(0), 1]);
+      expect(parseIPAddress('2001:db8::ff00:42:8329')!.bytes.slice(12)).toEqual([0, 0x42, 0x83, 0x29]);
+      expect(parseIPAddress('::ffff:10.0.0.1')!.bytes.slice(10)).toEqual([0xff, 0xff, 10, 0, 0, 1]);
+      expect(parseIPAddress('fe80::1%eth0', { allowZone: true })!.version).toBe(6);
+      expect(parseIPAddress('fe80::1%eth0')).toBe(null);
+    });
+
+    it('should reject malformed addresses', () => {
+      expect(parseIPAddress('01.2.3.4')).toBe(null);
+      expect(parseIPAddress('1:2:3:4:5:6:7:8:9')).toBe(null);
+      expect(parseIPAddress('1::2::3')).toBe(null);
+      expect(parseIPAddress('1:2:3:4:5:6:7::8')).toBe(null);
+      expect(parseIPAddress('12345::')).toBe(null);
+    });
+  });
+
+  describe('isIPInRange', () => {
+    it('should match IPv4 CIDR ranges', () => {
+      expect(isIPInRange('10.1.2.3', '10.0.0.0/8')).toBe(true);
+      expect(isIPInRange('192.168.1.130', '192.168.1.128/25')).toBe(true);
+      expect(isIPInRange('192.168.1.127', '192.168.1.128/25')).toBe(false);
+      expect(isIPInRange('8.8.8.8', '0.0.0.0/0')).toBe(true);
+      expect(isIPInRange('1.2.3.4', '1.2.3.4')).toBe(true);
+    });
+
+    it('should match IPv6 CIDR ranges', () => {
+      expect(isIPInRange('2001:db8:1234::1', '2001:db8::/32')).toBe(true);
+      expect(isIPInRange('2001:db9::1', '2001:db8::/32')).toBe(false);
+      expect(isIPInRange('fe80::abcd', 'fe80::/10')).toBe(true);
+    });
+
+    it('should match lists and IPv4-mapped addresses', () => {
+      const privateRanges = ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16'];
+      expect(isIPInRange('172.20.0.5', privateRanges)).toBe(true);
+      expect(isIPInRange('172.32.0.5', privateRanges)).toBe(false);
+      expect(isIPInRange('::ffff:192.168.5.5', privateRanges)).toBe(true);
+    });
+
+    it('should reject invalid input', () => {
+      expect(isIPInRange('10.0.0.1', '10.0.0.0/33')).toBe(false);
+      expect(isIPInRange('10.0.0.1', '::/0')).toBe(false);
+      expect(isIPInRange('nope', '10.0.0.0/8')).toBe(false);
+    });
+  });
+
+  describe('domainToASCII', () => {
+    it('should convert internationalized domains to punycode', () => {
+      expect(domainToASCII('münchen.de')).toBe('xn--mnchen-3ya.de');
+      expect(domainToASCII('Bücher.example')).toBe('xn--bcher-kva.example');
+      expect(domainToASCII('例え.jp')).toBe('xn--r8jz45g.jp');
+      expect(domainToASCII('example.com')).toBe('example.com');
+    });
+  });
+
+  describe('isValidHostname', () => {
+    it('should validate hostnames', () => {
+      expect(isValidHostname('sub.example.co.uk')).toBe(true);
+      expect(isValidHostname('münchen.de')).toBe(true);
+      expect(isValidHostname('localhost')).toBe(false);
+      expect(isValidHostname('localhost', { requireTLD: false })).toBe(true);
+      expect(isValidHostname('-bad.example.com')).toBe(false);
+      expect(isValidHostname(`${'a'.repeat(64)}.com`)).toBe(false);
+      expect(isValidHostname('example.123')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { estimatePasswordEntropy, isCommonPassword } from '../../src/core/password';
+import { validatePasswordStrength } from '../../src/core/validation';
+
+const patterns = (password: string, userInputs?: string[]): string[] =>
+  estimatePasswordEntropy(password, userInputs).matches.map(match => `${match.pattern}:${match.token}`);
+
+describe('Password estimation', () => {
+  describe('isCommonPassword', () => {
+    it('should find common passwords regardless of case and substitutions', () => {
+      expect(isCommonPassword('password')).toBe(true);
+      expect(isCommonPassword('LetMeIn')).toBe(true);
+      expect(isCommonPassword('m0nk3y')).toBe(true);
+      expect(isCommonPassword('x7#Kq9!mZp')).toBe(false);
+    });
+  });
+
+  describe('estimatePasswordEntropy', () => {
+    it('should score random passwords highly', () => {
+      const estimate = estimatePasswordEntropy('x7#Kq9!mZp');
+      expect(estimate.score).toBe(4);
+      expect(estimate.matches).toEqual([]);
+      expect(estimate.entropy).toBeGreaterThan(60);
+    });
+
+    it('should detect dictionary words and l33t substitutions', () => {
+      expect(patterns('Password1!')).toEqual(['dictionary:Password1']);
+      const [match] = estimatePasswordEntropy('dr4g0n!!Zq').matches;
+      expect(match).toMatchObject({ pattern: 'dictionary', token: 'dr4g0n', l33t: true });
+    });
+
+    it('should detect keyboard walks', () => {
+      expect(patterns('zxcvfr!Q')).toContain('keyboard:zxcvfr');
+      expect(estimatePasswordEntropy('asdfghjk').score).toBe(0);
+    });
+
+    it('should detect sequences and repeats', () => {
+      expect(patterns('abcdef')).toEqual(['sequence:abcdef']);
+      expect(patterns('zyxw9876')).toEqual(['sequence:zyxw', 'sequence:9876']);
+      expect(patterns('Tk!aaaaaa')).toEqual(['repeat:aaaaaa']);
+    });
+
+    it('should detect dates', () => {
+      expect(patterns('Kim1987')).toEqual(['date:1987']);
+      expect(patterns('k!12/05/1990')).toEqual(['date:12/05/1990']);
+    });
+
+    it('should discount user-specific strings', () => {
+      const plain = estimatePasswordEntropy('aliceRocks!');
+      const personal = estimatePasswordEntropy('aliceRocks!', ['alice']);
+      expect(patterns('aliceRocks!', ['alice'])).toEqual(['banned:alice']);
+      expect(personal.entropy).toBeLessThan(plain.entropy);
+    });
+
+    it('should estimate long passwords quickly', () => {
+      const started = Date.now();
+      const estimate = estimatePasswordEntropy('aB3$'.repeat(2500));
+      validatePasswordStrength('aB3$'.repeat(2500), { bannedSubstrings: ['jane.doe@example.com'] });
+      expect(Date.now() - started).toBeLessThan(1000);
+      expect(estimate.score).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  parsePhoneNumber,
+  formatPhoneNumber,
+  isValidPhoneNumber,
+  getCountryCallingCode,
+  registerPhoneMetadata
+} from '../../src/core/phone';
+
+const format = (input: string, country?: string): string[] => {
+  const phone = parsePhoneNumber(input, country)!;
+  return [
+    formatPhoneNumber(phone, 'E164'),
+    formatPhoneNumber(phone, 'NATIONAL'),
+    formatPhoneNumber(phone, 'INTERNATIONAL'),
+    formatPhoneNumber(phone, 'RFC3966')
+  ];
+};
+
+describe('Phone numbers', () => {
+  describe('parsePhoneNumber', () => {
+    it('should parse national numbers with a default country', () => {
+      expect(parsePhoneNumber('(201) 555-0123', 'US')).toEqual({
+        country: 'US',
+        callingCode: '1',
+        nationalNumber: '2015550123',
+        type: 'fixedLineOrMobile'
+      });
+      expect(parsePhoneNumber('07400 123456', 'GB')).toMatchObject({ nationalNumber: '7400123456', type: 'mobile' });
+      expect(parsePhoneNumber('030 123456', 'de')).toMatchObject({ country: 'DE', type: 'fixedLine' });
+      expect(parsePhoneNumber('1-800-555-0199', 'US')).toMatchObject({ nationalNumber: '8005550199', type: 'tollFree' });
+    });
+
+    it('should parse international numbers', () => {
+      expect(parsePhoneNumber('+44 (0)20 7946 0018')).toMatchObject({ country: 'GB', nationalNumber: '2079460018' });
+      expect(parsePhoneNumber('0033 6 12 34 56 78', 'DE')).toMatchObject({ country: 'FR', type: 'mobile' });
+      expect(parsePhoneNumber('011 44 20 7946 0018', 'US')).toMatchObject({ country: 'GB' });
+      expect(parsePhoneNumber('+39 06 1234 5678')).toMatchObject({ country: 'IT', nationalNumber: '0612345678' });
+    });
+
+    it('should tell apart countries sharing a calling code', () => {
+      expect(parsePhoneNumber('+1 416 555 0199')!.country).toBe('CA');
+      expect(parsePhoneNumber('+1 212 555 0199')!.country).toBe('US');
+      expect(parsePhoneNumber('(604) 555-0199', 'US')!.country).toBe('CA');
+    });
+
+    it('should keep extensions', () => {
+      expect(parsePhoneNumber('+1 201 555 0123 ext. 42')!.extension).toBe('42');
+      expect(parsePhoneNumber('tel:+1-201-555-0123;ext=7')!.extension).toBe('7');
+    });
+
+    it('should reject invalid numbers', () => {
+      expect(parsePhoneNumber('12345', 'US')).toBe(null);
+      expect(parsePhoneNumber('(123) 456-7890', 'US')).toBe(null);
+      expect(parsePhoneNumber('+999 123 456')).toBe(null);
+      expect(parsePhoneNumber('call me', 'US')).toBe(null);
+      expect(parsePhoneNumber('020 7946 0018')).toBe(null);
+    });
+  });
+
+  describe('formatPhoneNumber', () => {
+    it('should format numbers in every style', () => {
+      expect(format('+12015550123')).toEqual([
+        '+12015550123', '(201) 555-0123', '+1 201-555-0123', 'tel:+1-201-555-0123'
+      ]);
+      expect(format('02079460018', 'GB')).toEqual([
+        '+442079460018', '020 7946 0018', '+44 20 7946 0018', 'tel:+44-20-7946-0018'
+      ]);
+      expect(format('090-1234-5678', 'JP')).toEqual([
+        '+819012345678', '090-1234-5678', '+81 90-1234-5678', 'tel:+81-90-1234-5678'
+      ]);
+      expect(format('(11) 91234-5678', 'BR')[1]).toBe('(11) 91234-5678');
+    });
+
+    it('should format extensions', () => {
+      const phone = parsePhoneNumber('201-555-0123 x42', 'US')!;
+      expect(formatPhoneNumber(phone)).toBe('+1 201-555-0123 ext. 42');
+      expect(formatPhoneNumber(phone, 'RFC3966')).toBe('tel:+1-201-555-0123;ext=42');
+    });
+  });
+
+  describe('isValidPhoneNumber', () => {
+    it('should validate by region', () => {
+      expect(isValidPhoneNumber('+33 1 23 45 67 89')).toBe(true);
+      expect(isValidPhoneNumber('+33 1 23 45 67 89', 'FR')).toBe(true);
+      expect(isValidPhoneNumber('+33 1 23 45 67 89', 'DE')).toBe(false);
+    });
+  });
+
+  describe('metadata', () => {
+    it('should expose and extend country metadata', () => {
+      expect(getCountryCallingCode('GB')).toBe('44');
+      expect(getCountryCallingCode('XX')).toBe(null);
+
+      registerPhoneMetadata('IE', {
+        callingCode: '353',
+        trunkPrefix: '0',
+        lengths: [9],
+        types: { mobile: /^8[35-9]\d{7}$/ },
+        formats: [{ pattern: /^(\d{2})(\d{3})(\d{4})$/, format: '$1 $2 $3' }]
+      });
+      expect(format('085 123 4567', 'IE')[2]).toBe('+353 85 123 4567');
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import {
+  parseRRule,
+  serializeRRule,
+  parseRecurrence,
+  serializeRecurrence,
+  iterateRRule,
+  getOccurrencesBetween,
+  RecurrenceRule
+} from '../../src/core/recurrence';
+import { formatDate } from '../../src/core/date';
+
+const take = (iterator: Iterable<Date>, limit: number): Date[] => {
+  const result: Date[] = [];
+  for (const date of iterator) {
+    result.push(date);
+    if (result.length >= limit) break;
+  }
+  return result;
+};
+
+const days = (dates: Date[]): string[] => dates.map(date => formatDate(date, 'YYYY-MM-DD'));
+
+describe('Recurrence rules', () => {
+  describe('parseRRule', () => {
+    it('should parse rule parts', () => {
+      expect(parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;COUNT=10;BYDAY=2MO,-1FR;BYSETPOS=1;WKST=SU')).toEqual({
+        freq: 'MONTHLY',
+        interval: 2,
+        count: 10,
+        byDay: [{ weekday: 'MO', n: 2 }, { weekday: 'FR', n: -1 }],
+        bySetPos: [1],
+        wkst: 'SU'
+      });
+      expect(parseRRule('FREQ=YEARLY;BYMONTH=1,7;BYMONTHDAY=-1')).toEqual({
+        freq: 'YEARLY',
+        byMonth: [1, 7],
+        byMonthDay: [-1]
+      });
+    });
+
+    it('should parse UNTIL values', () => {
+      expect(parseRRule('FREQ=DAILY;UNTIL=20230115T090000Z')!.until!.toISOString()).toBe('2023-01-15T09:00:00.000Z');
+      expect(parseRRule('FREQ=DAILY;UNTIL=20230115T090000', 'Europe/Berlin')!.until!.toISOString())
+        .toBe('2023-01-15T08:00:00.000Z');
+    });
+
+    it('should reject invalid or unsupported rules', () => {
+      expect(parseRRule('')).toBe(null);
+      expect(parseRRule('INTERVAL=2')).toBe(null);
+      expect(parseRRule('FREQ=FORTNIGHTLY')).toBe(null);
+      expect(parseRRule('FREQ=DAILY;COUNT=0')).toBe(null);
+      expect(parseRRule('FREQ=DAILY;COUNT=3;UNTIL=20230101T000000Z')).toBe(null);
+      expect(parseRRule('FREQ=MONTHLY;BYMONTHDAY=32')).toBe(null);
+      expect(parseRRule('FREQ=WEEKLY;BYDAY=XX')).toBe(null);
+      expect(parseRRule('FREQ=DAILY;BYHOUR=9')).toBe(null);
+    });
+  });
+
+  describe('serializeRRule', () => {
+    it('should round-trip rules', () => {
+      const text = 'FREQ=MONTHLY;INTERVAL=2;UNTIL=20231231T235959Z;BYMONTHDAY=1,-1;BYDAY=MO,2TU;BYSETPOS=-1;WKST=SU';
+      expect(serializeRRule(parseRRule(text)!)).toBe(text);
+    });
+  });
+
+  describe('iterateRRule', () => {
+    const dtstart = new Date(2023, 0, 2, 9, 0); // Monday
+
+    it('should expand daily rules with interval and count', () => {
+      const rule: RecurrenceRule = { freq: 'DAILY', interval: 2, count: 3 };
+      expect(days([...iterateRRule(rule, { dtstart })])).toEqual(['2023-01-02', '2023-01-04', '2023-01-06']);
+    });
+
+    it('should keep the DTSTART time of day', () => {
+      const [first] = take(iterateRRule({ freq: 'DAILY' }, { dtstart }), 1);
+      expect(formatDate(first, 'HH:mm')).toBe('09:00');
+    });
+
+    it('should expand weekly rules by weekday', () => {
+      const rule = parseRRule('FREQ=WEEKLY;BYDAY=MO,WE,FR;COUNT=5')!;
+      expect(days([...iterateRRule(rule, { dtstart })])).toEqual([
+        '2023-01-02', '2023-01-04', '2023-01-06', '2023-01-09', '2023-01-11'
+      ]);
+    });
+
+    it('should expand monthly rules with ordinal weekdays', () => {
+      const rule = parseRRule('FREQ=MONTHLY;BYDAY=-1FR;COUNT=3')!;
+      expect(days([...iterateRRule(rule, { dtstart })])).toEqual(['2023-01-27', '2023-02-24', '2023-03-31']);
+    });
+
+    it('should skip months without the DTSTART day', () => {
+      const rule: RecurrenceRule = { freq: 'MONTHLY', count: 3 };
+      const start = new Date(2023, 0, 31);
+      expect(days([...iterateRRule(rule, { dtstart: start })])).toEqual(['2023-01-31', '2023-03-31', '2023-05-31']);
+    });
+
+    it('should expand negative month days', () => {
+      const rule = parseRRule('FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=3')!;
+      expect(days([...iterateRRule(rule, { dtstart })])).toEqual(['2023-01-31', '2023-02-28', '2023-03-31']);
+    });
+
+    it('should apply BYSETPOS', () => {
+      // Last weekday of the month
+      const rule = parseRRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=3')!;
+      expect(days([...iterateRRule(rule, { dtstart })])).toEqual(['2023-01-31', '2023-02-28', '2023-03-31']);
+    });
+
+    it('should intersect BYMONTHDAY and BYDAY', () => {
+      const rule = parseRRule('FREQ=MONTHLY;BYDAY=FR;BYMONTHDAY=13;COUNT=2')!;
+      expect(days([...iterateRRule(rule, { dtstart })])).toEqual(['2023-01-13', '2023-10-13']);
+    });
+
+    it('should expand yearly rules', () => {
+      expect(days(take(iterateRRule({ freq: 'YEARLY' }, { dtstart: new Date(2024, 1, 29) }), 2)))
+        .toEqual(['2024-02-29', '2028-02-29']);
+
+      // US Thanksgiving
+      const thanksgiving = parseRRule('FREQ=YEARLY;BYMONTH=11;BYDAY=4TH;COUNT=2')!;
+      expect(days([...iterateRRule(thanksgiving, { dtstart })])).toEqual(['2023-11-23', '2024-11-28']);
+
+      // Last Monday of the year
+      const lastMonday = parseRRule('FREQ=YEARLY;BYDAY=-1MO;COUNT=1')!;
+      expect(days([...iterateRRule(lastMonday, { dtstart })])).toEqual(['2023-12-25']);
+    });
+
+    it('should stop at UNTIL', () => {
+      const rule: RecurrenceRule = { freq: 'WEEKLY', until: new Date(2023, 0, 16, 9, 0) };
+      expect(days([...iterateRRule(rule, { dtstart })])).toEqual(['2023-01-02', '2023-01-09', '2023-01-16']);
+    });
+
+    it('should expand sub-daily rules', () => {
+      const rule: RecurrenceRule = { freq: 'HOURLY', interval: 6, count: 3 };
+      expect([...iterateRRule(rule, { dtstart })].map(date => formatDate(date, 'D HH:mm')))
+        .toEqual(['2 09:00', '2 15:00', '2 21:00']);
+    });
+
+    it('should find sparse sub-daily occurrences', () => {
+      const june = parseRRule('FREQ=HOURLY;BYMONTH=6;COUNT=2')!;
+      expect([...iterateRRule(june, { dtstart })].map(date => formatDate(date, 'YYYY-MM-DD HH:mm')))
+        .toEqual(['2023-06-01 00:00', '2023-06-01 01:00']);
+
+      const monday = parseRRule('FREQ=MINUTELY;BYDAY=MO;COUNT=1')!;
+      expect([...iterateRRule(monday, { dtstart: new Date(2023, 0, 3, 9, 0) })].map(date => formatDate(date, 'YYYY-MM-DD HH:mm')))
+        .toEqual(['2023-01-09 00:00']);
+    });
+
+    it('should drop exclusion dates but still count them', () => {
+      const rule: RecurrenceRule = { freq: 'DAILY', count: 3 };
+      const exdates = [new Date(2023, 0, 3, 9, 0)];
+      expect(days([...iterateRRule(rule, { dtstart, exdates })])).toEqual(['2023-01-02', '2023-01-04']);
+    });
+
+    it('should keep wall-clock time in a time zone across DST', () => {
+      const start = new Date('2023-03-24T08:00:00Z'); // 09:00 in Berlin
+      const occurrences = [...iterateRRule({ freq: 'DAILY', count: 3 }, { dtstart: start, timeZone: 'Europe/Berlin' })];
+      expect(occurrences.map(date => date.toISOString())).toEqual([
+        '2023-03-24T08:00:00.000Z',
+        '2023-03-25T08:00:00.000Z',
+        '2023-03-26T07:00:00.000Z'
+      ]);
+    });
+  });
+
+  describe('getOccurrencesBetween', () => {
+    it('should return occurrences within a range of an infinite rule', () => {
+      const rule = parseRRule('FREQ=WEEKLY;BYDAY=TU')!;
+      const result = getOccurrencesBetween(rule, new Date(2023, 5, 1), new Date(2023, 5, 30), {
+        dtstart: new Date(2023, 0, 3, 10, 0)
+      });
+      expect(days(result)).toEqual(['2023-06-06', '2023-06-13', '2023-06-20', '2023-06-27']);
+    });
+
+    it('should return nothing for rules that never match', () => {
+      const rule = parseRRule('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30')!;
+      expect(getOccurrencesBetween(rule, new Date(2023, 0, 1), new Date(2030, 0, 1), {
+        dtstart: new Date(2023, 0, 1)
+      })).toEqual([]);
+    });
+  });
+
+  describe('parseRecurrence', () => {
+    const text = [
+      'DTSTART;TZID=America/New_York:20230102T090000',
+      'RRULE:FREQ=DAILY;COUNT=3',
+      'EXDATE;TZID=America/New_York:20230103T090000'
+    ].join('\n');
+
+    it('should parse DTSTART, RRULE and EXDATE lines', () => {
+      const set = parseRecurrence(text)!;
+      expect(set.timeZone).toBe('America/New_York');
+      expect(set.dtstart.toISOString()).toBe('2023-01-02T14:00:00.000Z');
+      expect(set.exdates!.map(date => date.toISOString())).toEqual(['2023-01-03T14:00:00.000Z']);
+      expect([...iterateRRule(set.rule, set)].map(date => date.toISOString())).toEqual([
+        '2023-01-02T14:00:00.000Z',
+        '2023-01-04T14:00:00.000Z'
+      ]);
+    });
+
+    it('should serialize recurrence sets', () => {
+      expect(serializeRecurrence(parseRecurrence(text)!)).toBe([
+        'DTSTART;TZID=America/New_York:20230102T090000',
+        'RRULE:FREQ=DAILY;COUNT=3',
+        'EXDATE:20230103T140000Z'
+      ].join('\n'));
+    });
+
+    it('should reject incomplete input', () => {
+      expect(parseRecurrence('RRULE:FREQ=DAILY')).toBe(null);
+      expect(parseRecurrence('DTSTART:20230102T090000Z')).toBe(null);
+      expect(parseRecurrence('DTSTART:nonsense\nRRULE:FREQ=DAILY')).toBe(null);
+    });
+  });
+});
@@ -1,4 +1,21 @@
-import { LocalStorage, SessionStorage, CookieStorage, Storage } from '../../src/core/storage';
+import {
+  LocalStorage,
+  SessionStorage,
+  CookieStorage,
+  Storage,
+  createStore,
+  MemoryStorageBackend,
+  isQuotaExceededError,
+  onStorageQuotaExceeded,
+  StorageQuotaEvent,
+  getStorageMigrationReport,
+  clearStorageMigrationReport
+} from '../../src/core/storage';
+import { schema } from '../../src/core/validation';
+import { TextEncoder, TextDecoder } from 'util';
+import { webcrypto } from 'crypto';
+
+Object.assign(global, { TextEncoder, TextDecoder });
 
 // Mock localStorage and sessionStorage
 const createStorageMock = () => {
@@ -28,6 +45,23 @@ const sessionStorageMock = createStorageMock();
 Object.defineProperty(window, 'localStorage', { value: localStorageMock });
 Object.defineProperty(window, 'sessionStorage', { value: sessionStorageMock });
 
+// jsdom has no BroadcastChannel; record channels to inspect and drive them
+class FakeBroadcastChannel {
+  static instances: FakeBroadcastChannel[] = [];
+  posted: unknown[] = [];
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(readonly name: string) {
+    FakeBroadcastChannel.instances.push(this);
+  }
+
+  postMessage(data: unknown): void {
+    this.posted.push(data);
+  }
+}
+
+Object.assign(global, { BroadcastChannel: FakeBroadcastChannel });
+
 describe('Storage utilities', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -157,6 +191,23 @@ describe('Storage utilities', () => {
         expect(CookieStorage.get('test')).toBe('hello world');
       });
 
+      it('should keep "=" in values', () => {
+        document.cookie = 'token=a=b==';
+        expect(CookieStorage.get('token')).toBe('a=b==');
+      });
+
+      it('should encode names that are not cookie tokens', () => {
+        expect(CookieStorage.set('cart (draft)', '1')).toBe(true);
+        expect(CookieStorage.get('cart (draft)')).toBe('1');
+        expect(CookieStorage.getAll()).toEqual({ 'cart (draft)': '1' });
+      });
+
+      it('should return false instead of throwing when a cookie cannot be set', () => {
+        jest.spyOn(console, 'warn').mockImplementation();
+        expect(CookieStorage.set('__Host-id', '1')).toBe(false);
+        jest.restoreAllMocks();
+      });
+
       it('should return null for non-existent cookies', () => {
         expect(CookieStorage.get('nonexistent')).toBe(null);
       });
@@ -206,6 +257,419 @@ describe('Storage utilities', () => {
     });
   });
 
+  describe('createStore', () => {
+    let now: number;
+
+    beforeEach(() => {
+      now = 1000000;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should wrap values in StorageItem envelopes', () => {
+      const store = createStore({ prefix: 'app:' });
+      store.set('user', { id: 1 });
+
+      expect(JSON.parse(localStorageMock.getItem('app:user')!)).toEqual({ value: { id: 1 }, timestamp: now });
+      expect(store.get('user')).toEqual({ id: 1 });
+      expect(store.getItem('user')).toEqual({ value: { id: 1 }, timestamp: now });
+    });
+
+    it('should expire values lazily', () => {
+      const store = createStore({ prefix: 'app:', defaultTTL: 1000 });
+      store.set('token', 'abc');
+      store.set('pinned', 'keep', { ttl: null });
+      store.set('short', 'x', { ttl: 10 });
+
+      now += 999;
+      expect(store.get('token')).toBe('abc');
+      expect(store.has('short')).toBe(false);
+      expect(localStorageMock.getItem('app:short')).toBe(null);
+
+      now += 1;
+      expect(store.get('token')).toBe(null);
+      expect(store.get('pinned')).toBe('keep');
+    });
+
+    it('should sweep expired values', () => {
+      const store = createStore({ prefix: 'app:', defaultTTL: 1000 });
+      store.set('a', 1);
+      store.set('b', 2);
+      store.set('c', 3, { ttl: null });
+
+      now += 5000;
+      expect(store.sweep()).toBe(2);
+      expect(store.getKeys()).toEqual(['c']);
+    });
+
+    it('should scope keys and clear to the namespace', () => {
+      const app = createStore({ prefix: 'app:' });
+      const other = createStore({ prefix: 'other:' });
+      app.set('a', 1);
+      other.set('a', 2);
+      localStorageMock.setItem('unrelated', '"x"');
+
+      expect(app.getKeys()).toEqual(['a']);
+      expect(app.clear()).toBe(true);
+      expect(app.get('a')).toBe(null);
+      expect(other.get('a')).toBe(2);
+      expect(localStorageMock.getItem('unrelated')).toBe('"x"');
+    });
+
+    it('should read raw JSON written before envelopes', () => {
+      localStorageMock.setItem('legacy', JSON.stringify({ theme: 'dark' }));
+      expect(LocalStorage.get('legacy')).toEqual({ theme: 'dark' });
+    });
+
+    it('should support session and custom backends', () => {
+      createStore({ backend: 'session', prefix: 's:' }).set('a', 1);
+      expect(sessionStorageMock.getItem('s:a')).not.toBe(null);
+
+      const backend = new MemoryStorageBackend();
+      const store = createStore({ backend });
+      store.set('a', 1);
+      expect(backend.length).toBe(1);
+      expect(createStore({ backend }).get('a')).toBe(1);
+
+      const memory = createStore({ backend: 'memory' });
+      memory.set('a', 1);
+      expect(memory.get('a')).toBe(1);
+      expect(createStore({ backend: 'memory' }).get('a')).toBe(null);
+    });
+
+    it('should apply the configured namespace to Storage', () => {
+      Storage.configure({ prefix: 'cfg:', defaultTTL: 100 });
+      Storage.set('a', 1);
+      expect(localStorageMock.getItem('cfg:a')).not.toBe(null);
+
+      now += 100;
+      expect(Storage.get('a')).toBe(null);
+      Storage.configure({});
+    });
+  });
+
+  describe('encrypted stores', () => {
+    const crypto = webcrypto as unknown as Crypto;
+    const encryption = { keys: [{ id: 'k1', secret: 'secret' }], iterations: 1000, crypto };
+
+    it('should store values encrypted', async () => {
+      const store = createStore({ prefix: 'secure:', encryption });
+      expect(await store.setAsync('token', { access: 'abc123' })).toBe(true);
+
+      const raw = localStorageMock.getItem('secure:token')!;
+      expect(raw).not.toContain('abc123');
+      expect(await store.getAsync('token')).toEqual({ access: 'abc123' });
+      expect(store.has('token')).toBe(true);
+      expect(() => store.get('token')).toThrow(/getItemAsync/);
+      expect(() => store.set('token', 'x')).toThrow(/setAsync/);
+    });
+
+    it('should surface tampering and copied values as CryptoErrors', async () => {
+      const store = createStore({ prefix: 'secure:', encryption });
+      await store.setAsync('a', 'first');
+      localStorageMock.setItem('secure:b', localStorageMock.getItem('secure:a')!);
+      localStorageMock.setItem('secure:c', '"plain"');
+
+      await expect(store.getAsync('b')).rejects.toMatchObject({ code: 'DECRYPTION_FAILED' });
+      await expect(store.getAsync('c')).rejects.toMatchObject({ code: 'INVALID_PAYLOAD' });
+    });
+
+    it('should re-encrypt values with the newest key', async () => {
+      await createStore({ prefix: 'secure:', encryption }).setAsync('a', 1);
+      const rotated = createStore({
+        prefix: 'secure:',
+        encryption: { ...encryption, keys: [{ id: 'k2', secret: 'new' }, ...encryption.keys] }
+      });
+
+      expect(await rotated.rotate()).toBe(1);
+      expect(localStorageMock.getItem('secure:a')).toContain('"k2.');
+      expect(await rotated.rotate()).toBe(0);
+      expect(await rotated.getAsync('a')).toBe(1);
+    });
+
+    it('should behave like the sync API without encryption', async () => {
+      const store = createStore({ prefix: 'plain:' });
+      await store.setAsync('a', 1);
+      expect(store.get('a')).toBe(1);
+      expect(await store.getAsync('a')).toBe(1);
+    });
+  });
+
+  describe('compressed stores', () => {
+    const value = { rows: Array.from({ length: 100 }, (_, i) => ({ id: i, label: 'repeated label' })) };
+
+    it('should compress values above the threshold', () => {
+      const store = createStore({ prefix: 'z:', compression: { threshold: 100 } });
+      store.set('big', value);
+      store.set('small', 'tiny');
+
+      const raw = JSON.parse(localStorageMock.getItem('z:big')!);
+      expect(raw.compression).toEqual({ method: 'lz', rawSize: JSON.stringify(value).length });
+      expect(JSON.parse(localStorageMock.getItem('z:small')!).compression).toBeUndefined();
+      expect(store.get('big')).toEqual(value);
+      expect(store.get('small')).toBe('tiny');
+    });
+
+    it('should read compressed values regardless of options', async () => {
+      createStore({ prefix: 'z:', compression: true }).set('big', value);
+      const store = createStore({ prefix: 'z:' });
+
+      expect(store.get('big')).toEqual(value);
+      expect(await store.getAsync('big')).toEqual(value);
+    });
+
+    it('should compress before encrypting', async () => {
+      const encryption = { keys: [{ id: 'k1', secret: 'secret' }], iterations: 1000, crypto: webcrypto as unknown as Crypto };
+      const store = createStore({ prefix: 'z:', encryption, compression: { threshold: 100 } });
+
+      await store.setAsync('big', value);
+      const raw = localStorageMock.getItem('z:big')!;
+      expect(raw.length).toBeLessThan(JSON.stringify(value).length);
+      expect(await store.getAsync('big')).toEqual(value);
+    });
+
+    it('should report compressed and raw sizes', () => {
+      const store = createStore({ prefix: 'z:', compression: { threshold: 100 } });
+      store.set('big', value);
+      store.set('small', 'tiny');
+
+      const report = store.getSizeReport();
+      expect(report.items).toBe(2);
+      expect(report.compressedItems).toBe(1);
+      expect(report.rawSize).toBeGreaterThan(report.size);
+      expect(report.size).toBe(store.getSize());
+      expect(LocalStorage.getSize(true)).toEqual(report);
+    });
+  });
+
+  describe('change subscriptions', () => {
+    it('should notify listeners of writes in this document', () => {
+      const listener = jest.fn();
+      const unsubscribe = LocalStorage.subscribe('theme', listener);
+
+      createStore({ backend: 'local' }).set('theme', 'dark');
+      expect(listener).toHaveBeenLastCalledWith('dark', { key: 'theme', value: 'dark', source: 'local' });
+
+      LocalStorage.remove('theme');
+      expect(listener).toHaveBeenLastCalledWith(null, { key: 'theme', value: null, source: 'local' });
+
+      unsubscribe();
+      LocalStorage.set('theme', 'light');
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should match keys across store prefixes', () => {
+      const listener = jest.fn();
+      createStore({ prefix: 'app:' }).subscribe('user', listener);
+
+      createStore({ backend: 'local' }).set('app:user', { id: 1 });
+      createStore({ prefix: 'other:' }).set('user', { id: 2 });
+      createStore({ prefix: 'app:', backend: 'session' }).set('user', { id: 3 });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0]).toEqual({ id: 1 });
+    });
+
+    it('should react to storage events from other tabs', () => {
+      const listener = jest.fn();
+      LocalStorage.subscribe('count', listener);
+
+      localStorageMock.setItem('count', JSON.stringify({ value: 5, timestamp: Date.now() }));
+      window.dispatchEvent(new StorageEvent('storage', { key: 'count' }));
+      window.dispatchEvent(new StorageEvent('storage', { key: 'count' }));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(5, { key: 'count', value: 5, source: 'remote' });
+    });
+
+    it('should relay changes through BroadcastChannel', () => {
+      const listener = jest.fn();
+      LocalStorage.subscribe('flag', listener);
+      const [channel] = FakeBroadcastChannel.instances;
+
+      LocalStorage.set('flag', true);
+      expect(channel.posted).toContainEqual({ key: 'flag' });
+
+      localStorageMock.setItem('flag', JSON.stringify({ value: false, timestamp: Date.now() }));
+      channel.onmessage!({ data: { key: 'flag' } });
+      expect(listener).toHaveBeenLastCalledWith(false, { key: 'flag', value: false, source: 'remote' });
+    });
+
+    it('should not notify when only the access time changed', () => {
+      const store = createStore({ prefix: 'lru:', eviction: 'lru' });
+      store.set('a', 1);
+      const listener = jest.fn();
+      store.subscribe('a', listener);
+
+      store.get('a');
+      window.dispatchEvent(new StorageEvent('storage', { key: 'lru:a' }));
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('versioned keys', () => {
+    const settingsV3 = {
+      version: 3,
+      migrations: {
+        1: (v1: { dark: boolean }) => ({ theme: v1.dark ? 'dark' : 'light' }),
+        2: (v2: { theme: string }) => ({ ...v2, fontSize: 14 })
+      },
+      schema: schema.object({ theme: schema.enum(['light', 'dark'] as const), fontSize: schema.number() }),
+      defaultValue: { theme: 'light', fontSize: 12 }
+    };
+
+    beforeEach(() => clearStorageMigrationReport());
+
+    it('should migrate old values on read and write them back', () => {
+      localStorageMock.setItem('v:settings', JSON.stringify({ dark: true }));
+      const store = createStore({ prefix: 'v:', versions: { settings: settingsV3 } });
+
+      expect(store.get('settings')).toEqual({ theme: 'dark', fontSize: 14 });
+      expect(JSON.parse(localStorageMock.getItem('v:settings')!)).toMatchObject({
+        value: { theme: 'dark', fontSize: 14 },
+        version: 3
+      });
+      expect(getStorageMigrationReport()).toMatchObject({
+        migrated: 1,
+        records: [{ key: 'v:settings', from: 1, to: 3, status: 'migrated' }]
+      });
+    });
+
+    it('should stamp the version on written values', () => {
+      const store = createStore({ prefix: 'v:', versions: { settings: settingsV3 } });
+      store.set('settings', { theme: 'light', fontSize: 16 });
+
+      expect(JSON.parse(localStorageMock.getItem('v:settings')!).version).toBe(3);
+      expect(store.get('settings')).toEqual({ theme: 'light', fontSize: 16 });
+      expect(getStorageMigrationReport().records).toEqual([]);
+    });
+
+    it('should fall back to the default for invalid or unmigratable values', () => {
+      const store = createStore({ prefix: 'v:', versions: { settings: settingsV3 } });
+      localStorageMock.setItem('v:settings', JSON.stringify({ value: { theme: 'pink', fontSize: 14 }, timestamp: 1, version: 3 }));
+      expect(store.get('settings')).toEqual(settingsV3.defaultValue);
+
+      localStorageMock.setItem('v:settings', JSON.stringify({ value: {}, timestamp: 1, version: 4 }));
+      expect(store.get('settings')).toEqual(settingsV3.defaultValue);
+
+      const report = getStorageMigrationReport();
+      expect(report).toMatchObject({ invalid: 1, failed: 1 });
+      expect(report.records[0].error).toMatch(/theme/);
+      expect(report.records[1].error).toMatch(/newer/);
+    });
+
+    it('should apply registered definitions to Storage and migrate eagerly', async () => {
+      Storage.defineVersion('counter', { version: 2, migrations: { 1: (count: number) => ({ count }) } });
+      localStorageMock.setItem('counter', '5');
+      localStorageMock.setItem('unrelated', '1');
+
+      const records = await Storage.migrate();
+      expect(records).toHaveLength(1);
+      expect(records[0]).toMatchObject({ key: 'counter', status: 'migrated' });
+      expect(Storage.get('counter')).toEqual({ count: 5 });
+    });
+  });
+
+  describe('quota handling', () => {
+    // Memory backend holding at most `limit` characters of values
+    const createLimitedBackend = (limit: number) => {
+      const backend = new MemoryStorageBackend();
+      const setItem = backend.setItem.bind(backend);
+      backend.setItem = (key: string, value: string) => {
+        const used = Array.from({ length: backend.length }, (_, i) => backend.key(i)!)
+          .filter(existing => existing !== key)
+          .reduce((total, existing) => total + backend.getItem(existing)!.length, 0);
+        if (used + value.length > limit) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+        setItem(key, value);
+      };
+      return backend;
+    };
+
+    let now = 1000;
+    let events: StorageQuotaEvent[];
+    let unsubscribe: () => void;
+
+    beforeEach(() => {
+      jest.spyOn(Date, 'now').mockImplementation(() => (now += 1000));
+      events = [];
+      unsubscribe = onStorageQuotaExceeded(event => events.push(event));
+    });
+
+    afterEach(() => {
+      unsubscribe();
+      jest.restoreAllMocks();
+    });
+
+    const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+    const big = 'x'.repeat(100);
+
+    it('should recognise quota errors', () => {
+      expect(isQuotaExceededError(new DOMException('full', 'QuotaExceededError'))).toBe(true);
+      expect(isQuotaExceededError({ name: 'NS_ERROR_DOM_QUOTA_REACHED' })).toBe(true);
+      expect(isQuotaExceededError(new Error('other'))).toBe(false);
+    });
+
+    it('should fail and report without an eviction policy', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const store = createStore({ backend: createLimitedBackend(300) });
+      store.set('a', big);
+      store.set('b', big);
+
+      expect(store.set('c', big)).toBe(false);
+      await flush();
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ key: 'c', policy: null, evicted: [], recovered: false, estimate: null });
+    });
+
+    it('should evict the oldest entries first', async () => {
+      const store = createStore({ prefix: 'q:', backend: createLimitedBackend(300), eviction: 'oldest' });
+      store.set('a', big);
+      store.set('b', big);
+
+      expect(store.set('c', big)).toBe(true);
+      expect(store.getKeys().sort()).toEqual(['b', 'c']);
+      await flush();
+      expect(events[0]).toMatchObject({ key: 'q:c', policy: 'oldest', evicted: ['q:a'], recovered: true });
+    });
+
+    it('should evict the least recently read entries', () => {
+      const store = createStore({ backend: createLimitedBackend(330), eviction: 'lru' });
+      store.set('a', big);
+      store.set('b', big);
+      store.get('a');
+
+      expect(store.set('c', big)).toBe(true);
+      expect(store.has('a')).toBe(true);
+      expect(store.has('b')).toBe(false);
+    });
+
+    it('should evict the lowest priority entries', () => {
+      const store = createStore({ backend: createLimitedBackend(330), eviction: 'priority' });
+      store.set('a', big, { priority: 5 });
+      store.set('b', big, { priority: 1 });
+
+      expect(store.set('c', big)).toBe(true);
+      expect(store.getKeys().sort()).toEqual(['a', 'c']);
+    });
+
+    it('should include the storage estimate in events', async () => {
+      Object.defineProperty(navigator, 'storage', {
+        value: { estimate: () => Promise.resolve({ usage: 90, quota: 100 }) },
+        configurable: true
+      });
+      const store = createStore({ backend: createLimitedBackend(200), eviction: 'oldest' });
+      store.set('a', big);
+
+      store.set('b', big);
+      await flush();
+      expect(events[0].estimate).toEqual({ usage: 90, quota: 100 });
+      delete (navigator as any).storage;
+    });
+  });
+
   describe('Error handling', () => {
     it('should handle localStorage errors gracefully', () => {
       // Mock localStorage to throw error
@@ -0,0 +1,241 @@
+import { createLogger, LogEntry } from '../../src/core/logger';
+import { createStore, MemoryStorageBackend } from '../../src/core/storage';
+import {
+  createConsoleTransport,
+  createMemoryTransport,
+  createStorageTransport,
+  createHttpTransport,
+  createStreamTransport,
+  formatLogEntry,
+  formatNDJSON,
+  redact,
+  serializeError,
+  toLogRecord
+} from '../../src/core/transports';
+
+const entry = (message: string, level: LogEntry['level'] = 'info'): LogEntry => ({
+  level,
+  message,
+  timestamp: new Date(Date.UTC(2024, 0, 1))
+});
+
+describe('Log transports', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('logger integration', () => {
+    it('should write to transports from their own level up', () => {
+      const all = createMemoryTransport();
+      const errors = createMemoryTransport({ level: 'error' });
+      const logger = createLogger({ level: 'debug', enableConsole: false, transports: [all, errors] });
+
+      logger.debug('debug');
+      logger.warn('warn');
+      logger.error('error');
+
+      expect(all.getEntries().map(item => item.message)).toEqual(['debug', 'warn', 'error']);
+      expect(errors.getEntries().map(item => item.message)).toEqual(['error']);
+    });
+
+    it('should add and remove transports and share them with child loggers', () => {
+      const memory = createMemoryTransport();
+      const logger = createLogger({ enableConsole: false, prefix: 'app' });
+      const remove = logger.addTransport(memory);
+
+      logger.child('db').info('connected');
+      remove();
+      logger.info('ignored');
+
+      expect(memory.getEntries()).toEqual([expect.objectContaining({ message: 'connected', prefix: 'app:db' })]);
+    });
+
+    it('should keep logging when a transport throws', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation();
+      const memory = createMemoryTransport();
+      const logger = createLogger({
+        enableConsole: false,
+        transports: [{ write: () => { throw new Error('broken'); } }, memory]
+      });
+
+      logger.info('still logged');
+
+      expect(memory.getEntries()).toHaveLength(1);
+      expect(warn).toHaveBeenCalledWith('Log transport failed:', expect.any(Error));
+    });
+  });
+
+  describe('structured records', () => {
+    it('should serialize errors with their cause chain', () => {
+      const root = Object.assign(new Error('connection refused'), { code: 'ECONNREFUSED' });
+      const error = Object.assign(new Error('query failed'), { cause: root });
+
+      expect(serializeError(error)).toEqual({
+        type: 'Error',
+        message: 'query failed',
+        stack: expect.any(String),
+        cause: { type: 'Error', message: 'connection refused', stack: expect.any(String), code: 'ECONNREFUSED' }
+      });
+
+      const loop = Object.assign(new Error('loop'), { cause: undefined as unknown });
+      loop.cause = loop;
+      expect(serializeError(loop)).toMatchObject({ message: 'loop', cause: '[Circular]' });
+    });
+
+    it('should merge context and data into records', () => {
+      const record = toLogRecord({ ...entry('saved'), prefix: 'db', context: { requestId: 'r1' }, data: { id: 1 } });
+      expect(record).toEqual({ level: 'info', time: '2024-01-01T00:00:00.000Z', msg: 'saved', name: 'db', requestId: 'r1', id: 1 });
+
+      expect(toLogRecord({ ...entry('failed', 'error'), data: new TypeError('bad') }).err).toMatchObject({ type: 'TypeError' });
+      expect(toLogRecord({ ...entry('clash'), data: { msg: 'mine' } }).data).toEqual({ msg: 'mine' });
+      expect(toLogRecord({ ...entry('list'), data: [1, 2] }).data).toEqual([1, 2]);
+    });
+
+    it('should format single-line NDJSON that survives cycles', () => {
+      const data: any = { text: 'a\nb' };
+      data.self = data;
+
+      const line = formatNDJSON({ ...entry('cyclic'), data });
+      expect(line).not.toContain('\n');
+      expect(JSON.parse(line)).toMatchObject({ text: 'a\nb', self: { text: 'a\nb', self: '[Circular]' } });
+    });
+
+    it('should redact key paths with wildcards', () => {
+      const value = { users: [{ token: 'a', name: 'x' }], token: 'b', nested: { token: 'c' } };
+      expect(redact(value, ['users.*.token'])).toEqual({ users: [{ token: '[Redacted]', name: 'x' }], token: 'b', nested: { token: 'c' } });
+      expect(redact('plain', ['token'])).toBe('plain');
+
+      const date = new Date(0);
+      expect(redact({ date }, ['token']).date).toBe(date);
+    });
+
+    it('should redact errors and their cause chains', () => {
+      const root = Object.assign(new Error('denied'), { token: 'a' });
+      const error = new AggregateError([root], 'failed', { cause: root });
+      const redacted = redact(error, ['token']);
+
+      expect(redacted).toBeInstanceOf(AggregateError);
+      expect(serializeError(redacted)).toMatchObject({
+        type: 'AggregateError',
+        message: 'failed',
+        cause: { message: 'denied', token: '[Redacted]' },
+        errors: [{ message: 'denied', token: '[Redacted]' }]
+      });
+      expect(root.token).toBe('a');
+    });
+  });
+
+  describe('createConsoleTransport', () => {
+    it('should format entries for the matching console method', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation();
+      createConsoleTransport({ timestamp: false }).write({ ...entry('careful', 'warn'), prefix: 'api', data: { id: 1 } });
+
+      expect(warn).toHaveBeenCalledWith('[api] [WARN] careful', { id: 1 });
+      expect(formatLogEntry(entry('hi'))).toBe('2024-01-01T00:00:00.000Z [INFO] hi');
+    });
+  });
+
+  describe('createMemoryTransport', () => {
+    it('should keep the latest entries in order', () => {
+      const memory = createMemoryTransport({ size: 3 });
+      ['1', '2', '3', '4', '5'].forEach(message => memory.write(entry(message)));
+
+      expect(memory.getEntries().map(item => item.message)).toEqual(['3', '4', '5']);
+      memory.clear();
+      expect(memory.getEntries()).toEqual([]);
+    });
+  });
+
+  describe('createStorageTransport', () => {
+    it('should persist batched entries up to maxEntries', async () => {
+      const store = createStore({ backend: new MemoryStorageBackend() });
+      const transport = createStorageTransport({ store, key: 'logs', maxEntries: 2 });
+
+      transport.write(entry('a'));
+      transport.write(entry('b'));
+      transport.write(entry('c'));
+
+      const entries = await transport.getEntries();
+      expect(entries.map(item => item.message)).toEqual(['b', 'c']);
+      expect(entries[0].timestamp).toBeInstanceOf(Date);
+
+      await transport.clear();
+      expect(store.get('logs')).toBe(null);
+    });
+  });
+
+  describe('createHttpTransport', () => {
+    const okResponse = { ok: true, status: 200 } as Response;
+
+    it('should send full batches and flush partial ones', async () => {
+      const fetch = jest.fn().mockResolvedValue(okResponse);
+      const transport = createHttpTransport({ url: '/logs', batchSize: 2, beacon: false, fetch });
+
+      transport.write(entry('a'));
+      transport.write(entry('b'));
+      transport.write(entry('c'));
+      await transport.close();
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      const [url, init] = fetch.mock.calls[0];
+      expect(url).toBe('/logs');
+      expect(JSON.parse(init.body).entries.map((item: LogEntry) => item.message)).toEqual(['a', 'b']);
+      expect(JSON.parse(fetch.mock.calls[1][1].body).entries).toHaveLength(1);
+    });
+
+    it('should retry failed requests and drop the batch after maxRetries', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation();
+      const fetch = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockResolvedValueOnce({ ok: false, status: 503 })
+        .mockResolvedValueOnce(okResponse);
+      const transport = createHttpTransport({ url: '/logs', retryDelay: 0, beacon: false, fetch });
+
+      transport.write(entry('a'));
+      await transport.flush();
+      expect(fetch).toHaveBeenCalledTimes(3);
+
+      fetch.mockReset().mockRejectedValue(new Error('offline'));
+      transport.write(entry('b'));
+      await transport.close();
+      expect(fetch).toHaveBeenCalledTimes(4);
+      expect(warn).toHaveBeenCalledWith('Dropped 1 log entries:', expect.any(Error));
+    });
+
+    it('should send queued entries with sendBeacon when the page is hidden', async () => {
+      const sendBeacon = jest.fn().mockReturnValue(true);
+      Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true });
+      const fetch = jest.fn().mockResolvedValue(okResponse);
+      const transport = createHttpTransport({ url: '/logs', fetch });
+
+      transport.write(entry('leaving'));
+      window.dispatchEvent(new Event('pagehide'));
+      await transport.close();
+
+      expect(sendBeacon).toHaveBeenCalledWith('/logs', expect.any(Blob));
+      expect(fetch).not.toHaveBeenCalled();
+      delete (navigator as any).sendBeacon;
+    });
+  });
+
+  describe('createStreamTransport', () => {
+    it('should write one line per entry', () => {
+      const chunks: string[] = [];
+      const transport = createStreamTransport({ stream: { write: (chunk: string) => chunks.push(chunk) } });
+
+      transport.write({ ...entry('saved'), prefix: 'db', data: { id: 1 } });
+
+      expect(chunks).toEqual(['[db] 2024-01-01T00:00:00.000Z [INFO] saved {"id":1}\n']);
+    });
+
+    it('should write NDJSON when configured', () => {
+      const chunks: string[] = [];
+      const transport = createStreamTransport({ stream: { write: (chunk: string) => chunks.push(chunk) }, format: 'ndjson' });
+
+      transport.write({ ...entry('saved'), context: { requestId: 'r1' } });
+
+      expect(chunks).toEqual(['{"level":"info","time":"2024-01-01T00:00:00.000Z","msg":"saved","requestId":"r1"}\n']);
+    });
+  });
+});